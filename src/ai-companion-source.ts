@@ -0,0 +1,167 @@
+import { SourceMeeting, FailedMeeting, ZoomPastMeeting, MeetingHost } from './types';
+import { MeetingReference } from './meeting-reference';
+import {
+  SourceContext,
+  TranscriptLookup,
+  TranscriptSource,
+  TranscriptUnavailableError
+} from './transcript-source';
+import { stitchTranscripts } from './transcript-stitch';
+import { attendanceLoader } from './attendance';
+
+/**
+ * Checks whether an error is an access error that means this meeting's transcript
+ * can't be fetched, as opposed to a problem with the whole sync. The transcript
+ * endpoints answer these when the app lacks a scope or the transcript was removed.
+ */
+function isAccessError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.includes('401') || message.includes('403') || message.includes('404');
+}
+
+function toSourceMeeting(meeting: ZoomPastMeeting): SourceMeeting {
+  return {
+    uuid: meeting.uuid,
+    id: meeting.id,
+    topic: meeting.topic,
+    start_time: meeting.start_time,
+    duration: meeting.duration,
+    type: meeting.type,
+    participantCount: meeting.participants_count,
+  };
+}
+
+/**
+ * Transcripts generated by Zoom AI Companion, found by listing past meetings
+ * through the Reports API and asking for each occurrence's transcript.
+ */
+export class AICompanionTranscriptSource implements TranscriptSource {
+  readonly kind = 'ai_companion' as const;
+  readonly label = 'AI Companion';
+
+  private context: SourceContext;
+  private hosts = new Map<string, MeetingHost>();  // Hosts named in the meeting listing, by UUID
+
+  constructor(context: SourceContext) {
+    this.context = context;
+  }
+
+  async listMeetings(from: Date | undefined): Promise<SourceMeeting[]> {
+    const pastMeetings = await this.context.apiClient.listPastMeetings(from);
+    return pastMeetings.map(meeting => this.addMeeting(meeting));
+  }
+
+  async getMeeting(uuid: string, failure: FailedMeeting): Promise<SourceMeeting | null> {
+    // The transcript endpoint only needs the UUID, so the queued details stand in for the listing
+    return {
+      uuid,
+      id: failure.meetingId,
+      topic: failure.topic,
+      start_time: failure.startTime,
+      duration: failure.duration,
+    };
+  }
+
+  async findMeeting(reference: MeetingReference): Promise<SourceMeeting | null> {
+    if (reference.kind === 'share') {
+      // Recording links only identify recordings
+      return null;
+    }
+    const meeting = await this.context.apiClient.getPastMeeting(
+      reference.kind === 'id' ? reference.meetingId : reference.uuid
+    );
+    return meeting ? this.addMeeting(meeting) : null;
+  }
+
+  async findTranscript(meeting: SourceMeeting): Promise<TranscriptLookup> {
+    const { apiClient, log } = this.context;
+
+    log(`Checking transcript for meeting ${meeting.id}, UUID: ${meeting.uuid}`);
+    let transcripts;
+    try {
+      transcripts = await apiClient.getMeetingTranscript(meeting.uuid);
+    } catch (error) {
+      // Don't treat auth errors on the transcript endpoint as fatal - might just be a missing scope
+      if (isAccessError(error)) {
+        log(`Transcript fetch error for ${meeting.uuid}: ${error instanceof Error ? error.message : String(error)}`);
+        return { status: 'unavailable', reason: 'Transcript not accessible' };
+      }
+      throw error;
+    }
+
+    if (!transcripts || transcripts.length === 0) {
+      return { status: 'unavailable', reason: 'No AI Companion transcript' };
+    }
+
+    // A meeting can have several transcripts, e.g. when AI Companion was stopped and restarted.
+    // They carry no start time of their own, so they are ordered by creation and their times kept.
+    const downloadable = transcripts
+      .filter(t => t.can_download && t.download_url)
+      .sort((a, b) => Date.parse(a.transcript_created_time) - Date.parse(b.transcript_created_time));
+    if (downloadable.length === 0) {
+      return { status: 'unavailable', reason: 'Transcript not downloadable' };
+    }
+
+    const first = downloadable[0];
+    if (!meeting.topic) {
+      meeting.topic = first.meeting_topic;
+    }
+
+    return {
+      status: 'ready',
+      transcript: {
+        remoteFile: {
+          fileId: String(first.meeting_id || meeting.uuid),
+          createdAt: downloadable.map(t => t.transcript_created_time).join(','),
+        },
+        attendees: [],
+        kind: 'ai_companion',
+        downloadAttendance: attendanceLoader(apiClient, meeting.uuid, log),
+        resolveHost: () => this.resolveHost(meeting.uuid, first.host_id),
+        download: async () => {
+          try {
+            const segments = [];
+            for (const transcript of downloadable) {
+              segments.push({ content: await apiClient.downloadTranscriptDirect(transcript.download_url) });
+            }
+            return stitchTranscripts(segments);
+          } catch (error) {
+            if (isAccessError(error)) {
+              log(`Skipping ${meeting.id}: download returned ${error instanceof Error ? error.message : String(error)}`);
+              throw new TranscriptUnavailableError('Transcript not accessible');
+            }
+            throw error;
+          }
+        },
+      },
+    };
+  }
+
+  /**
+   * Resolves a meeting's host. Past meeting reports name the host; queued retries fall
+   * back to the users API. The reports have no timezone, so when notes use the host's
+   * timezone it is taken from the users API as well.
+   */
+  private async resolveHost(meetingUuid: string, hostId: string): Promise<MeetingHost | null> {
+    const apiClient = this.context.apiClient;
+    const listed = this.hosts.get(meetingUuid);
+    if (!listed) {
+      return apiClient.resolveHost(hostId);
+    }
+    if (this.context.settings.timezoneMode !== 'host') {
+      return listed;
+    }
+    const user = await apiClient.resolveHost(hostId);
+    return { ...listed, timezone: user?.timezone };
+  }
+
+  /**
+   * Remembers the host named in a past meeting report and normalizes the meeting.
+   */
+  private addMeeting(meeting: ZoomPastMeeting): SourceMeeting {
+    if (meeting.user_name) {
+      this.hosts.set(meeting.uuid, { name: meeting.user_name, email: meeting.user_email || undefined });
+    }
+    return toSourceMeeting(meeting);
+  }
+}
@@ -0,0 +1,99 @@
+import { Attendee, ZoomReportParticipant } from './types';
+import { ZoomApiClient, SyncCancelledError } from './zoom-api';
+
+/**
+ * Combines participant report sessions into one entry per attendee, in order of
+ * first join. Sessions are matched by email, or by name for guests without one.
+ *
+ * @param sessions - Participant sessions from the Reports API
+ * @returns Attendees with their first join, last leave and total minutes
+ */
+export function summarizeParticipants(sessions: ZoomReportParticipant[]): Attendee[] {
+  const byKey = new Map<string, { attendee: Attendee; seconds: number }>();
+
+  const sorted = sessions
+    .filter(session => session.name?.trim())
+    .sort((a, b) => Date.parse(a.join_time) - Date.parse(b.join_time));
+
+  for (const session of sorted) {
+    const email = session.user_email?.trim() || undefined;
+    const key = email ? email.toLowerCase() : `name:${session.name.trim()}`;
+    const existing = byKey.get(key);
+
+    if (!existing) {
+      byKey.set(key, {
+        attendee: {
+          name: session.name.trim(),
+          email,
+          joinTime: session.join_time || undefined,
+          leaveTime: session.leave_time || undefined,
+        },
+        seconds: session.duration || 0,
+      });
+      continue;
+    }
+
+    existing.seconds += session.duration || 0;
+    if (session.leave_time && (!existing.attendee.leaveTime || session.leave_time > existing.attendee.leaveTime)) {
+      existing.attendee.leaveTime = session.leave_time;
+    }
+  }
+
+  return Array.from(byKey.values()).map(({ attendee, seconds }) => ({
+    ...attendee,
+    durationMinutes: Math.round(seconds / 60),
+  }));
+}
+
+/**
+ * Fetches who attended a meeting from the participant report.
+ * Any failure, such as the app lacking the report:read:admin scope, returns null so
+ * the caller can fall back to the attendees it guessed from the recording.
+ *
+ * @param apiClient - Client used for the request
+ * @param meetingUuid - The meeting occurrence UUID
+ * @param log - Debug logger
+ * @returns The attendees, or null if the report is unavailable
+ */
+export async function fetchAttendance(
+  apiClient: ZoomApiClient,
+  meetingUuid: string,
+  log: (message: string) => void
+): Promise<Attendee[] | null> {
+  try {
+    const sessions = await apiClient.getMeetingParticipants(meetingUuid);
+    if (!sessions || sessions.length === 0) {
+      return null;
+    }
+    return summarizeParticipants(sessions);
+  } catch (error) {
+    if (error instanceof SyncCancelledError) {
+      throw error;
+    }
+    log(`Participant report unavailable for ${meetingUuid}: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Returns a loader for a meeting's participant report that requests it at most once,
+ * however often it is asked for; the sync filters and the note both use it.
+ *
+ * @param apiClient - Client used for the request
+ * @param meetingUuid - The meeting occurrence UUID
+ * @param log - Debug logger
+ * @returns A function resolving to the attendees, or null if the report is unavailable
+ */
+export function attendanceLoader(
+  apiClient: ZoomApiClient,
+  meetingUuid: string,
+  log: (message: string) => void
+): () => Promise<Attendee[] | null> {
+  let attendance: Promise<Attendee[] | null> | null = null;
+  return () => {
+    if (!attendance) {
+      attendance = fetchAttendance(apiClient, meetingUuid, log);
+    }
+    return attendance;
+  };
+}
@@ -0,0 +1,97 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { BackfillCheckpoint } from './types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Asks for a date range to backfill, or offers to resume an interrupted backfill.
+ */
+export class BackfillModal extends Modal {
+  private checkpoint: BackfillCheckpoint | null;
+  private onStart: (from: string, to: string) => Promise<void>;
+  private onResume: () => Promise<void>;
+  private from = '';
+  private to = new Date().toISOString().split('T')[0];
+
+  constructor(
+    app: App,
+    checkpoint: BackfillCheckpoint | null,
+    onStart: (from: string, to: string) => Promise<void>,
+    onResume: () => Promise<void>
+  ) {
+    super(app);
+    this.checkpoint = checkpoint;
+    this.onStart = onStart;
+    this.onResume = onResume;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: 'Backfill Zoom Transcripts' });
+    contentEl.createEl('p', {
+      text: 'Imports cloud recording transcripts from a past date range. Regular syncing is unaffected, ' +
+        'and an interrupted backfill can be resumed later.',
+    });
+
+    if (this.checkpoint) {
+      const { from, to, windowStart, userIndex, userEmails, syncedCount } = this.checkpoint;
+      new Setting(contentEl)
+        .setName('Resume interrupted backfill')
+        .setDesc(
+          `${from} to ${to}: at ${windowStart} for user ${userIndex + 1} of ${userEmails.length}, ` +
+          `${syncedCount} transcript(s) imported so far. Starting a new backfill discards this one.`
+        )
+        .addButton(button => button
+          .setButtonText('Resume')
+          .setCta()
+          .onClick(async () => {
+            this.close();
+            await this.onResume();
+          }));
+    }
+
+    new Setting(contentEl)
+      .setName('From')
+      .setDesc('First day to import (YYYY-MM-DD)')
+      .addText(text => {
+        text.inputEl.type = 'date';
+        text.onChange(value => {
+          this.from = value;
+        });
+      });
+
+    new Setting(contentEl)
+      .setName('To')
+      .setDesc('Last day to import (YYYY-MM-DD)')
+      .addText(text => {
+        text.inputEl.type = 'date';
+        text
+          .setValue(this.to)
+          .onChange(value => {
+            this.to = value;
+          });
+      });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('Cancel')
+        .onClick(() => this.close()))
+      .addButton(button => button
+        .setButtonText('Start Backfill')
+        .setCta()
+        .onClick(async () => {
+          if (!DATE_PATTERN.test(this.from) || !DATE_PATTERN.test(this.to) || this.from > this.to) {
+            new Notice('Enter a valid date range');
+            return;
+          }
+          this.close();
+          await this.onStart(this.from, this.to);
+        }));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,74 @@
+import { MeetingHost, RoutingRule, SourceMeeting } from './types';
+
+/**
+ * Checks whether a routing rule's pattern can be used, i.e. a topic rule's pattern
+ * is a valid regular expression. Other rules accept any pattern.
+ */
+export function isValidRoutingPattern(rule: Pick<RoutingRule, 'match' | 'pattern'>): boolean {
+  if (rule.match !== 'topic') {
+    return true;
+  }
+  try {
+    new RegExp(rule.pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks whether a routing rule applies to a meeting.
+ * Rules other than "all" never match an empty pattern, and a topic rule with an
+ * invalid regular expression never matches.
+ *
+ * @param rule - The rule
+ * @param meeting - The meeting
+ * @param host - The meeting's host, if resolved
+ */
+export function matchesRoutingRule(rule: RoutingRule, meeting: SourceMeeting, host?: MeetingHost): boolean {
+  const pattern = rule.pattern.trim();
+  if (rule.match === 'all') {
+    return true;
+  }
+  if (!pattern) {
+    return false;
+  }
+
+  switch (rule.match) {
+    case 'topic':
+      return isValidRoutingPattern(rule) && new RegExp(pattern, 'i').test(meeting.topic || '');
+    case 'host': {
+      const wanted = pattern.toLowerCase();
+      return [host?.name, host?.email].some(value => value?.toLowerCase() === wanted);
+    }
+    case 'series':
+      return pattern.split(',').some(id => id.replace(/\s/g, '') === String(meeting.id));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Finds the first routing rule that applies to a meeting.
+ *
+ * @param rules - Rules in the order they are checked
+ * @param meeting - The meeting
+ * @param host - The meeting's host, if resolved
+ * @returns The rule, or null if none applies
+ */
+export function findRoutingRule(rules: RoutingRule[], meeting: SourceMeeting, host?: MeetingHost): RoutingRule | null {
+  return rules.find(rule => matchesRoutingRule(rule, meeting, host)) ?? null;
+}
+
+/**
+ * Splits a rule's comma-separated tags, dropping leading "#" and empty entries.
+ *
+ * @example
+ * // parseTags("#meeting, clients/acme,") returns ["meeting", "clients/acme"]
+ */
+export function parseTags(tags: string): string[] {
+  return tags
+    .split(',')
+    .map(tag => tag.trim().replace(/^#+/, '').replace(/\s+/g, '-'))
+    .filter(tag => tag.length > 0);
+}
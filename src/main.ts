@@ -1,9 +1,74 @@
 import { Plugin, Notice } from 'obsidian';
-import { ZoomSyncSettings, ZoomPastMeeting } from './types';
+import {
+  ZoomSyncSettings,
+  ZoomRecording,
+  SourceMeeting,
+  SyncOptions,
+  SyncPlanItem,
+  SyncProgress,
+  TranscriptSourceKind,
+  BackfillCheckpoint,
+  FailedMeeting
+} from './types';
 import { ZoomSyncSettingTab } from './settings';
-import { ZoomApiClient, extractParticipantsFromRecording } from './zoom-api';
-import { SyncStateManager } from './sync-state';
-import { TranscriptWriter } from './transcript-writer';
+import { ZoomApiClient, SyncCancelledError } from './zoom-api';
+import { SyncStateManager, hashContent, isSameRemoteFile } from './sync-state';
+import { TranscriptWriter, DEFAULT_FILE_NAME_TEMPLATE } from './transcript-writer';
+import { ChatMessage } from './meeting-chat';
+import { isValidTimezone, getSystemTimezone } from './timezone';
+import { NoteTemplate, TemplateSyntaxError } from './note-template';
+import { findRoutingRule, parseTags } from './folder-routing';
+import { getFrontmatterKeys } from './note-merge';
+import { MeetingFilterDetails, getFilterReason, usesAttendanceFilter, usesHostFilter } from './meeting-filters';
+import { SyncPreviewModal } from './sync-preview-modal';
+import { SyncMeetingModal } from './sync-meeting-modal';
+import { BackfillModal } from './backfill-modal';
+import { MeetingReference, parseMeetingReference } from './meeting-reference';
+import { SourceContext, SourceTranscript, TranscriptSource, TranscriptUnavailableError } from './transcript-source';
+import { RecordingTranscriptSource } from './recording-source';
+import {
+  TRANSCRIPT_SOURCES,
+  NoteSourceAction,
+  createEnabledSources,
+  getNoteSourceAction,
+  getSourcesByPriority
+} from './source-registry';
+
+/**
+ * A single meeting located on Zoom, with the transcript to write its note from.
+ */
+interface ResolvedMeeting {
+  meeting: SourceMeeting;
+  source: TranscriptSource;
+  transcript: SourceTranscript;
+}
+
+/**
+ * The writer and file name picked for a meeting's new note.
+ */
+interface NewNote {
+  writer: TranscriptWriter;
+  fileName: string;
+  renamed: boolean;         // The meeting ID was appended because the name was taken
+}
+
+/**
+ * A meeting left out by the sync filters, with the filter that matched.
+ */
+type FilteredMeeting = Pick<SyncPlanItem, 'uuid' | 'topic' | 'startTime'> & { reason: string };
+
+// Filtered meetings listed in the notice at the end of a sync; the rest are counted
+const MAX_REPORTED_FILTERED = 10;
+
+/**
+ * Raised inside a backfill to stop it after handleApiError has already told the user why.
+ */
+class BackfillStoppedError extends Error {
+  constructor() {
+    super('Backfill stopped');
+    this.name = 'BackfillStoppedError';
+  }
+}
 
 const DEFAULT_SETTINGS: ZoomSyncSettings = {
   accountId: "",
@@ -14,14 +79,43 @@ const DEFAULT_SETTINGS: ZoomSyncSettings = {
   transcriptFolder: "zoom-transcripts",
   syncIntervalMinutes: 30,
   fetchRecordingTranscripts: true,
-  fetchAICompanionTranscripts: false
+  fetchAICompanionTranscripts: false,
+  transcriptUpdateMode: 'flag',
+  transcriptUpdateWindowDays: 7,
+  maxRetryAttempts: 5,
+  lookbackOverlapHours: 24,
+  pendingTranscriptTimeoutHours: 72,
+  sourcePriority: 'recording',
+  recordingTranscriptOrder: 'audio_first',
+  chatImportMode: 'off',
+  timezoneMode: 'system',
+  timezone: '',
+  noteTemplatePath: '',
+  fileNameTemplate: DEFAULT_FILE_NAME_TEMPLATE,
+  routingRules: [],
+  filterTopicInclude: '',
+  filterTopicExclude: '',
+  filterHostAllow: '',
+  filterHostDeny: '',
+  filterMinDurationMinutes: 0,
+  filterMeetingTypes: '',
+  filterMinParticipants: 0,
+  filterAttendeeEmail: '',
+  transcriptLayout: 'cues',
+  paragraphMaxGapSeconds: 10,
+  paragraphMaxLength: 1000
 };
 
 export default class ZoomTranscriptSync extends Plugin {
   settings!: ZoomSyncSettings;
   private syncInProgress = false;
   private apiClient: ZoomApiClient | null = null;
+  private abortController: AbortController | null = null;
+  private statusBarEl: HTMLElement | null = null;
   autoSyncEnabled = true;
+  private lastTemplateWarning: string | null = null;
+  // Filtered meetings already reported this session; each sync lists the overlap with the last one again
+  private reportedFilteredUuids = new Set<string>();
 
   private devLog(message: string): void {
     if (process.env.NODE_ENV !== 'production') {
@@ -32,11 +126,40 @@ export default class ZoomTranscriptSync extends Plugin {
   async onload() {
     await this.loadSettings();
     this.addSettingTab(new ZoomSyncSettingTab(this.app, this));
+    this.statusBarEl = this.addStatusBarItem();
     this.addCommand({
       id: 'sync-now',
       name: 'Sync Zoom Transcripts Now',
       callback: () => this.syncTranscripts()
     });
+    this.addCommand({
+      id: 'cancel-sync',
+      name: 'Cancel Zoom Transcript Sync',
+      checkCallback: (checking: boolean) => {
+        if (!this.syncInProgress) {
+          return false;
+        }
+        if (!checking) {
+          this.cancelSync();
+        }
+        return true;
+      }
+    });
+    this.addCommand({
+      id: 'sync-meeting',
+      name: 'Sync Zoom Meeting by ID, UUID, or Link',
+      callback: () => new SyncMeetingModal(this.app, (reference, force) => this.syncMeeting(reference, force)).open()
+    });
+    this.addCommand({
+      id: 'backfill',
+      name: 'Backfill Zoom Transcripts for a Date Range',
+      callback: () => this.openBackfill()
+    });
+    this.addCommand({
+      id: 'preview-sync',
+      name: 'Preview Zoom Transcript Sync',
+      callback: () => this.previewSync()
+    });
     this.registerInterval(
       window.setInterval(() => {
         if (this.autoSyncEnabled) {
@@ -46,8 +169,59 @@ export default class ZoomTranscriptSync extends Plugin {
     );
   }
 
+  onunload() {
+    // Abort any sync in flight; it stops before its next request
+    this.abortController?.abort();
+  }
+
+  /**
+   * Cancels the running sync. The API client stops before its next request and
+   * the sync ends without advancing lastSyncTimestamp.
+   */
+  cancelSync(): void {
+    if (this.abortController && !this.abortController.signal.aborted) {
+      this.abortController.abort();
+      this.setStatus('Zoom: cancelling...');
+    }
+  }
+
+  /**
+   * Updates the status bar item. Pass null to clear it.
+   */
+  private setStatus(text: string | null): void {
+    this.statusBarEl?.setText(text ?? '');
+  }
+
+  /**
+   * Formats sync progress for the status bar.
+   */
+  private reportProgress(progress: SyncProgress): void {
+    if (this.abortController?.signal.aborted) {
+      return;
+    }
+    const source = progress.phase !== 'listing-users' && progress.source === 'ai_companion'
+      ? 'AI Companion'
+      : 'recordings';
+
+    switch (progress.phase) {
+      case 'listing-users':
+        this.setStatus('Zoom: listing users...');
+        break;
+      case 'listing': {
+        const user = progress.userCount > 1 ? `user ${progress.userIndex}/${progress.userCount}, ` : '';
+        this.setStatus(`Zoom: listing ${source}, ${user}month ${progress.month} of ${progress.monthCount}`);
+        break;
+      }
+      case 'downloading':
+        this.setStatus(`Zoom: ${source} transcript ${progress.current} of ${progress.total}`);
+        break;
+    }
+  }
+
   async loadSettings() {
     this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    // Object.assign copies array defaults by reference; give the settings their own copy
+    this.settings.routingRules = this.settings.routingRules.map(rule => ({ ...rule }));
   }
 
   async saveSettings() {
@@ -78,279 +252,1093 @@ export default class ZoomTranscriptSync extends Plugin {
     return false;
   }
 
-  async syncTranscripts() {
-    // Check lock and return early if already syncing
-    if (this.syncInProgress) {
+  /**
+   * Re-syncs an already-synced meeting if its transcript changed on Zoom.
+   * Remote metadata is compared first so unchanged transcripts are not downloaded;
+   * the content hash then confirms the change before the note is touched.
+   *
+   * @returns true if the note was regenerated or flagged
+   */
+  private async applyTranscriptUpdate(
+    stateManager: SyncStateManager,
+    meeting: SourceMeeting,
+    source: TranscriptSourceKind,
+    transcript: SourceTranscript
+  ): Promise<boolean> {
+    const { remoteFile } = transcript;
+    const entry = stateManager.getSyncedMeeting(meeting.uuid);
+    if (!entry) {
+      // Matched a migrated legacy entry; there is no baseline to compare against
+      return false;
+    }
+
+    if (!entry.sources?.length) {
+      // Synced before sources were tracked; the first source to list it claims the note
+      stateManager.setNoteSources(meeting.uuid, [source]);
+    }
+
+    if (!entry.remoteFile) {
+      // First time this meeting is seen since change tracking was added
+      stateManager.setRemoteFile(meeting.uuid, remoteFile);
+      await stateManager.writeState();
+      return false;
+    }
+
+    if (isSameRemoteFile(entry.remoteFile, remoteFile)) {
+      return false;
+    }
+
+    const transcriptContent = await transcript.download();
+    const contentHash = hashContent(transcriptContent);
+    if (entry.contentHash === contentHash) {
+      stateManager.setRemoteFile(meeting.uuid, remoteFile, contentHash);
+      await stateManager.writeState();
+      return false;
+    }
+
+    const folder = this.settings.transcriptFolder;
+    let fileName = entry.fileName;
+
+    if (this.settings.transcriptUpdateMode === 'flag') {
+      await TranscriptWriter.flagTranscriptChanged(this.app.vault, folder, fileName, new Date().toISOString());
+    } else {
+      const content = await this.generateNote(await this.createWriter(meeting, transcript), transcript, transcriptContent);
+      let merged = false;
+
+      if (this.settings.transcriptUpdateMode === 'overwrite') {
+        merged = await TranscriptWriter.mergeIntoVault(this.app.vault, folder, fileName, content, entry.frontmatterKeys) !== null;
+        if (!merged) {
+          // Note predates managed regions; write a new version rather than lose edits
+          this.devLog(`No managed regions in ${fileName}, writing a new version instead`);
+        }
+      }
+
+      if (!merged) {
+        fileName = TranscriptWriter.nextVersionFileName(this.app.vault, folder, entry.fileName);
+        await TranscriptWriter.writeToVault(this.app.vault, folder, fileName, content);
+      }
+      stateManager.setFrontmatterKeys(meeting.uuid, getFrontmatterKeys(content));
+    }
+
+    stateManager.markUpdated(meeting.uuid, fileName, remoteFile, contentHash);
+    await stateManager.writeState();
+
+    this.devLog(`Updated (${this.settings.transcriptUpdateMode}): ${fileName}`);
+    return true;
+  }
+
+  /**
+   * Brings a synced meeting's note in line with the source priority when a transcript
+   * from another source turns up: a preferred source's transcript replaces the note's,
+   * and with both sources kept it is added as a section of its own.
+   *
+   * @returns true if the note was changed
+   */
+  private async applySourceChange(
+    stateManager: SyncStateManager,
+    meeting: SourceMeeting,
+    source: TranscriptSourceKind,
+    transcript: SourceTranscript,
+    action: Exclude<NoteSourceAction, 'update' | 'skip'>
+  ): Promise<boolean> {
+    const entry = stateManager.getSyncedMeeting(meeting.uuid);
+    if (!entry) {
+      return false;
+    }
+
+    const transcriptContent = await transcript.download();
+    const folder = this.settings.transcriptFolder;
+    const writer = await this.createWriter(meeting, transcript);
+    let fileName = entry.fileName;
+
+    if (action === 'replace') {
+      const content = await this.generateNote(writer, transcript, transcriptContent);
+      if (await TranscriptWriter.mergeIntoVault(this.app.vault, folder, fileName, content, entry.frontmatterKeys) === null) {
+        // Note predates managed regions; write a new version rather than lose edits
+        fileName = TranscriptWriter.nextVersionFileName(this.app.vault, folder, entry.fileName);
+        await TranscriptWriter.writeToVault(this.app.vault, folder, fileName, content);
+      }
+      stateManager.markUpdated(meeting.uuid, fileName, transcript.remoteFile, hashContent(transcriptContent));
+      stateManager.setNoteSources(meeting.uuid, [source]);
+      stateManager.setFrontmatterKeys(meeting.uuid, getFrontmatterKeys(content));
+    } else {
+      const section = writer.generateSourceSection(transcriptContent, source);
+      if (!await TranscriptWriter.appendToVault(this.app.vault, folder, fileName, section)) {
+        this.devLog(`Note ${fileName} is missing, not adding the ${source} transcript`);
+        return false;
+      }
+      stateManager.setNoteSources(meeting.uuid, [...(entry.sources ?? []), source]);
+    }
+    if (source === 'recording') {
+      stateManager.clearPending(meeting.uuid);
+    }
+
+    await stateManager.writeState();
+    this.devLog(`${action === 'replace' ? 'Replaced transcript' : 'Added transcript'} (${source}): ${fileName}`);
+    return true;
+  }
+
+  /**
+   * Runs a dry-run sync and opens the preview modal.
+   * Meetings ticked in the modal are then imported with a sync restricted to them.
+   *
+   * @param fullResync - Preview a full re-sync instead of an incremental one
+   */
+  async previewSync(fullResync = false) {
+    new Notice('Building Zoom sync preview...');
+    let plan: SyncPlanItem[];
+    try {
+      plan = await this.syncTranscripts({ dryRun: true, fullResync });
+    } catch (error) {
+      if (error instanceof SyncCancelledError) {
+        return;
+      }
+      throw error;
+    }
+    if (plan.length === 0) {
+      new Notice('Zoom sync preview: no meetings found');
       return;
     }
 
-    // Check if at least one transcript source is enabled
-    if (!this.settings.fetchRecordingTranscripts && !this.settings.fetchAICompanionTranscripts) {
-      this.devLog('No transcript sources enabled, skipping sync');
+    new SyncPreviewModal(this.app, plan, async (uuids) => {
+      await this.syncTranscripts({ fullResync, onlyUuids: new Set(uuids) });
+    }).open();
+  }
+
+  /**
+   * Syncs one meeting the user identified directly, regardless of the sync window.
+   * Tries the meeting's cloud recording transcript first, then AI Companion.
+   *
+   * @param input - Meeting ID, occurrence UUID, or zoom.us link
+   * @param force - Regenerate the note even if the meeting was synced before
+   */
+  async syncMeeting(input: string, force = false): Promise<void> {
+    const reference = parseMeetingReference(input);
+    if (!reference) {
+      new Notice('Not a Zoom meeting ID, UUID, or meeting link');
+      return;
+    }
+    if (this.syncInProgress) {
+      new Notice('Zoom sync is already running. Try again when it finishes.');
       return;
     }
 
     this.syncInProgress = true;
-    this.devLog('Zoom sync starting...');
+    this.abortController = new AbortController();
 
     try {
-      // Create ZoomApiClient with settings (store as instance variable)
-      this.apiClient = new ZoomApiClient(this.settings);
+      this.apiClient = new ZoomApiClient(this.settings, {
+        signal: this.abortController.signal,
+        onProgress: (progress) => this.reportProgress(progress),
+      });
       const apiClient = this.apiClient;
+      this.setStatus('Zoom: looking up meeting...');
 
-      // Create SyncStateManager
-      const stateManager = new SyncStateManager(
-        this.app.vault,
-        this.settings.transcriptFolder
-      );
-
-      // Load current sync state
+      const stateManager = new SyncStateManager(this.app.vault, this.settings.transcriptFolder);
       await stateManager.readState();
 
-      let syncedCount = 0;
-      let skippedCount = 0;
-      let failedCount = 0;
+      const resolved = await this.resolveMeeting(this.createSourceContext(apiClient, stateManager, false), reference);
+      if (!resolved) {
+        new Notice('No downloadable transcript found for that Zoom meeting');
+        return;
+      }
 
-      // Track processed meeting UUIDs to avoid duplicates across sources
-      const processedUuids = new Set<string>();
+      const { meeting, transcript } = resolved;
+      const existing = stateManager.getSyncedMeeting(meeting.uuid);
+      if (stateManager.isSynced(meeting) && !force) {
+        new Notice(`Zoom meeting already synced${existing ? `: ${existing.fileName}` : ''}`);
+        return;
+      }
 
-      // Determine start date for queries
-      const fromDate = this.settings.lastSyncTimestamp
-        ? new Date(this.settings.lastSyncTimestamp)
-        : undefined;
+      this.setStatus('Zoom: downloading transcript...');
+      const transcriptContent = await transcript.download();
+      const folder = this.settings.transcriptFolder;
 
-      // ============================================
-      // Source 1: Cloud Recording Transcripts
-      // ============================================
-      if (this.settings.fetchRecordingTranscripts) {
-        this.devLog('Fetching cloud recording transcripts...');
+      let fileName: string;
+      if (existing) {
+        // Regenerate the existing note in place, recreating it if it was deleted
+        const content = await this.generateNote(await this.createWriter(meeting, transcript), transcript, transcriptContent);
+        fileName = existing.fileName;
+        if (await TranscriptWriter.mergeIntoVault(this.app.vault, folder, fileName, content, existing.frontmatterKeys) === null) {
+          fileName = TranscriptWriter.nextVersionFileName(this.app.vault, folder, existing.fileName);
+          await TranscriptWriter.writeToVault(this.app.vault, folder, fileName, content);
+        }
+        stateManager.markSynced(meeting, fileName, transcript.remoteFile, hashContent(transcriptContent), resolved.source.kind);
+        stateManager.setFrontmatterKeys(meeting.uuid, getFrontmatterKeys(content));
+        await stateManager.writeState();
+      } else {
+        fileName = await this.writeNewNote(stateManager, meeting, resolved.source.kind, transcript, transcriptContent);
+      }
 
-        let recordings;
-        try {
-          recordings = await apiClient.listRecordings(fromDate);
-        } catch (error) {
-          if (this.handleApiError(error, apiClient)) {
-            return;
-          }
+      this.devLog(`Synced (${resolved.source.kind}, on demand): ${fileName}`);
+      new Notice(`Synced Zoom meeting: ${fileName}`);
+    } catch (error) {
+      if (error instanceof SyncCancelledError) {
+        new Notice('Zoom sync cancelled');
+        return;
+      }
+      if (error instanceof TranscriptUnavailableError) {
+        new Notice(`Could not sync Zoom meeting: ${error.message}`);
+        return;
+      }
+      if (this.apiClient && this.handleApiError(error, this.apiClient)) {
+        return;
+      }
+      new Notice(`Failed to sync Zoom meeting: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.syncInProgress = false;
+      this.abortController = null;
+      this.setStatus(null);
+    }
+  }
+
+  /**
+   * Creates a writer for a meeting's note with the current settings. The first routing
+   * rule that matches the meeting picks the folder for a new note, its tags and its template.
+   */
+  private async createWriter(meeting: SourceMeeting, transcript: SourceTranscript): Promise<TranscriptWriter> {
+    const host = await transcript.resolveHost() ?? undefined;
+    const rule = findRoutingRule(this.settings.routingRules, meeting, host);
+    if (rule) {
+      this.devLog(`Routing ${meeting.uuid} by ${rule.match} rule to "${rule.folder}"`);
+    }
+
+    return new TranscriptWriter(meeting, {
+      chatMode: this.settings.chatImportMode,
+      timeZone: await this.resolveTimezone(transcript),
+      template: await this.loadNoteTemplate(rule?.template.trim() || this.settings.noteTemplatePath),
+      fileNameTemplate: this.settings.fileNameTemplate,
+      folder: rule?.folder,
+      tags: rule ? parseTags(rule.tags) : [],
+      paragraphs: this.settings.transcriptLayout === 'paragraphs'
+        ? { maxGapMs: this.settings.paragraphMaxGapSeconds * 1000, maxLength: this.settings.paragraphMaxLength }
+        : undefined,
+    });
+  }
+
+  /**
+   * Checks a meeting against the sync filters, looking up its host and attendees only
+   * when a filter needs them. Attendees come from the participant report, or from the
+   * names the source found if the report is unavailable.
+   *
+   * @returns Why the meeting is filtered out, or null to sync it
+   */
+  private async checkSyncFilters(meeting: SourceMeeting, transcript: SourceTranscript): Promise<string | null> {
+    const details: MeetingFilterDetails = {};
+    if (usesHostFilter(this.settings)) {
+      details.host = await transcript.resolveHost();
+    }
+    if (usesAttendanceFilter(this.settings, meeting)) {
+      details.attendees = await transcript.downloadAttendance() ?? transcript.attendees.map(name => ({ name }));
+    }
+    return getFilterReason(this.settings, meeting, details);
+  }
+
+  /**
+   * Reads a note template. A template that is missing or can't be parsed is
+   * reported once and the default layout is used instead.
+   *
+   * @param templatePath - Vault path of the template note; empty for the default layout
+   * @returns The template text, or undefined for the default layout
+   */
+  private async loadNoteTemplate(templatePath: string): Promise<string | undefined> {
+    const path = templatePath.trim();
+    if (!path) {
+      return undefined;
+    }
+
+    let warning: string;
+    const template = await TranscriptWriter.readTemplate(this.app.vault, path);
+    if (template === null) {
+      warning = `Note template not found: ${path}`;
+    } else {
+      try {
+        new NoteTemplate(template);
+        this.lastTemplateWarning = null;
+        return template;
+      } catch (error) {
+        if (!(error instanceof TemplateSyntaxError)) {
           throw error;
         }
+        warning = `Note template ${path} has an error: ${error.message}`;
+      }
+    }
 
-        this.devLog(`Fetched ${recordings.length} recordings with transcripts`);
+    if (warning !== this.lastTemplateWarning) {
+      new Notice(`${warning}. Using the default layout.`);
+      this.lastTemplateWarning = warning;
+    }
+    return undefined;
+  }
 
-        for (const recording of recordings) {
-          const meetingId = String(recording.id);
-          const meetingUuid = recording.uuid;
+  /**
+   * Gets the timezone for a meeting's note from the timezone setting.
+   * An invalid configured zone, or a host without a known timezone, falls back to the system timezone.
+   */
+  private async resolveTimezone(transcript: SourceTranscript): Promise<string> {
+    if (this.settings.timezoneMode === 'zone' && isValidTimezone(this.settings.timezone)) {
+      return this.settings.timezone;
+    }
+    if (this.settings.timezoneMode === 'host') {
+      const host = await transcript.resolveHost();
+      if (host?.timezone && isValidTimezone(host.timezone)) {
+        return host.timezone;
+      }
+    }
+    return getSystemTimezone();
+  }
 
-          // Track as processed
-          processedUuids.add(meetingUuid);
+  /**
+   * Generates a meeting's note with its host and participant report, and its in-meeting chat
+   * if chat import is on. A chat that fails to download is left out rather than
+   * failing the note; without a participant report the source's attendee names are used.
+   */
+  private async generateNote(
+    writer: TranscriptWriter,
+    transcript: SourceTranscript,
+    transcriptContent: string
+  ): Promise<string> {
+    let chat: ChatMessage[] = [];
+    if (this.settings.chatImportMode !== 'off' && transcript.downloadChat) {
+      try {
+        chat = await transcript.downloadChat();
+      } catch (error) {
+        if (error instanceof SyncCancelledError) {
+          throw error;
+        }
+        this.devLog(`Chat download failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    const attendance = await transcript.downloadAttendance();
+    const host = await transcript.resolveHost();
+    return writer.generateTranscript(transcriptContent, transcript.attendees, {
+      transcriptKind: transcript.kind,
+      chat,
+      attendance: attendance ?? undefined,
+      host: host ?? undefined,
+    });
+  }
 
-          // Check if already synced
-          if (stateManager.isSynced(meetingId)) {
-            skippedCount++;
-            this.devLog(`Skipped (already exists): ${meetingId}`);
-            continue;
-          }
+  /**
+   * Picks the writer and file name for a meeting's new note, appending the meeting ID
+   * to the file name if the name is taken.
+   *
+   * @param isNameTaken - Checks a file name; defaults to whether the note exists
+   */
+  private async planNewNote(
+    meeting: SourceMeeting,
+    transcript: SourceTranscript,
+    isNameTaken = (fileName: string) => TranscriptWriter.fileExists(this.app.vault, this.settings.transcriptFolder, fileName)
+  ): Promise<NewNote> {
+    const writer = await this.createWriter(meeting, transcript);
+    const host = await transcript.resolveHost() ?? undefined;
+
+    const fileName = writer.generateFileName(false, host);
+    if (isNameTaken(fileName)) {
+      return { writer, fileName: writer.generateFileName(true, host), renamed: true };
+    }
+    return { writer, fileName, renamed: false };
+  }
 
-          // Find transcript file
-          const transcriptFile = recording.recording_files?.find(
-            file => file.recording_type === 'audio_transcript'
-          );
+  /**
+   * Writes the note for a meeting that has not been synced yet and records it in the sync state.
+   *
+   * @param note - Writer and file name already picked; planned here if omitted
+   * @returns The file name written
+   */
+  private async writeNewNote(
+    stateManager: SyncStateManager,
+    meeting: SourceMeeting,
+    source: TranscriptSourceKind,
+    transcript: SourceTranscript,
+    transcriptContent: string,
+    note?: NewNote
+  ): Promise<string> {
+    const { writer, fileName } = note ?? await this.planNewNote(meeting, transcript);
+    const content = await this.generateNote(writer, transcript, transcriptContent);
+    await TranscriptWriter.writeToVault(this.app.vault, this.settings.transcriptFolder, fileName, content);
 
-          if (!transcriptFile || !transcriptFile.download_url) {
-            continue;
+    stateManager.markSynced(meeting, fileName, transcript.remoteFile, hashContent(transcriptContent), source);
+    stateManager.setFrontmatterKeys(meeting.uuid, getFrontmatterKeys(content));
+    await stateManager.writeState();
+    return fileName;
+  }
+
+  /**
+   * Opens the backfill modal, offering to resume a saved backfill if there is one.
+   */
+  async openBackfill() {
+    const stateManager = new SyncStateManager(this.app.vault, this.settings.transcriptFolder);
+    await stateManager.readState();
+    new BackfillModal(
+      this.app,
+      stateManager.getBackfill(),
+      (from, to) => this.runBackfill({ from, to }),
+      () => this.runBackfill()
+    ).open();
+  }
+
+  /**
+   * Imports cloud recording transcripts from a past date range, independent of the
+   * incremental sync: lastSyncTimestamp is never read or changed. Progress is saved in
+   * the sync state after every page of results so an interrupted backfill can resume.
+   *
+   * @param range - Dates (YYYY-MM-DD) to start a new backfill; omit to resume the saved one
+   */
+  async runBackfill(range?: { from: string; to: string }): Promise<void> {
+    if (this.syncInProgress) {
+      new Notice('Zoom sync is already running. Try again when it finishes.');
+      return;
+    }
+
+    this.syncInProgress = true;
+    this.abortController = new AbortController();
+
+    try {
+      this.apiClient = new ZoomApiClient(this.settings, {
+        signal: this.abortController.signal,
+        onProgress: (progress) => this.reportProgress(progress),
+      });
+      const apiClient = this.apiClient;
+
+      const stateManager = new SyncStateManager(this.app.vault, this.settings.transcriptFolder);
+      await stateManager.readState();
+      const source = new RecordingTranscriptSource(this.createSourceContext(apiClient, stateManager, false));
+
+      let checkpoint: BackfillCheckpoint | null;
+      if (range) {
+        checkpoint = {
+          from: range.from,
+          to: range.to,
+          userEmails: await apiClient.listUserEmails(),
+          userIndex: 0,
+          windowStart: range.from,
+          startedAt: Date.now(),
+          syncedCount: 0,
+          skippedCount: 0,
+          filteredCount: 0,
+          failedCount: 0,
+          pendingCount: 0,
+          noTranscriptCount: 0,
+        };
+        stateManager.setBackfill(checkpoint);
+        await stateManager.writeState();
+      } else {
+        checkpoint = stateManager.getBackfill();
+        if (!checkpoint) {
+          new Notice('No Zoom backfill to resume');
+          return;
+        }
+        new Notice(`Resuming Zoom backfill from ${checkpoint.windowStart}`);
+      }
+
+      // Zoom's `to` date is inclusive, so the range ends at the start of that day
+      const rangeEnd = new Date(checkpoint.to);
+      const filtered: FilteredMeeting[] = [];
+
+      while (checkpoint.userIndex < checkpoint.userEmails.length) {
+        const userEmail = checkpoint.userEmails[checkpoint.userIndex];
+
+        let windowStart = new Date(checkpoint.windowStart);
+        while (windowStart <= rangeEnd) {
+          const windowEnd = new Date(windowStart);
+          windowEnd.setUTCMonth(windowEnd.getUTCMonth() + 1);
+          if (windowEnd > rangeEnd) {
+            windowEnd.setTime(rangeEnd.getTime());
           }
 
-          try {
-            // Download VTT content
-            let vttContent;
+          const userLabel = checkpoint.userEmails.length > 1
+            ? `user ${checkpoint.userIndex + 1}/${checkpoint.userEmails.length}, `
+            : '';
+          this.setStatus(`Zoom backfill: ${userLabel}${checkpoint.windowStart}`);
+
+          do {
+            let page;
             try {
-              vttContent = await apiClient.downloadTranscript(transcriptFile.download_url);
+              page = await apiClient.listRecordingsPage(userEmail, windowStart, windowEnd, checkpoint.pageToken);
             } catch (error) {
-              if (this.handleApiError(error, apiClient)) {
-                return;
+              if (error instanceof SyncCancelledError || !checkpoint.pageToken) {
+                throw error;
               }
-              throw error;
+              // Page tokens expire after a while; start the window over; synced meetings are skipped
+              this.devLog(`Backfill page token rejected, restarting window ${checkpoint.windowStart}`);
+              checkpoint.pageToken = undefined;
+              page = await apiClient.listRecordingsPage(userEmail, windowStart, windowEnd);
             }
 
-            // Extract attendees from recording
-            const attendees = extractParticipantsFromRecording(recording);
+            for (const recording of page.meetings ?? []) {
+              apiClient.throwIfCancelled();
+              await this.backfillRecording(apiClient, stateManager, source, checkpoint, recording, filtered);
+            }
 
-            // Create TranscriptWriter and generate filename
-            const writer = new TranscriptWriter(recording);
-            let fileName = writer.generateFileName();
+            checkpoint.pageToken = page.next_page_token || undefined;
+            await stateManager.writeState();
+          } while (checkpoint.pageToken);
 
-            // Check for file collision, append ID if needed
-            if (TranscriptWriter.fileExists(this.app.vault, this.settings.transcriptFolder, fileName)) {
-              fileName = writer.generateFileName(true);
-            }
+          if (windowEnd >= rangeEnd) {
+            break;
+          }
+          windowStart = windowEnd;
+          checkpoint.windowStart = windowStart.toISOString().split('T')[0];
+          await stateManager.writeState();
+        }
 
-            // Generate transcript content
-            const content = writer.generateTranscript(vttContent, attendees);
+        checkpoint.userIndex++;
+        checkpoint.windowStart = checkpoint.from;
+        await stateManager.writeState();
+      }
 
-            // Write to vault
-            await TranscriptWriter.writeToVault(
-              this.app.vault,
-              this.settings.transcriptFolder,
-              fileName,
-              content
-            );
+      stateManager.setBackfill(null);
+      await stateManager.writeState();
 
-            // Mark as synced in state
-            stateManager.markSynced(meetingId, fileName);
-            await stateManager.writeState();
+      const summary = `${checkpoint.syncedCount} imported, ${checkpoint.skippedCount} already synced, ` +
+        `${checkpoint.filteredCount ?? 0} filtered out, ${checkpoint.failedCount} failed, ` +
+        `${checkpoint.pendingCount ?? 0} still processing, ${checkpoint.noTranscriptCount ?? 0} without a transcript`;
+      this.devLog(`Zoom backfill complete: ${summary}`);
+      new Notice(`Zoom backfill complete: ${summary}`);
+      this.reportFilteredMeetings('Zoom backfill', filtered);
+    } catch (error) {
+      if (error instanceof SyncCancelledError) {
+        new Notice('Zoom backfill paused. Run the backfill command again to resume.');
+        return;
+      }
+      if (error instanceof BackfillStoppedError || (this.apiClient && this.handleApiError(error, this.apiClient))) {
+        return;
+      }
+      new Notice(`Zoom backfill stopped: ${error instanceof Error ? error.message : String(error)}. Run it again to resume.`);
+    } finally {
+      this.syncInProgress = false;
+      this.abortController = null;
+      this.setStatus(null);
+    }
+  }
 
-            this.devLog(`Synced (recording): ${fileName}`);
-            syncedCount++;
-          } catch (error) {
-            failedCount++;
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            this.devLog(`Failed: ${meetingId} - ${errorMessage}`);
-          }
+  /**
+   * Imports one recording during a backfill, counting the outcome in the checkpoint.
+   * Failures go to the retry queue and transcripts still processing to the pending list,
+   * so regular syncs pick them up; meetings left out by the sync filters are added to
+   * `filtered` for the final report.
+   */
+  private async backfillRecording(
+    apiClient: ZoomApiClient,
+    stateManager: SyncStateManager,
+    source: RecordingTranscriptSource,
+    checkpoint: BackfillCheckpoint,
+    recording: ZoomRecording,
+    filtered: FilteredMeeting[]
+  ): Promise<void> {
+    const meeting = source.addRecording(recording);
+    if (stateManager.isSynced(meeting)) {
+      checkpoint.skippedCount++;
+      return;
+    }
+    const lookup = await source.findTranscript(meeting);
+    if (lookup.status === 'pending') {
+      // Regular syncs check pending recordings again, however old the meeting is
+      const pendingTimeoutMs = this.settings.pendingTranscriptTimeoutHours * 60 * 60 * 1000;
+      if (stateManager.markPending(meeting, pendingTimeoutMs)) {
+        checkpoint.pendingCount = (checkpoint.pendingCount ?? 0) + 1;
+        this.devLog(`Backfill found transcript still processing: ${recording.id} (${recording.uuid})`);
+      } else {
+        checkpoint.noTranscriptCount = (checkpoint.noTranscriptCount ?? 0) + 1;
+        this.devLog(`Backfill found no finished transcript: ${recording.id} (${recording.uuid})`);
+      }
+      await stateManager.writeState();
+      return;
+    }
+    if (lookup.status === 'unavailable') {
+      checkpoint.noTranscriptCount = (checkpoint.noTranscriptCount ?? 0) + 1;
+      this.devLog(`Backfill found no transcript: ${recording.id} (${recording.uuid}) - ${lookup.reason}`);
+      return;
+    }
+
+    try {
+      // The host lookup for the filters can fail like the download, e.g. when rate limited
+      const filterReason = await this.checkSyncFilters(meeting, lookup.transcript);
+      if (filterReason) {
+        checkpoint.filteredCount = (checkpoint.filteredCount ?? 0) + 1;
+        filtered.push({ uuid: meeting.uuid, topic: meeting.topic, startTime: meeting.start_time, reason: filterReason });
+        this.devLog(`Backfill filtered out ${recording.id} (${recording.uuid}): ${filterReason}`);
+        return;
+      }
+
+      const vttContent = await lookup.transcript.download();
+      const fileName = await this.writeNewNote(stateManager, meeting, source.kind, lookup.transcript, vttContent);
+      checkpoint.syncedCount++;
+      this.devLog(`Backfilled: ${fileName}`);
+    } catch (error) {
+      if (error instanceof SyncCancelledError) {
+        throw error;
+      }
+      if (this.handleApiError(error, apiClient)) {
+        // Credentials, rate limit, or network trouble would fail every remaining recording too
+        throw new BackfillStoppedError();
+      }
+      checkpoint.failedCount++;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.devLog(`Backfill failed: ${recording.id} (${recording.uuid}) - ${errorMessage}`);
+      stateManager.recordFailure(meeting, source.kind, errorMessage, this.settings.maxRetryAttempts);
+      await stateManager.writeState();
+    }
+  }
+
+  /**
+   * Lists the meetings a sync or backfill left out, with the filter that matched each.
+   * Meetings already reported this session are left out.
+   *
+   * @param label - What ran, e.g. "Zoom sync"
+   * @param filtered - Meetings left out by the sync filters
+   */
+  private reportFilteredMeetings(label: string, filtered: FilteredMeeting[]): void {
+    const unreported = filtered.filter(item => !this.reportedFilteredUuids.has(item.uuid));
+    if (unreported.length === 0) {
+      return;
+    }
+    unreported.forEach(item => this.reportedFilteredUuids.add(item.uuid));
+
+    const lines = unreported.slice(0, MAX_REPORTED_FILTERED).map(item =>
+      `${item.startTime.split('T')[0]} ${item.topic || 'Untitled Meeting'}: ${item.reason}`
+    );
+    if (unreported.length > MAX_REPORTED_FILTERED) {
+      lines.push(`...and ${unreported.length - MAX_REPORTED_FILTERED} more`);
+    }
+    new Notice(`${label} filtered out ${unreported.length} meeting(s):\n${lines.join('\n')}`);
+  }
+
+  /**
+   * Builds the context transcript sources run with.
+   */
+  private createSourceContext(apiClient: ZoomApiClient, stateManager: SyncStateManager, dryRun: boolean): SourceContext {
+    return {
+      apiClient,
+      settings: this.settings,
+      stateManager,
+      dryRun,
+      log: (message) => this.devLog(message),
+    };
+  }
+
+  /**
+   * Looks up a meeting and its transcript on Zoom, trying every source in priority
+   * order whether or not it is enabled for regular syncs. With both sources kept, the
+   * first transcript found is used.
+   *
+   * @returns The meeting, or null if no source has a downloadable transcript
+   */
+  private async resolveMeeting(context: SourceContext, reference: MeetingReference): Promise<ResolvedMeeting | null> {
+    let located: SourceMeeting | null = null;
+
+    for (const registration of getSourcesByPriority(this.settings.sourcePriority)) {
+      const source = registration.create(context);
+      // Once a source has found the occurrence, later sources look for its transcript
+      // rather than resolving the reference again, which could pick a different occurrence
+      const meeting: SourceMeeting | null = located ?? await source.findMeeting(reference);
+      if (!meeting) {
+        continue;
+      }
+      located = meeting;
+
+      const lookup = await source.findTranscript(meeting);
+      if (lookup.status === 'ready') {
+        return { meeting, source, transcript: lookup.transcript };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Lists the meetings that were given up on after repeated failures, newest first.
+   */
+  async getAbandonedMeetings(): Promise<FailedMeeting[]> {
+    const stateManager = new SyncStateManager(this.app.vault, this.settings.transcriptFolder);
+    await stateManager.readState();
+    return stateManager.getAbandonedMeetings()
+      .map(([, entry]) => entry)
+      .sort((a, b) => b.startTime.localeCompare(a.startTime));
+  }
+
+  /**
+   * Requeues meetings that were given up on after repeated failures, then syncs.
+   */
+  async retryFailedMeetings() {
+    if (this.syncInProgress) {
+      new Notice('Zoom sync is already running. Try again when it finishes.');
+      return;
+    }
+
+    const stateManager = new SyncStateManager(this.app.vault, this.settings.transcriptFolder);
+    await stateManager.readState();
+    const requeued = stateManager.requeueAbandoned();
+    if (requeued === 0) {
+      new Notice('No failed Zoom meetings to retry');
+      return;
+    }
+    await stateManager.writeState();
+
+    new Notice(`Retrying ${requeued} failed Zoom meeting(s)...`);
+    await this.syncTranscripts();
+  }
+
+  /**
+   * Syncs transcripts from all enabled sources.
+   *
+   * @param options - Dry-run, full re-sync, and selection options
+   * @returns The plan: what was (or in a dry run, would be) done with each listed meeting
+   */
+  async syncTranscripts(options: SyncOptions = {}): Promise<SyncPlanItem[]> {
+    const plan: SyncPlanItem[] = [];
+
+    // Check lock and return early if already syncing
+    if (this.syncInProgress) {
+      return plan;
+    }
+
+    // Check if at least one transcript source is enabled
+    if (!TRANSCRIPT_SOURCES.some(registration => registration.enabled(this.settings))) {
+      this.devLog('No transcript sources enabled, skipping sync');
+      return plan;
+    }
+
+    this.syncInProgress = true;
+    this.devLog(options.dryRun ? 'Zoom sync dry run starting...' : 'Zoom sync starting...');
+
+    this.abortController = new AbortController();
+
+    try {
+      // Create ZoomApiClient with settings (store as instance variable)
+      this.apiClient = new ZoomApiClient(this.settings, {
+        signal: this.abortController.signal,
+        onProgress: (progress) => this.reportProgress(progress),
+      });
+      const apiClient = this.apiClient;
+
+      // Create SyncStateManager
+      const stateManager = new SyncStateManager(
+        this.app.vault,
+        this.settings.transcriptFolder
+      );
+
+      // Load current sync state
+      await stateManager.readState();
+      if (stateManager.quarantinedPath) {
+        new Notice(
+          `Zoom sync state was unreadable and has been backed up to ${stateManager.quarantinedPath}. ` +
+          `It was rebuilt from ${stateManager.rebuiltNoteCount} existing note(s).`
+        );
+      }
+
+      let syncedCount = 0;
+      let updatedCount = 0;
+      let skippedCount = 0;
+      let failedCount = 0;
+      let abandonedCount = 0;
+      let sourceChangedCount = 0;
+      const filtered: FilteredMeeting[] = [];
+
+      // Queue a failed meeting for retry on later runs. Failures while re-checking an
+      // already-synced meeting aren't queued; the update window lists it again anyway.
+      const recordFailure = async (
+        meeting: SourceMeeting,
+        source: TranscriptSourceKind,
+        error: unknown
+      ) => {
+        failedCount++;
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.devLog(`Failed: ${meeting.id} (${meeting.uuid}) - ${errorMessage}`);
+        if (options.dryRun || stateManager.isSynced(meeting)) {
+          return;
+        }
+        const wasAbandoned = stateManager.getFailedMeeting(meeting.uuid)?.gaveUp ?? false;
+        const entry = stateManager.recordFailure(meeting, source, errorMessage, this.settings.maxRetryAttempts);
+        if (entry.gaveUp && !wasAbandoned) {
+          abandonedCount++;
+        }
+        await stateManager.writeState();
+      };
+
+      // Failed meetings are left alone until their retry is due, unless picked explicitly
+      const isAwaitingRetry = (uuid: string) => !options.onlyUuids && stateManager.isAwaitingRetry(uuid);
+      const awaitingRetryReason = (uuid: string) => {
+        const failure = stateManager.getFailedMeeting(uuid);
+        return failure?.gaveUp
+          ? `Gave up after ${failure.attempts} failed attempts`
+          : 'Failed earlier, waiting to retry';
+      };
+
+      // Track processed meeting UUIDs to avoid duplicates across sources
+      const processedUuids = new Set<string>();
+
+      // The plan has one row per meeting. A source that goes on to handle a meeting takes
+      // over the row of an earlier source that had no transcript for it.
+      const planRows = new Map<string, SyncPlanItem>();
+      const addToPlan = (item: SyncPlanItem, hasTranscript = true) => {
+        const earlier = planRows.get(item.uuid);
+        if (!earlier) {
+          plan.push(item);
+        } else if (hasTranscript && earlier.action === 'filter') {
+          plan.splice(plan.indexOf(earlier), 1, item);
+        } else {
+          return;
+        }
+        planRows.set(item.uuid, item);
+      };
+
+      // File names claimed earlier in this run, so dry-run collisions match a real run
+      const plannedNames = new Set<string>();
+      const isNameTaken = (fileName: string) =>
+        plannedNames.has(fileName) ||
+        TranscriptWriter.fileExists(this.app.vault, this.settings.transcriptFolder, fileName);
+      const isSelected = (uuid: string) => !options.onlyUuids || options.onlyUuids.has(uuid);
+
+      // Determine start date for queries, overlapping the last sync to catch late transcripts
+      let fromDate = this.settings.lastSyncTimestamp && !options.fullResync
+        ? new Date(this.settings.lastSyncTimestamp - this.settings.lookbackOverlapHours * 60 * 60 * 1000)
+        : undefined;
+
+      // Re-list recent meetings so transcripts edited after their first sync are detected
+      if (fromDate && this.settings.transcriptUpdateWindowDays > 0) {
+        const windowStart = new Date(Date.now() - this.settings.transcriptUpdateWindowDays * 24 * 60 * 60 * 1000);
+        if (windowStart < fromDate) {
+          fromDate = windowStart;
         }
       }
 
-      // ============================================
-      // Source 2: AI Companion Transcripts
-      // ============================================
-      if (this.settings.fetchAICompanionTranscripts) {
-        this.devLog('Fetching AI Companion transcripts...');
+      const sources = createEnabledSources(this.createSourceContext(apiClient, stateManager, !!options.dryRun));
+      const pendingTimeoutMs = this.settings.pendingTranscriptTimeoutHours * 60 * 60 * 1000;
+      const keepBothSources = this.settings.sourcePriority === 'both';
+      let listingFailed = false;
+
+      // Sources run in priority order; a meeting handled by one is skipped by the rest
+      for (const source of sources) {
+        this.devLog(`Fetching ${source.label} transcripts...`);
 
-        let pastMeetings: ZoomPastMeeting[] = [];
+        let meetings: SourceMeeting[];
         try {
-          pastMeetings = await apiClient.listPastMeetings(fromDate);
+          meetings = await source.listMeetings(fromDate);
         } catch (error) {
+          if (error instanceof SyncCancelledError) {
+            throw error;
+          }
           if (this.handleApiError(error, apiClient)) {
-            return;
+            return plan;
           }
-          // Log but don't fail entire sync if reports API fails
-          this.devLog(`Failed to list past meetings: ${error instanceof Error ? error.message : String(error)}`);
+          // Carry on with the other sources, but list this window again next time
+          this.devLog(`Failed to list ${source.label}: ${error instanceof Error ? error.message : String(error)}`);
+          listingFailed = true;
+          continue;
         }
+        this.devLog(`Fetched ${meetings.length} meetings from ${source.label}`);
 
-        this.devLog(`Fetched ${pastMeetings.length} past meetings to check for AI transcripts`);
+        // Retry failed meetings that have dropped out of the incremental listing
+        for (const [uuid, failure] of stateManager.getDueRetries(source.kind)) {
+          if (meetings.some(m => m.uuid === uuid) || !isSelected(uuid)) {
+            continue;
+          }
+          try {
+            const meeting = await source.getMeeting(uuid, failure);
+            if (meeting) {
+              meetings.push(meeting);
+            } else if (!options.dryRun) {
+              this.devLog(`Dropping retry for ${failure.meetingId} (${uuid}): meeting no longer available`);
+              stateManager.clearFailure(uuid);
+              await stateManager.writeState();
+            }
+          } catch (error) {
+            if (error instanceof SyncCancelledError) {
+              throw error;
+            }
+            await recordFailure(
+              { uuid, id: failure.meetingId, topic: failure.topic, start_time: failure.startTime, duration: failure.duration },
+              source.kind,
+              error
+            );
+          }
+        }
 
-        for (const meeting of pastMeetings) {
+        for (const [index, meeting] of meetings.entries()) {
           const meetingId = String(meeting.id);
           const meetingUuid = meeting.uuid;
 
-          // Skip if already processed from recordings
-          if (processedUuids.has(meetingUuid)) {
+          // Stop between meetings if cancelled
+          apiClient.throwIfCancelled();
+          this.reportProgress({ phase: 'downloading', source: source.kind, current: index + 1, total: meetings.length });
+
+          // Skip if a higher-priority source already handled it. When both sources are
+          // kept, a real run goes on to add this source's transcript to the new note.
+          const handledEarlier = processedUuids.has(meetingUuid) && (!keepBothSources || options.dryRun);
+          if (handledEarlier || !isSelected(meetingUuid)) {
+            continue;
+          }
+
+          const planItem: SyncPlanItem = {
+            uuid: meetingUuid,
+            id: meeting.id,
+            topic: meeting.topic,
+            startTime: meeting.start_time,
+            source: source.kind,
+            action: 'filter',
+          };
+
+          if (isAwaitingRetry(meetingUuid)) {
+            addToPlan(planItem);
+            planItem.reason = awaitingRetryReason(meetingUuid);
+            processedUuids.add(meetingUuid);
             continue;
           }
 
-          // Check if already synced
-          if (stateManager.isSynced(meetingId)) {
+          const alreadySynced = stateManager.isSynced(meeting);
+          const syncedEntry = stateManager.getSyncedMeeting(meetingUuid);
+          const noteAction = syncedEntry
+            ? getNoteSourceAction(syncedEntry.sources ?? [], source.kind, this.settings.sourcePriority)
+            : 'update';
+          const skipSynced = () => {
+            planItem.action = 'skip';
+            planItem.fileName = stateManager.getSyncedMeeting(meetingUuid)?.fileName;
+            processedUuids.add(meetingUuid);
+          };
+
+          if (alreadySynced && (options.dryRun || !syncedEntry || noteAction === 'skip')) {
+            // Legacy entries have no baseline to check for changes; dry runs don't check at all.
+            // Notes that already have this source's transcript or a preferred one are left alone.
+            addToPlan(planItem);
+            skipSynced();
             skippedCount++;
-            this.devLog(`Skipped (already exists): ${meetingId}`);
+            this.devLog(`Skipped (already exists): ${meetingId} (${meetingUuid})`);
+            continue;
+          }
+
+          // Meetings left out by the sync filters are dropped before their transcript is looked up
+          const listingFilterReason = alreadySynced ? null : getFilterReason(this.settings, meeting);
+          if (listingFilterReason) {
+            addToPlan(planItem);
+            planItem.reason = listingFilterReason;
+            processedUuids.add(meetingUuid);
+            filtered.push({ ...planItem, reason: listingFilterReason });
             continue;
           }
 
           try {
-            // Try to get transcript for this meeting
-            this.devLog(`Checking transcript for meeting ${meetingId}, UUID: ${meetingUuid}`);
-            let transcripts;
-            try {
-              transcripts = await apiClient.getMeetingTranscript(meetingUuid);
-            } catch (error) {
-              // Don't treat auth errors on transcript endpoint as fatal - might just be missing scope
-              // Log and skip this meeting
-              const errorMessage = error instanceof Error ? error.message : String(error);
-              this.devLog(`Transcript fetch error for ${meetingUuid}: ${errorMessage}`);
-              if (errorMessage.includes('401') || errorMessage.includes('403') || errorMessage.includes('404')) {
+            const lookup = await source.findTranscript(meeting);
+
+            if (lookup.status === 'pending') {
+              if (alreadySynced) {
                 continue;
               }
-              throw error;
+              // Not marked as processed, so a later source can still supply a transcript meanwhile
+              addToPlan(planItem, false);
+              planItem.reason = 'Transcript still processing';
+              if (!options.dryRun) {
+                if (!stateManager.markPending(meeting, pendingTimeoutMs)) {
+                  planItem.reason = 'No finished transcript';
+                }
+                await stateManager.writeState();
+              }
+              continue;
             }
 
-            if (!transcripts || transcripts.length === 0) {
-              // No transcript available for this meeting
+            addToPlan(planItem, lookup.status === 'ready');
+            if (lookup.status === 'unavailable') {
+              planItem.reason = lookup.reason;
               continue;
             }
 
-            // Get the first transcript that can be downloaded
-            const transcript = transcripts.find(t => t.can_download && t.download_url);
-            if (!transcript) {
-              this.devLog(`No downloadable transcript found for ${meetingId}`);
+            const { transcript } = lookup;
+            processedUuids.add(meetingUuid);
+
+            // Check if this occurrence is already synced, re-syncing it if the transcript changed
+            if (alreadySynced) {
+              skipSynced();
+              if (noteAction === 'replace' || noteAction === 'append') {
+                if (await this.applySourceChange(stateManager, meeting, source.kind, transcript, noteAction)) {
+                  sourceChangedCount++;
+                }
+                continue;
+              }
+              const updated = await this.applyTranscriptUpdate(stateManager, meeting, source.kind, transcript);
+              if (updated) {
+                updatedCount++;
+              } else {
+                skippedCount++;
+                this.devLog(`Skipped (already exists): ${meetingId} (${meetingUuid})`);
+              }
               continue;
             }
 
-            this.devLog(`Downloading transcript from: ${transcript.download_url}`);
+            // Filters on the host and attendees are checked once there is a transcript, before downloading it
+            const filterReason = await this.checkSyncFilters(meeting, transcript);
+            if (filterReason) {
+              planItem.reason = filterReason;
+              filtered.push({ ...planItem, reason: filterReason });
+              continue;
+            }
+
+            const note = await this.planNewNote(meeting, transcript, isNameTaken);
+            planItem.action = note.renamed ? 'rename' : 'create';
+            planItem.fileName = note.fileName;
+            plannedNames.add(note.fileName);
+
+            if (options.dryRun) {
+              continue;
+            }
 
             // Download the transcript content
             let transcriptContent;
             try {
-              transcriptContent = await apiClient.downloadTranscriptDirect(transcript.download_url);
-              this.devLog(`Downloaded transcript content length: ${transcriptContent?.length || 0}`);
+              transcriptContent = await transcript.download();
             } catch (error) {
-              // Don't treat download auth errors as fatal for AI Companion
-              const errorMessage = error instanceof Error ? error.message : String(error);
-              if (errorMessage.includes('401') || errorMessage.includes('403')) {
-                this.devLog(`Skipping ${meetingId}: download returned ${errorMessage}`);
+              if (error instanceof TranscriptUnavailableError) {
+                planItem.action = 'filter';
+                planItem.reason = error.message;
                 continue;
               }
               if (this.handleApiError(error, apiClient)) {
-                return;
+                return plan;
               }
               throw error;
             }
 
-            // Create a pseudo-recording object for TranscriptWriter
-            const pseudoRecording = {
-              uuid: meetingUuid,
-              id: meeting.id,
-              account_id: transcript.account_id,
-              host_id: transcript.host_id,
-              topic: meeting.topic || transcript.meeting_topic,
-              type: meeting.type,
-              start_time: meeting.start_time,
-              duration: meeting.duration,
-              total_size: 0,
-              recording_count: 0,
-              recording_files: []
-            };
-
-            // Create TranscriptWriter and generate filename
-            const writer = new TranscriptWriter(pseudoRecording);
-            let fileName = writer.generateFileName();
-
-            // Check for file collision, append ID if needed
-            if (TranscriptWriter.fileExists(this.app.vault, this.settings.transcriptFolder, fileName)) {
-              fileName = writer.generateFileName(true);
-            }
-
-            // Generate transcript content (AI Companion transcripts may be VTT or plain text)
-            const content = writer.generateTranscript(transcriptContent, []);
-
-            // Write to vault
-            await TranscriptWriter.writeToVault(
-              this.app.vault,
-              this.settings.transcriptFolder,
-              fileName,
-              content
-            );
-
-            // Mark as synced in state
-            stateManager.markSynced(meetingId, fileName);
-            await stateManager.writeState();
+            await this.writeNewNote(stateManager, meeting, source.kind, transcript, transcriptContent, note);
 
-            this.devLog(`Synced (AI Companion): ${fileName}`);
+            this.devLog(`Synced (${source.label}): ${note.fileName}`);
             syncedCount++;
           } catch (error) {
-            // Individual transcript failed - log and continue to next
-            // Don't increment failedCount for 404s (no transcript available)
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            if (!errorMessage.includes('404')) {
-              failedCount++;
-              this.devLog(`Failed: ${meetingId} - ${errorMessage}`);
+            if (error instanceof SyncCancelledError) {
+              throw error;
             }
+            // Individual transcript failed - queue it for retry and continue to next
+            await recordFailure(meeting, source.kind, error);
           }
         }
       }
 
-      // Update lastSyncTimestamp in settings
-      this.settings.lastSyncTimestamp = Date.now();
-      await this.saveSettings();
+      if (options.dryRun) {
+        this.devLog(`Zoom sync dry run complete: ${plan.length} meeting(s) planned`);
+        return plan;
+      }
 
-      this.devLog(`Zoom sync complete: ${syncedCount} synced, ${skippedCount} skipped, ${failedCount} failed`);
+      // Queued meetings that turned out to have nothing to download leave the retry queue
+      const resolvedRetries = plan.filter(item =>
+        item.action === 'filter' &&
+        stateManager.getFailedMeeting(item.uuid) &&
+        !stateManager.isAwaitingRetry(item.uuid)
+      );
+      if (resolvedRetries.length > 0) {
+        resolvedRetries.forEach(item => stateManager.clearFailure(item.uuid));
+        await stateManager.writeState();
+      }
+
+      // Update lastSyncTimestamp in settings, unless only a selection was imported
+      // or a source couldn't be listed
+      if (!options.onlyUuids && !listingFailed) {
+        this.settings.lastSyncTimestamp = Date.now();
+        await this.saveSettings();
+      }
+
+      this.devLog(
+        `Zoom sync complete: ${syncedCount} synced, ${updatedCount} updated, ${skippedCount} skipped, ` +
+        `${filtered.length} filtered out, ${failedCount} failed`
+      );
 
       // Show appropriate notice based on results
       if (syncedCount > 0 && failedCount > 0) {
@@ -360,10 +1348,42 @@ export default class ZoomTranscriptSync extends Plugin {
       } else if (syncedCount === 0 && failedCount > 0) {
         new Notice(`Sync failed for ${failedCount} transcript(s)`);
       }
-      // No notice if syncedCount === 0 && failedCount === 0
+      this.reportFilteredMeetings('Zoom sync', filtered);
+      if (updatedCount > 0) {
+        new Notice(this.settings.transcriptUpdateMode === 'flag'
+          ? `${updatedCount} transcript(s) changed on Zoom and were flagged`
+          : `Updated ${updatedCount} transcript(s) that changed on Zoom`);
+      }
+      if (sourceChangedCount > 0) {
+        new Notice(this.settings.sourcePriority === 'both'
+          ? `Added a second transcript to ${sourceChangedCount} Zoom note(s)`
+          : `Replaced ${sourceChangedCount} transcript(s) with the preferred source`);
+      }
+      if (abandonedCount > 0) {
+        new Notice(
+          `Zoom sync gave up on ${abandonedCount} meeting(s) after ${this.settings.maxRetryAttempts} failed attempts. ` +
+          'They are listed under "Retry Failed Meetings" in settings, where you can try again.'
+        );
+      }
+      // No notice if nothing was synced, updated, or failed
+
+      return plan;
+    } catch (error) {
+      if (error instanceof SyncCancelledError) {
+        this.devLog('Zoom sync cancelled');
+        new Notice('Zoom sync cancelled');
+        // A partial plan would be misleading in the preview, so let the caller stop
+        if (options.dryRun) {
+          throw error;
+        }
+        return plan;
+      }
+      throw error;
     } finally {
       // Always release lock
       this.syncInProgress = false;
+      this.abortController = null;
+      this.setStatus(null);
     }
   }
 }
@@ -0,0 +1,69 @@
+/**
+ * Parsing and formatting for the in-meeting chat saved with cloud recordings
+ * (the CHAT recording file).
+ *
+ * Zoom writes each message under a header with the time since the recording started:
+ * ```
+ * 00:01:23	 From  Jane Doe  to  Everyone:
+ * 	Slides are at https://example.com
+ * ```
+ * Older files put the message on the header line: `00:01:23	 From  Jane Doe : Hello`
+ */
+
+import { formatTimestampMs, parseTimestampMs } from './transcript-stitch';
+
+/**
+ * One chat message.
+ */
+export interface ChatMessage {
+  timestamp: string;  // Format: "HH:MM:SS" from the start of the meeting
+  sender: string;
+  text: string;       // May span several lines
+}
+
+const HEADER_PATTERN = /^(\d{1,2}:\d{2}:\d{2})\s+From\s+([^:]+?)\s+to\s+.+?:$/;
+const INLINE_PATTERN = /^(\d{1,2}:\d{2}:\d{2})\s+From\s+(.+?)\s*:\s(.*)$/;
+
+/**
+ * Parses a Zoom chat file into messages.
+ * Lines that are not message headers are added to the message above them.
+ *
+ * @param content - Raw chat file content
+ * @param offsetMs - Milliseconds to add to each message time, for chat saved with a later recording segment
+ * @returns Messages in file order
+ */
+export function parseChat(content: string, offsetMs = 0): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  let current: ChatMessage | null = null;
+
+  for (const rawLine of content.replace(/\r\n/g, '\n').split('\n')) {
+    const line = rawLine.trim();
+    const match = line.match(HEADER_PATTERN) ?? line.match(INLINE_PATTERN);
+
+    if (match) {
+      current = {
+        timestamp: formatTimestampMs(Math.max(parseTimestampMs(match[1]) + offsetMs, 0), false),
+        sender: match[2].trim(),
+        text: (match[3] ?? '').trim(),
+      };
+      messages.push(current);
+    } else if (current && line) {
+      current.text = current.text ? `${current.text}\n${line}` : line;
+    }
+  }
+
+  return messages.filter(message => message.text);
+}
+
+/**
+ * Formats chat messages as Markdown, in the same layout as transcript entries.
+ *
+ * @example
+ * // **00:01:23 - Jane Doe:**
+ * // Slides are at https://example.com
+ */
+export function formatChatMessages(messages: ChatMessage[]): string {
+  return messages
+    .map(message => `**${message.timestamp} - ${message.sender}:**\n${message.text}`)
+    .join('\n\n');
+}
@@ -0,0 +1,126 @@
+import { Attendee, MeetingHost, SourceMeeting, ZoomSyncSettings } from './types';
+
+/**
+ * Details a filter may need beyond the meeting listing. A field left undefined was not
+ * looked up, and the filters that need it are not checked.
+ */
+export interface MeetingFilterDetails {
+  host?: MeetingHost | null;       // null if the host can't be resolved
+  attendees?: Attendee[];          // Empty if nobody is known to have attended
+}
+
+type FilterSettings = Pick<ZoomSyncSettings,
+  | 'filterTopicInclude'
+  | 'filterTopicExclude'
+  | 'filterHostAllow'
+  | 'filterHostDeny'
+  | 'filterMinDurationMinutes'
+  | 'filterMeetingTypes'
+  | 'filterMinParticipants'
+  | 'filterAttendeeEmail'
+>;
+
+/**
+ * Checks whether a topic filter is a valid regular expression. Empty means no filter.
+ */
+export function isValidTopicFilter(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function splitList(list: string): string[] {
+  return list.split(',').map(entry => entry.trim().toLowerCase()).filter(entry => entry.length > 0);
+}
+
+function topicMatches(pattern: string, topic: string): boolean | null {
+  if (!pattern.trim() || !isValidTopicFilter(pattern.trim())) {
+    return null;
+  }
+  return new RegExp(pattern.trim(), 'i').test(topic || '');
+}
+
+/**
+ * Checks whether the host filters are set, so the host has to be resolved.
+ */
+export function usesHostFilter(settings: FilterSettings): boolean {
+  return splitList(settings.filterHostAllow).length > 0 || splitList(settings.filterHostDeny).length > 0;
+}
+
+/**
+ * Checks whether a filter needs the meeting's attendees: the attendee filter, or a
+ * minimum participant count the listing didn't report.
+ */
+export function usesAttendanceFilter(settings: FilterSettings, meeting: SourceMeeting): boolean {
+  return settings.filterAttendeeEmail.trim().length > 0
+    || (settings.filterMinParticipants > 0 && meeting.participantCount === undefined);
+}
+
+/**
+ * Checks a meeting against the sync filters.
+ * Filters on details that weren't looked up are skipped, so this can be called with the
+ * listing alone first and again with the details once they're needed. A participant
+ * count that isn't known passes. A host allow list needs a known host to pass, and the
+ * attendee filter an attendee email: without one (no participant report, e.g. without
+ * the report:read:admin scope) the meeting is left out as "Attendance unknown".
+ *
+ * @param settings - Plugin settings holding the filters
+ * @param meeting - The meeting
+ * @param details - Host and attendees, if looked up
+ * @returns Why the meeting is filtered out, or null if it passes every filter
+ */
+export function getFilterReason(
+  settings: FilterSettings,
+  meeting: SourceMeeting,
+  details: MeetingFilterDetails = {}
+): string | null {
+  if (topicMatches(settings.filterTopicInclude, meeting.topic) === false) {
+    return 'Topic does not match the include filter';
+  }
+  if (topicMatches(settings.filterTopicExclude, meeting.topic) === true) {
+    return 'Topic matches the exclude filter';
+  }
+
+  if (settings.filterMinDurationMinutes > 0 && meeting.duration < settings.filterMinDurationMinutes) {
+    return `Shorter than ${settings.filterMinDurationMinutes} minutes`;
+  }
+
+  const types = splitList(settings.filterMeetingTypes);
+  if (types.length > 0 && meeting.type !== undefined && !types.includes(String(meeting.type))) {
+    return `Meeting type ${meeting.type} is not included`;
+  }
+
+  if (details.host !== undefined) {
+    const names = [details.host?.name, details.host?.email]
+      .filter((value): value is string => !!value)
+      .map(value => value.toLowerCase());
+    const allow = splitList(settings.filterHostAllow);
+    if (allow.length > 0 && !names.some(name => allow.includes(name))) {
+      return details.host ? 'Host is not in the allow list' : 'Host unknown, so not in the allow list';
+    }
+    if (names.some(name => splitList(settings.filterHostDeny).includes(name))) {
+      return 'Host is in the deny list';
+    }
+  }
+
+  const attendees = details.attendees;
+  const participantCount = meeting.participantCount ?? (attendees && attendees.length > 0 ? attendees.length : undefined);
+  if (settings.filterMinParticipants > 0 && participantCount !== undefined && participantCount < settings.filterMinParticipants) {
+    return `Fewer than ${settings.filterMinParticipants} participants`;
+  }
+
+  const email = settings.filterAttendeeEmail.trim().toLowerCase();
+  if (email && attendees !== undefined) {
+    if (!attendees.some(attendee => !!attendee.email)) {
+      return 'Attendance unknown';
+    }
+    if (!attendees.some(attendee => attendee.email?.toLowerCase() === email)) {
+      return `Not attended by ${settings.filterAttendeeEmail.trim()}`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,90 @@
+/**
+ * A meeting the user pointed at directly, parsed from a meeting ID, UUID, or Zoom link.
+ */
+export type MeetingReference =
+  | { kind: 'id'; meetingId: string }   // Numeric meeting ID; resolves to its most recent occurrence
+  | { kind: 'uuid'; uuid: string }      // A specific occurrence
+  | { kind: 'share'; url: string };     // Recording share/play link, matched against listed recordings
+
+// Base64 of 16 bytes, as Zoom formats occurrence UUIDs (some tools use URL-safe characters)
+const UUID_PATTERN = /^[A-Za-z0-9+/_-]{22}(==)?$/;
+
+// Meeting IDs are 9 to 11 digits, often written with spaces or dashes
+const MEETING_ID_PATTERN = /^\d[\d\s-]{7,}\d$/;
+
+function parseMeetingId(value: string): string | null {
+  if (!MEETING_ID_PATTERN.test(value)) {
+    return null;
+  }
+  const digits = value.replace(/[\s-]/g, '');
+  return digits.length >= 9 && digits.length <= 11 ? digits : null;
+}
+
+/**
+ * Strips the query string, fragment, and trailing slash from a recording link so
+ * links copied from different places compare equal.
+ */
+export function normalizeRecordingUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.host.toLowerCase()}${parsed.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return url.trim();
+  }
+}
+
+/**
+ * Parses user input into a meeting reference.
+ *
+ * Accepts:
+ * - Meeting IDs, with or without spaces/dashes: `123 4567 8901`
+ * - Occurrence UUIDs: `4444AAAiAAAAAiAiAiiAii==`
+ * - Join links: `https://zoom.us/j/12345678901?pwd=...`
+ * - Web portal links with a `meeting_id` query parameter
+ * - Recording links: `https://us02web.zoom.us/rec/share/...` or `.../rec/play/...`
+ *
+ * @param input - Text entered by the user
+ * @returns The parsed reference, or null if the input is not recognized
+ */
+export function parseMeetingReference(input: string): MeetingReference | null {
+  const value = input.trim();
+  if (!value) {
+    return null;
+  }
+
+  if (/^https?:\/\//i.test(value)) {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      return null;
+    }
+    if (!/(^|\.)zoom\.us$/i.test(url.hostname)) {
+      return null;
+    }
+
+    if (/^\/rec\/(share|play)\//.test(url.pathname)) {
+      return { kind: 'share', url: value };
+    }
+
+    const joinMatch = url.pathname.match(/^\/(?:j|s|w|wc\/join|wc)\/(\d+)/);
+    if (joinMatch) {
+      const meetingId = parseMeetingId(joinMatch[1]);
+      return meetingId ? { kind: 'id', meetingId } : null;
+    }
+
+    const queryValue = url.searchParams.get('meeting_id') ?? url.searchParams.get('meetingId');
+    return queryValue ? parseMeetingReference(queryValue) : null;
+  }
+
+  const meetingId = parseMeetingId(value);
+  if (meetingId) {
+    return { kind: 'id', meetingId };
+  }
+
+  if (UUID_PATTERN.test(value)) {
+    return { kind: 'uuid', uuid: value };
+  }
+
+  return null;
+}
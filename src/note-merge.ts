@@ -0,0 +1,180 @@
+/**
+ * Managed-region support for transcript notes.
+ *
+ * Generated sections are wrapped in HTML comment markers so a note can be
+ * regenerated without losing anything the user added around them:
+ * ```
+ * <!-- zoom-sync:start transcript -->
+ * ## Transcript
+ * ...
+ * <!-- zoom-sync:end transcript -->
+ * ```
+ */
+
+const REGION_PATTERN = /<!-- zoom-sync:start ([\w-]+) -->\n[\s\S]*?\n<!-- zoom-sync:end \1 -->/g;
+
+const FRONTMATTER_PATTERN = /^---\n([\s\S]*?)\n---(?:\n|$)/;
+
+/**
+ * A top-level frontmatter key together with its continuation lines (list items, etc.).
+ * `key` is null for lines before the first key (comments, blank lines).
+ */
+interface FrontmatterBlock {
+  key: string | null;
+  lines: string[];
+}
+
+/**
+ * Wraps generated content in managed-region markers.
+ *
+ * @param name - Region name, unique within a note (letters, digits, _ and -)
+ * @param content - Generated Markdown for the region
+ * @returns The content surrounded by start/end markers
+ */
+export function wrapManagedRegion(name: string, content: string): string {
+  return `<!-- zoom-sync:start ${name} -->\n${content}\n<!-- zoom-sync:end ${name} -->`;
+}
+
+/**
+ * Finds every managed region in a note.
+ *
+ * @param content - Note content
+ * @returns Map of region name to the full region text, markers included
+ */
+export function extractManagedRegions(content: string): Map<string, string> {
+  const regions = new Map<string, string>();
+  const pattern = new RegExp(REGION_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) {
+    if (!regions.has(match[1])) {
+      regions.set(match[1], match[0]);
+    }
+  }
+  return regions;
+}
+
+/**
+ * Adds a managed region to the end of a note, or replaces it if the note already has it.
+ *
+ * @param content - Note content
+ * @param name - Region name
+ * @param regionContent - Generated Markdown for the region
+ * @returns The updated note
+ */
+export function appendManagedRegion(content: string, name: string, regionContent: string): string {
+  const region = wrapManagedRegion(name, regionContent);
+  const existing = extractManagedRegions(content).get(name);
+  if (existing !== undefined) {
+    return content.replace(existing, () => region);
+  }
+  return `${content.replace(/\s+$/, '')}\n\n${region}\n`;
+}
+
+function splitFrontmatter(content: string): { frontmatter: string | null; body: string } {
+  const normalized = content.replace(/\r\n/g, '\n');
+  const match = normalized.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return { frontmatter: null, body: normalized };
+  }
+  return { frontmatter: match[1], body: normalized.slice(match[0].length) };
+}
+
+function parseFrontmatterBlocks(frontmatter: string): FrontmatterBlock[] {
+  const blocks: FrontmatterBlock[] = [];
+  for (const line of frontmatter.split('\n')) {
+    const keyMatch = line.match(/^([^\s#:-][^:]*):(?:\s|$)/);
+    if (keyMatch) {
+      blocks.push({ key: keyMatch[1].trim(), lines: [line] });
+    } else if (blocks.length > 0) {
+      blocks[blocks.length - 1].lines.push(line);
+    } else {
+      blocks.push({ key: null, lines: [line] });
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Lists the top-level frontmatter keys of a note or note template.
+ *
+ * @param content - Note content
+ * @returns Keys in the order they appear, or an empty array if there is no frontmatter
+ */
+export function getFrontmatterKeys(content: string): string[] {
+  const { frontmatter } = splitFrontmatter(content);
+  if (frontmatter === null) {
+    return [];
+  }
+  const keys: string[] = [];
+  for (const block of parseFrontmatterBlocks(frontmatter)) {
+    if (block.key !== null && !keys.includes(block.key)) {
+      keys.push(block.key);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Merges plugin-owned frontmatter keys into existing frontmatter.
+ * Keys present in the generated frontmatter replace the existing value in place;
+ * keys listed in removeKeys are dropped; every other key is kept as the user left it.
+ */
+function mergeFrontmatter(existing: string, generated: string, removeKeys: string[]): string {
+  const generatedBlocks = parseFrontmatterBlocks(generated).filter(block => block.key !== null);
+  const generatedByKey = new Map(generatedBlocks.map(block => [block.key as string, block]));
+  const written = new Set<string>();
+  const lines: string[] = [];
+
+  for (const block of parseFrontmatterBlocks(existing)) {
+    if (block.key !== null && generatedByKey.has(block.key)) {
+      if (!written.has(block.key)) {
+        lines.push(...(generatedByKey.get(block.key) as FrontmatterBlock).lines);
+        written.add(block.key);
+      }
+    } else if (block.key === null || !removeKeys.includes(block.key)) {
+      lines.push(...block.lines);
+    }
+  }
+
+  for (const block of generatedBlocks) {
+    if (!written.has(block.key as string)) {
+      lines.push(...block.lines);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Merges a freshly generated note into an existing one.
+ *
+ * Only managed regions and plugin-owned frontmatter keys are replaced. User-added
+ * frontmatter properties and any text outside the regions are preserved. Regions the
+ * user deleted from the note stay deleted.
+ *
+ * @param existing - Current note content in the vault
+ * @param generated - Newly generated note content
+ * @param removeKeys - Plugin-owned frontmatter keys to drop if the generated note omits them
+ * @returns The merged note, or null if the existing note has no managed regions
+ *          (e.g. it predates region markers) and cannot be merged safely
+ */
+export function mergeManagedNote(existing: string, generated: string, removeKeys: string[] = []): string | null {
+  const current = splitFrontmatter(existing);
+  const next = splitFrontmatter(generated);
+
+  if (extractManagedRegions(current.body).size === 0) {
+    return null;
+  }
+
+  const nextRegions = extractManagedRegions(next.body);
+  const body = current.body.replace(REGION_PATTERN, (region: string, name: string) => nextRegions.get(name) ?? region);
+
+  let frontmatter = current.frontmatter;
+  if (next.frontmatter !== null) {
+    frontmatter = frontmatter === null
+      ? next.frontmatter
+      : mergeFrontmatter(frontmatter, next.frontmatter, removeKeys);
+  }
+
+  return frontmatter === null ? body : `---\n${frontmatter}\n---\n${body}`;
+}
@@ -0,0 +1,267 @@
+/**
+ * A small template language for transcript notes.
+ *
+ * Templates are Markdown with placeholders and blocks:
+ * ```
+ * # {{topic}}
+ * {{#if host}}**Host:** {{host}}{{/if}}
+ * {{#each attendees}}
+ * - {{name}}
+ * {{/each}}
+ * {{#region transcript}}
+ * {{transcript}}
+ * {{/region}}
+ * ```
+ * - `{{name}}` inserts a value; `{{name | yaml}}` escapes it for a double-quoted YAML
+ *   string and `{{name | table}}` for a Markdown table cell
+ * - `{{#each list}}...{{/each}}` repeats for every item, with the item's fields in scope
+ * - `{{#if name}}...{{else}}...{{/if}}` renders when the value is non-empty
+ * - `{{#region name}}...{{/region}}` wraps its lines in managed-region markers so the
+ *   plugin can regenerate them later without touching the rest of the note
+ *
+ * A block tag alone on its line is removed together with the line. Placeholders that
+ * name no known field are left as they are, so tokens meant for other template
+ * plugins survive.
+ */
+
+import { wrapManagedRegion } from './note-merge';
+
+/**
+ * A value that can be used in a template.
+ */
+export type TemplateValue = string | number | boolean | undefined | TemplateData[];
+
+/**
+ * Fields available to a template, or to the body of an each block.
+ */
+export interface TemplateData {
+  [field: string]: TemplateValue;
+}
+
+/**
+ * Thrown when a template cannot be parsed.
+ */
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+type BlockKind = 'each' | 'if' | 'region';
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; source: string; name: string; filters: TemplateFilter[] }
+  | { type: BlockKind; name: string; children: TemplateNode[]; otherwise: TemplateNode[] };
+
+type TemplateFilter = 'yaml' | 'table';
+
+const YAML_ESCAPES: Record<string, string> = {
+  '\\': '\\\\', '"': '\\"', '\n': '\\n', '\r': '\\r', '\t': '\\t',
+};
+
+/**
+ * Escapes a value for a double-quoted YAML string. Line breaks, tabs and other control
+ * characters become escape sequences so the value stays on its line.
+ */
+function escapeYaml(value: string): string {
+  let escaped = '';
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    const code = value.charCodeAt(i);
+    if (YAML_ESCAPES[char]) {
+      escaped += YAML_ESCAPES[char];
+    } else if (code < 0x20 || code === 0x7f || code === 0x85 || code === 0x2028 || code === 0x2029) {
+      escaped += '\\u' + ('000' + code.toString(16)).slice(-4);
+    } else {
+      escaped += char;
+    }
+  }
+  return escaped;
+}
+
+const FILTERS: Record<TemplateFilter, (value: string) => string> = {
+  yaml: escapeYaml,
+  table: value => value.replace(/\|/g, '\\|'),
+};
+
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*([^{}]*?)\s*\}\}/g;
+const NAME_PATTERN = /^[\w@.-]+$/;
+
+/**
+ * A parsed template, ready to render.
+ */
+export class NoteTemplate {
+  private nodes: TemplateNode[];
+
+  /**
+   * Parses a template.
+   * @param source - Template text
+   * @throws TemplateSyntaxError if a tag is malformed or a block is not closed
+   */
+  constructor(source: string) {
+    this.nodes = parseTemplate(source.replace(/\r\n/g, '\n'));
+  }
+
+  /**
+   * Renders the template.
+   * @param data - Values for the template's placeholders
+   * @returns The rendered note
+   */
+  render(data: TemplateData): string {
+    return renderNodes(this.nodes, [data]);
+  }
+}
+
+function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: { kind: BlockKind; name: string; node: TemplateNode & { type: BlockKind }; inElse: boolean }[] = [];
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) {
+      return root;
+    }
+    return top.inElse ? top.node.otherwise : top.node.children;
+  };
+
+  const pattern = new RegExp(TAG_PATTERN.source, 'g');
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null) {
+    const [tag, sigil, body] = match;
+    const isBlockTag = sigil !== '' || body === 'else';
+    let start = match.index;
+    let end = match.index + tag.length;
+
+    if (isBlockTag) {
+      // Remove a block tag's whole line when nothing else is on it
+      const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+      const newline = source.indexOf('\n', end);
+      const lineEnd = newline === -1 ? source.length : newline;
+      if (lineStart >= position
+        && /^[ \t]*$/.test(source.slice(lineStart, start))
+        && /^[ \t]*$/.test(source.slice(end, lineEnd))) {
+        start = lineStart;
+        end = newline === -1 ? source.length : newline + 1;
+      }
+    }
+
+    if (start > position) {
+      current().push({ type: 'text', text: source.slice(position, start) });
+    }
+    position = end;
+
+    if (sigil === '#') {
+      const [kind, name, ...rest] = body.split(/\s+/);
+      if (kind !== 'each' && kind !== 'if' && kind !== 'region') {
+        throw new TemplateSyntaxError(`Unknown block "{{#${kind}}}"`);
+      }
+      if (!name || rest.length > 0 || !NAME_PATTERN.test(name)) {
+        throw new TemplateSyntaxError(`Block "{{#${body}}}" needs one field name`);
+      }
+      const node = { type: kind, name, children: [], otherwise: [] } as TemplateNode & { type: BlockKind };
+      current().push(node);
+      stack.push({ kind, name, node, inElse: false });
+    } else if (sigil === '/') {
+      const top = stack.pop();
+      if (!top || top.kind !== body) {
+        throw new TemplateSyntaxError(`Unexpected "{{/${body}}}"${top ? `; "{{#${top.kind} ${top.name}}}" is still open` : ''}`);
+      }
+    } else if (body === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.kind !== 'if' || top.inElse) {
+        throw new TemplateSyntaxError('"{{else}}" must be inside an if block');
+      }
+      top.inElse = true;
+    } else {
+      current().push(parseValue(tag, body));
+    }
+  }
+
+  if (position < source.length) {
+    current().push({ type: 'text', text: source.slice(position) });
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateSyntaxError(`"{{#${unclosed.kind} ${unclosed.name}}}" is never closed`);
+  }
+
+  return root;
+}
+
+function parseValue(source: string, body: string): TemplateNode {
+  const [name, ...filters] = body.split('|').map(part => part.trim());
+  if (!NAME_PATTERN.test(name)) {
+    // Not one of ours, e.g. a Templater or Dataview expression; keep it verbatim
+    return { type: 'text', text: source };
+  }
+  for (const filter of filters) {
+    if (!(filter in FILTERS)) {
+      throw new TemplateSyntaxError(`Unknown filter "${filter}" in "${source}"`);
+    }
+  }
+  return { type: 'value', source, name, filters: filters as TemplateFilter[] };
+}
+
+function lookup(scopes: TemplateData[], name: string): { found: boolean; value: TemplateValue } {
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    if (name in scopes[i]) {
+      return { found: true, value: scopes[i][name] };
+    }
+  }
+  return { found: false, value: undefined };
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateData[]): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.text;
+        break;
+
+      case 'value': {
+        const { found, value } = lookup(scopes, node.name);
+        if (!found) {
+          output += node.source;
+          break;
+        }
+        const text = value === undefined || value === false || Array.isArray(value) ? '' : String(value);
+        output += node.filters.reduce((result, filter) => FILTERS[filter](result), text);
+        break;
+      }
+
+      case 'each': {
+        const { value } = lookup(scopes, node.name);
+        if (Array.isArray(value)) {
+          for (const item of value) {
+            output += renderNodes(node.children, [...scopes, item]);
+          }
+        }
+        break;
+      }
+
+      case 'if':
+        output += renderNodes(isTruthy(lookup(scopes, node.name).value) ? node.children : node.otherwise, scopes);
+        break;
+
+      case 'region': {
+        // The markers go around the region's lines; its trailing line breaks stay outside
+        const content = renderNodes(node.children, scopes);
+        const trailing = content.match(/\n*$/)?.[0] ?? '';
+        output += wrapManagedRegion(node.name, content.slice(0, content.length - trailing.length)) + trailing;
+        break;
+      }
+    }
+  }
+
+  return output;
+}
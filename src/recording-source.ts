@@ -0,0 +1,200 @@
+import {
+  ZoomRecording,
+  ZoomRecordingFile,
+  SourceMeeting,
+  FailedMeeting,
+  RecordingTranscriptKind,
+  RecordingTranscriptOrder
+} from './types';
+import {
+  extractParticipantsFromRecording,
+  getTranscriptFileKind,
+  isCompletedChatFile,
+  isCompletedTranscriptFile,
+  SyncCancelledError
+} from './zoom-api';
+import { MeetingReference } from './meeting-reference';
+import { SourceContext, TranscriptLookup, TranscriptSource } from './transcript-source';
+import { TranscriptSegment, stitchTranscripts } from './transcript-stitch';
+import { ChatMessage, parseChat } from './meeting-chat';
+import { attendanceLoader } from './attendance';
+
+/** How far back recording links are searched, since Zoom cannot look them up directly */
+const SHARE_URL_SEARCH_MONTHS = 12;
+
+/** Transcript files to look for, in order, for each recordingTranscriptOrder setting */
+const TRANSCRIPT_KIND_ORDER: Record<RecordingTranscriptOrder, RecordingTranscriptKind[]> = {
+  audio_first: ['audio_transcript', 'closed_caption'],
+  captions_first: ['closed_caption', 'audio_transcript'],
+  audio_only: ['audio_transcript'],
+};
+
+/**
+ * Normalizes a cloud recording into the meeting record notes are written from.
+ */
+export function toSourceMeeting(recording: ZoomRecording): SourceMeeting {
+  return {
+    uuid: recording.uuid,
+    id: recording.id,
+    topic: recording.topic,
+    start_time: recording.start_time,
+    duration: recording.duration,
+    recordingUrl: recording.recording_files?.[0]?.play_url || undefined,
+    type: recording.type,
+  };
+}
+
+/**
+ * Transcripts attached to cloud recordings: the audio_transcript recording file, or
+ * the closed_caption file as a fallback, depending on the recordingTranscriptOrder setting.
+ * Recordings whose transcript is still processing are listed too and reported as
+ * pending, so they can be tracked until Zoom finishes them.
+ */
+export class RecordingTranscriptSource implements TranscriptSource {
+  readonly kind = 'recording' as const;
+  readonly label = 'cloud recordings';
+
+  private context: SourceContext;
+  private recordings = new Map<string, ZoomRecording>();
+
+  constructor(context: SourceContext) {
+    this.context = context;
+  }
+
+  async listMeetings(from: Date | undefined): Promise<SourceMeeting[]> {
+    const { apiClient, stateManager, dryRun, log } = this.context;
+
+    const listed = await apiClient.listRecordings(from, { includePending: true });
+    listed.forEach(recording => this.recordings.set(recording.uuid, recording));
+
+    // Re-check recordings whose transcripts were still processing on earlier runs
+    for (const [uuid, pending] of stateManager.getPendingRecordings()) {
+      if (this.recordings.has(uuid)) {
+        continue;
+      }
+      try {
+        const recording = await apiClient.getMeetingRecording(uuid);
+        if (recording) {
+          this.recordings.set(uuid, recording);
+          listed.push(recording);
+        } else if (!dryRun) {
+          log(`Dropping pending recording ${pending.meetingId} (${uuid}): recording was deleted`);
+          stateManager.clearPending(uuid);
+        }
+      } catch (error) {
+        if (error instanceof SyncCancelledError) {
+          throw error;
+        }
+        // Leave it pending and check again next run
+        log(`Failed to re-check pending recording ${uuid}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return listed.map(toSourceMeeting);
+  }
+
+  async getMeeting(uuid: string, failure: FailedMeeting): Promise<SourceMeeting | null> {
+    const recording = await this.context.apiClient.getMeetingRecording(uuid);
+    if (!recording || !this.findTranscriptFiles(recording)) {
+      // Recording or its transcript was deleted
+      return null;
+    }
+    return this.addRecording(recording);
+  }
+
+  async findMeeting(reference: MeetingReference): Promise<SourceMeeting | null> {
+    const { apiClient } = this.context;
+    let recording: ZoomRecording | null;
+    if (reference.kind === 'share') {
+      const from = new Date();
+      from.setMonth(from.getMonth() - SHARE_URL_SEARCH_MONTHS);
+      recording = await apiClient.findRecordingByShareUrl(reference.url, from);
+    } else {
+      recording = await apiClient.getMeetingRecording(reference.kind === 'id' ? reference.meetingId : reference.uuid);
+    }
+    return recording ? this.addRecording(recording) : null;
+  }
+
+  async findTranscript(meeting: SourceMeeting): Promise<TranscriptLookup> {
+    const recording = this.recordings.get(meeting.uuid);
+    if (!recording) {
+      return { status: 'unavailable', reason: 'No cloud recording' };
+    }
+
+    const found = this.findTranscriptFiles(recording);
+    if (!found || !found.files.every(isCompletedTranscriptFile)) {
+      // Zoom often finishes transcripts hours after the recording itself appears
+      return { status: 'pending' };
+    }
+
+    // A meeting recorded in several segments has one transcript and chat file per segment
+    const byStart = (a: ZoomRecordingFile, b: ZoomRecordingFile) => Date.parse(a.recording_start) - Date.parse(b.recording_start);
+    const transcriptFiles = found.files.sort(byStart);
+    const chatFiles = (recording.recording_files ?? []).filter(isCompletedChatFile).sort(byStart);
+
+    const { apiClient, log } = this.context;
+    const last = transcriptFiles[transcriptFiles.length - 1];
+    // Segment times are relative to their own start; shift them onto the meeting's timeline
+    const meetingStart = Date.parse(recording.start_time);
+    const offsetOf = (file: ZoomRecordingFile): number | undefined => {
+      const offsetMs = Date.parse(file.recording_start) - meetingStart;
+      return isNaN(offsetMs) ? undefined : Math.max(offsetMs, 0);
+    };
+
+    return {
+      status: 'ready',
+      transcript: {
+        remoteFile: {
+          fileId: transcriptFiles.map(f => f.id).join(','),
+          fileSize: transcriptFiles.reduce((total, f) => total + f.file_size, 0),
+          createdAt: last.recording_end,
+        },
+        attendees: extractParticipantsFromRecording(recording),
+        kind: found.kind,
+        download: async () => {
+          const segments: TranscriptSegment[] = [];
+          for (const file of transcriptFiles) {
+            segments.push({ content: await apiClient.downloadTranscript(file.download_url), offsetMs: offsetOf(file) });
+          }
+          return stitchTranscripts(segments);
+        },
+        downloadChat: async () => {
+          const messages: ChatMessage[] = [];
+          for (const file of chatFiles) {
+            // A single-segment transcript keeps its own times, so its chat does too
+            const offsetMs = transcriptFiles.length > 1 ? offsetOf(file) ?? 0 : 0;
+            messages.push(...parseChat(await apiClient.downloadTranscript(file.download_url), offsetMs));
+          }
+          return messages;
+        },
+        downloadAttendance: attendanceLoader(apiClient, recording.uuid, log),
+        resolveHost: () => apiClient.resolveHost(recording.host_id),
+      },
+    };
+  }
+
+  /**
+   * Makes a recording listed outside this source (such as a backfill page) available
+   * to findTranscript.
+   */
+  addRecording(recording: ZoomRecording): SourceMeeting {
+    this.recordings.set(recording.uuid, recording);
+    return toSourceMeeting(recording);
+  }
+
+  /**
+   * Finds the recording's transcript files of the first kind, in the order set in
+   * settings, that the recording has. Files may still be processing.
+   *
+   * @returns The kind and its files, or null if the recording has none of the wanted kinds
+   */
+  private findTranscriptFiles(recording: ZoomRecording): { kind: RecordingTranscriptKind; files: ZoomRecordingFile[] } | null {
+    for (const kind of TRANSCRIPT_KIND_ORDER[this.context.settings.recordingTranscriptOrder]) {
+      const files = (recording.recording_files ?? []).filter(f => getTranscriptFileKind(f) === kind);
+      if (files.length > 0) {
+        return { kind, files };
+      }
+    }
+    return null;
+  }
+}
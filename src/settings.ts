@@ -1,6 +1,20 @@
 import { App, Notice, PluginSettingTab, Setting } from 'obsidian';
 import { ZoomApiClient } from './zoom-api';
 import ZoomTranscriptSync from './main';
+import {
+  TranscriptUpdateMode,
+  SourcePriority,
+  RecordingTranscriptOrder,
+  ChatImportMode,
+  TimezoneMode,
+  TranscriptLayout,
+  RoutingMatch,
+  RoutingRule
+} from './types';
+import { isValidTimezone, getSystemTimezone } from './timezone';
+import { DEFAULT_FILE_NAME_TEMPLATE } from './transcript-writer';
+import { isValidRoutingPattern } from './folder-routing';
+import { isValidTopicFilter } from './meeting-filters';
 
 export class ZoomSyncSettingTab extends PluginSettingTab {
   plugin: ZoomTranscriptSync;
@@ -87,6 +101,140 @@ export class ZoomSyncSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    new Setting(containerEl)
+      .setName('Source Priority')
+      .setDesc('Which transcript to use when a meeting has both a recording transcript and an AI Companion transcript')
+      .addDropdown(dropdown => dropdown
+        .addOption('recording', 'Prefer recording transcript')
+        .addOption('ai_companion', 'Prefer AI Companion transcript')
+        .addOption('both', 'Keep both in one note')
+        .setValue(this.plugin.settings.sourcePriority)
+        .onChange(async (value) => {
+          this.plugin.settings.sourcePriority = value as SourcePriority;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Recording Transcript Type')
+      .setDesc('Which cloud recording file to use as the transcript. Closed captions are saved when live captions were on during the meeting.')
+      .addDropdown(dropdown => dropdown
+        .addOption('audio_first', 'Audio transcript, then closed captions')
+        .addOption('captions_first', 'Closed captions, then audio transcript')
+        .addOption('audio_only', 'Audio transcript only')
+        .setValue(this.plugin.settings.recordingTranscriptOrder)
+        .onChange(async (value) => {
+          this.plugin.settings.recordingTranscriptOrder = value as RecordingTranscriptOrder;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Meeting Chat')
+      .setDesc('Add the in-meeting chat saved with cloud recordings to notes')
+      .addDropdown(dropdown => dropdown
+        .addOption('off', 'Do not import')
+        .addOption('section', 'Separate Chat section')
+        .addOption('interleaved', 'Interleave with the transcript')
+        .setValue(this.plugin.settings.chatImportMode)
+        .onChange(async (value) => {
+          this.plugin.settings.chatImportMode = value as ChatImportMode;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Transcript Layout')
+      .setDesc('Show each transcript cue separately, or merge consecutive cues from the same speaker into paragraphs')
+      .addDropdown(dropdown => dropdown
+        .addOption('cues', 'One block per cue')
+        .addOption('paragraphs', 'Speaker paragraphs')
+        .setValue(this.plugin.settings.transcriptLayout)
+        .onChange(async (value) => {
+          this.plugin.settings.transcriptLayout = value as TranscriptLayout;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Paragraph Pause')
+      .setDesc('In paragraph layout, start a new paragraph when a speaker pauses longer than this many seconds')
+      .addText(text => {
+        text.inputEl.type = 'number';
+        text
+          .setPlaceholder('10')
+          .setValue(String(this.plugin.settings.paragraphMaxGapSeconds))
+          .onChange(async (value) => {
+            const numValue = parseInt(value, 10);
+            if (!isNaN(numValue) && numValue >= 0) {
+              this.plugin.settings.paragraphMaxGapSeconds = numValue;
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Paragraph Length')
+      .setDesc('In paragraph layout, keep paragraphs under this many characters, breaking them between sentences')
+      .addText(text => {
+        text.inputEl.type = 'number';
+        text
+          .setPlaceholder('1000')
+          .setValue(String(this.plugin.settings.paragraphMaxLength))
+          .onChange(async (value) => {
+            const numValue = parseInt(value, 10);
+            if (!isNaN(numValue) && numValue >= 100) {
+              this.plugin.settings.paragraphMaxLength = numValue;
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Timezone')
+      .setDesc('Timezone for dates and times in notes and file names')
+      .addDropdown(dropdown => dropdown
+        .addOption('system', 'System timezone')
+        .addOption('zone', 'Timezone below')
+        .addOption('host', "Meeting host's Zoom timezone")
+        .setValue(this.plugin.settings.timezoneMode)
+        .onChange(async (value) => {
+          this.plugin.settings.timezoneMode = value as TimezoneMode;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Timezone Name')
+      .setDesc('IANA timezone such as America/New_York, used when Timezone is set to the timezone below')
+      .addText(text => text
+        .setPlaceholder(getSystemTimezone())
+        .setValue(this.plugin.settings.timezone)
+        .onChange(async (value) => {
+          const zone = value.trim();
+          if (!zone || isValidTimezone(zone)) {
+            this.plugin.settings.timezone = zone;
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('File Name Template')
+      .setDesc('Name for new notes. Tokens: {{topic}}, {{date}}, {{date:YYYY-MM-DD}}, {{time}}, {{time:HHmm}}, {{host}}, {{id}}, {{uuid}}')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_FILE_NAME_TEMPLATE)
+        .setValue(this.plugin.settings.fileNameTemplate)
+        .onChange(async (value) => {
+          this.plugin.settings.fileNameTemplate = value.trim() || DEFAULT_FILE_NAME_TEMPLATE;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Note Template')
+      .setDesc('Path of a note in your vault to use as the template for transcript notes. Leave empty for the default layout.')
+      .addText(text => text
+        .setPlaceholder('Templates/Zoom Transcript.md')
+        .setValue(this.plugin.settings.noteTemplatePath)
+        .onChange(async (value) => {
+          this.plugin.settings.noteTemplatePath = value.trim();
+          await this.plugin.saveSettings();
+        }));
+
     containerEl.createEl('h3', { text: 'Sync Configuration' });
 
     new Setting(containerEl)
@@ -117,6 +265,87 @@ export class ZoomSyncSettingTab extends PluginSettingTab {
           });
       });
 
+    new Setting(containerEl)
+      .setName('Changed Transcripts')
+      .setDesc('What to do when a transcript is edited or regenerated on Zoom after it was synced')
+      .addDropdown(dropdown => dropdown
+        .addOption('flag', 'Flag the note')
+        .addOption('overwrite', 'Overwrite the note')
+        .addOption('version', 'Write a new version file')
+        .setValue(this.plugin.settings.transcriptUpdateMode)
+        .onChange(async (value) => {
+          this.plugin.settings.transcriptUpdateMode = value as TranscriptUpdateMode;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Change Detection Window')
+      .setDesc('How many days of already-synced meetings to re-check for changed transcripts (0 to disable)')
+      .addText(text => {
+        text.inputEl.type = 'number';
+        text
+          .setPlaceholder('7')
+          .setValue(String(this.plugin.settings.transcriptUpdateWindowDays))
+          .onChange(async (value) => {
+            const numValue = parseInt(value, 10);
+            if (!isNaN(numValue) && numValue >= 0) {
+              this.plugin.settings.transcriptUpdateWindowDays = numValue;
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Lookback Overlap')
+      .setDesc('Hours before the last sync to list again, so transcripts that finished processing late are not missed')
+      .addText(text => {
+        text.inputEl.type = 'number';
+        text
+          .setPlaceholder('24')
+          .setValue(String(this.plugin.settings.lookbackOverlapHours))
+          .onChange(async (value) => {
+            const numValue = parseInt(value, 10);
+            if (!isNaN(numValue) && numValue >= 0) {
+              this.plugin.settings.lookbackOverlapHours = numValue;
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Pending Transcript Timeout')
+      .setDesc('Hours after a meeting ends to keep checking for a transcript that is still processing')
+      .addText(text => {
+        text.inputEl.type = 'number';
+        text
+          .setPlaceholder('72')
+          .setValue(String(this.plugin.settings.pendingTranscriptTimeoutHours))
+          .onChange(async (value) => {
+            const numValue = parseInt(value, 10);
+            if (!isNaN(numValue) && numValue >= 0) {
+              this.plugin.settings.pendingTranscriptTimeoutHours = numValue;
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Max Retry Attempts')
+      .setDesc('How many times to retry a meeting that failed to sync before giving up. Retries wait longer after each failure.')
+      .addText(text => {
+        text.inputEl.type = 'number';
+        text
+          .setPlaceholder('5')
+          .setValue(String(this.plugin.settings.maxRetryAttempts))
+          .onChange(async (value) => {
+            const numValue = parseInt(value, 10);
+            if (!isNaN(numValue) && numValue >= 1) {
+              this.plugin.settings.maxRetryAttempts = numValue;
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+
     new Setting(containerEl)
       .setName('Test Connection')
       .addButton(button => button
@@ -141,6 +370,26 @@ export class ZoomSyncSettingTab extends PluginSettingTab {
           await this.plugin.syncTranscripts();
         }));
 
+    new Setting(containerEl)
+      .setName('Retry Failed Meetings')
+      .setDesc('Give meetings that were given up on after repeated failures another set of attempts')
+      .addButton(button => button
+        .setButtonText('Retry Failed')
+        .onClick(async () => {
+          await this.plugin.retryFailedMeetings();
+          this.display();
+        }));
+    void this.displayAbandonedMeetings(containerEl.createDiv());
+
+    new Setting(containerEl)
+      .setName('Preview Full Re-sync')
+      .setDesc('See which meetings a full re-sync would create, skip, or rename, and choose which to import')
+      .addButton(button => button
+        .setButtonText('Preview')
+        .onClick(async () => {
+          await this.plugin.previewSync(true);
+        }));
+
     new Setting(containerEl)
       .setName('Full Re-sync')
       .setDesc('Clear sync history and fetch all recordings from the beginning')
@@ -154,5 +403,240 @@ export class ZoomSyncSettingTab extends PluginSettingTab {
           new Notice('Sync history cleared. Starting full sync...');
           await this.plugin.syncTranscripts();
         }));
+
+    this.displaySyncFilters(containerEl);
+    this.displayRoutingRules(containerEl);
+  }
+
+  /**
+   * Lists the meetings that were given up on, with the last error, so it is clear what
+   * Retry Failed will try again. Filled in once the sync state has been read.
+   */
+  private async displayAbandonedMeetings(containerEl: HTMLElement): Promise<void> {
+    const abandoned = await this.plugin.getAbandonedMeetings();
+    if (abandoned.length === 0) {
+      return;
+    }
+
+    containerEl.createEl('p', { text: `Given up on ${abandoned.length} meeting(s):` });
+    const list = containerEl.createEl('ul');
+    for (const meeting of abandoned) {
+      list.createEl('li', {
+        text: `${meeting.startTime.split('T')[0]} ${meeting.topic || 'Untitled Meeting'} - ` +
+          `${meeting.error} (${meeting.attempts} attempts)`,
+      });
+    }
+  }
+
+  /**
+   * Shows the filters that decide which meetings are synced.
+   */
+  private displaySyncFilters(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'Sync Filters' });
+    containerEl.createEl('p', {
+      text: 'Meetings that don\'t pass every filter are left out before their transcript is downloaded. ' +
+        'Filtered meetings are listed in the sync preview with the reason. Notes that were already synced are kept.',
+    });
+
+    const topicFilter = (name: string, desc: string, key: 'filterTopicInclude' | 'filterTopicExclude', placeholder: string) =>
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc(desc)
+        .addText(text => text
+          .setPlaceholder(placeholder)
+          .setValue(this.plugin.settings[key])
+          .onChange(async (value) => {
+            if (isValidTopicFilter(value.trim())) {
+              this.plugin.settings[key] = value.trim();
+              await this.plugin.saveSettings();
+            }
+          }));
+    topicFilter('Include Topics', 'Only sync meetings whose topic matches this regular expression. Leave empty for all.',
+      'filterTopicInclude', '^(Project|Customer)');
+    topicFilter('Exclude Topics', 'Never sync meetings whose topic matches this regular expression.',
+      'filterTopicExclude', '\\b(HR|1:1)\\b');
+
+    const hostFilter = (name: string, desc: string, key: 'filterHostAllow' | 'filterHostDeny') =>
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc(desc)
+        .addText(text => text
+          .setPlaceholder('jane@example.com, John Smith')
+          .setValue(this.plugin.settings[key])
+          .onChange(async (value) => {
+            this.plugin.settings[key] = value;
+            await this.plugin.saveSettings();
+          }));
+    hostFilter('Allowed Hosts', 'Only sync meetings hosted by these names or emails (comma-separated). Leave empty for all.',
+      'filterHostAllow');
+    hostFilter('Denied Hosts', 'Never sync meetings hosted by these names or emails (comma-separated).', 'filterHostDeny');
+
+    new Setting(containerEl)
+      .setName('Minimum Duration')
+      .setDesc('Skip meetings shorter than this many minutes (0 to sync all)')
+      .addText(text => {
+        text.inputEl.type = 'number';
+        text
+          .setPlaceholder('0')
+          .setValue(String(this.plugin.settings.filterMinDurationMinutes))
+          .onChange(async (value) => {
+            const numValue = parseInt(value, 10);
+            if (!isNaN(numValue) && numValue >= 0) {
+              this.plugin.settings.filterMinDurationMinutes = numValue;
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Meeting Types')
+      .setDesc('Only sync these Zoom meeting types (comma-separated): 1 instant, 2 scheduled, 3 recurring with no fixed time, ' +
+        '4 personal meeting room, 8 recurring with a fixed time. Leave empty for all.')
+      .addText(text => text
+        .setPlaceholder('2, 8')
+        .setValue(this.plugin.settings.filterMeetingTypes)
+        .onChange(async (value) => {
+          if (/^[\d,\s]*$/.test(value)) {
+            this.plugin.settings.filterMeetingTypes = value;
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Minimum Participants')
+      .setDesc('Skip meetings with fewer participants than this (0 to sync all)')
+      .addText(text => {
+        text.inputEl.type = 'number';
+        text
+          .setPlaceholder('0')
+          .setValue(String(this.plugin.settings.filterMinParticipants))
+          .onChange(async (value) => {
+            const numValue = parseInt(value, 10);
+            if (!isNaN(numValue) && numValue >= 0) {
+              this.plugin.settings.filterMinParticipants = numValue;
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Only Meetings Attended By')
+      .setDesc('Only sync meetings whose participant report lists this email address. Needs the report:read:admin scope; ' +
+        'meetings without attendee emails, such as AI Companion meetings without the scope, are left out.')
+      .addText(text => text
+        .setPlaceholder('me@example.com')
+        .setValue(this.plugin.settings.filterAttendeeEmail)
+        .onChange(async (value) => {
+          this.plugin.settings.filterAttendeeEmail = value.trim();
+          await this.plugin.saveSettings();
+        }));
+  }
+
+  /**
+   * Shows the folder routing rules in the order they are checked, with controls to
+   * reorder, remove and add rules.
+   */
+  private displayRoutingRules(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'Folder Routing' });
+    containerEl.createEl('p', {
+      text: 'Rules are checked from the top. The first rule that matches a new meeting picks the subfolder of the ' +
+        'transcript folder its note is written to, tags for its frontmatter and a note template. Folders can use ' +
+        'file name tokens, e.g. {{date:YYYY}}/{{date:MM}} or Hosts/{{host}}.',
+    });
+
+    const rules = this.plugin.settings.routingRules;
+    const saveRules = async (updated: RoutingRule[]) => {
+      this.plugin.settings.routingRules = updated;
+      await this.plugin.saveSettings();
+      this.display();
+    };
+
+    rules.forEach((rule, index) => {
+      new Setting(containerEl)
+        .setName(`Rule ${index + 1}`)
+        .addDropdown(dropdown => dropdown
+          .addOption('all', 'Every meeting')
+          .addOption('topic', 'Topic matches')
+          .addOption('host', 'Host is')
+          .addOption('series', 'Meeting ID is')
+          .setValue(rule.match)
+          .onChange(async (value) => {
+            rule.match = value as RoutingMatch;
+            await saveRules(rules);
+          }))
+        .addText(text => text
+          .setPlaceholder(ROUTING_PATTERN_PLACEHOLDERS[rule.match])
+          .setValue(rule.pattern)
+          .setDisabled(rule.match === 'all')
+          .onChange(async (value) => {
+            if (isValidRoutingPattern({ match: rule.match, pattern: value })) {
+              rule.pattern = value;
+              await this.plugin.saveSettings();
+            }
+          }))
+        .addExtraButton(button => button
+          .setIcon('arrow-up')
+          .setTooltip('Move up')
+          .setDisabled(index === 0)
+          .onClick(async () => {
+            const updated = [...rules];
+            [updated[index - 1], updated[index]] = [updated[index], updated[index - 1]];
+            await saveRules(updated);
+          }))
+        .addExtraButton(button => button
+          .setIcon('arrow-down')
+          .setTooltip('Move down')
+          .setDisabled(index === rules.length - 1)
+          .onClick(async () => {
+            const updated = [...rules];
+            [updated[index], updated[index + 1]] = [updated[index + 1], updated[index]];
+            await saveRules(updated);
+          }))
+        .addExtraButton(button => button
+          .setIcon('trash')
+          .setTooltip('Remove rule')
+          .onClick(async () => {
+            await saveRules(rules.filter((_, i) => i !== index));
+          }));
+
+      new Setting(containerEl)
+        .setDesc('Folder, tags and template')
+        .addText(text => text
+          .setPlaceholder('Clients/{{date:YYYY}}')
+          .setValue(rule.folder)
+          .onChange(async (value) => {
+            rule.folder = value.trim();
+            await this.plugin.saveSettings();
+          }))
+        .addText(text => text
+          .setPlaceholder('meeting, clients')
+          .setValue(rule.tags)
+          .onChange(async (value) => {
+            rule.tags = value;
+            await this.plugin.saveSettings();
+          }))
+        .addText(text => text
+          .setPlaceholder('Templates/Client Call.md')
+          .setValue(rule.template)
+          .onChange(async (value) => {
+            rule.template = value.trim();
+            await this.plugin.saveSettings();
+          }));
+    });
+
+    new Setting(containerEl)
+      .addButton(button => button
+        .setButtonText('Add Rule')
+        .onClick(async () => {
+          await saveRules([...rules, { match: 'topic', pattern: '', folder: '', tags: '', template: '' }]);
+        }));
   }
 }
+
+/** Example patterns shown in empty routing rule pattern fields */
+const ROUTING_PATTERN_PLACEHOLDERS: Record<RoutingMatch, string> = {
+  all: '',
+  topic: '^Customer:',
+  host: 'jane@example.com',
+  series: '85746065432, 81234567890',
+};
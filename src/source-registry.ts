@@ -0,0 +1,81 @@
+import { ZoomSyncSettings, TranscriptSourceKind, SourcePriority } from './types';
+import { SourceContext, TranscriptSource } from './transcript-source';
+import { RecordingTranscriptSource } from './recording-source';
+import { AICompanionTranscriptSource } from './ai-companion-source';
+
+/**
+ * A transcript source the plugin knows about.
+ */
+export interface SourceRegistration {
+  kind: TranscriptSourceKind;
+  enabled: (settings: ZoomSyncSettings) => boolean;
+  create: (context: SourceContext) => TranscriptSource;
+}
+
+/**
+ * What a source does with a meeting whose note already exists.
+ * - update: the note's transcript came from this source; check it for changes
+ * - replace: this source is preferred; its transcript replaces the note's
+ * - append: both transcripts are kept; this one is added as its own section
+ * - skip: the note already has this source's transcript, or a preferred one
+ */
+export type NoteSourceAction = 'update' | 'replace' | 'append' | 'skip';
+
+/**
+ * All transcript sources, in default priority order.
+ */
+export const TRANSCRIPT_SOURCES: SourceRegistration[] = [
+  {
+    kind: 'recording',
+    enabled: settings => settings.fetchRecordingTranscripts,
+    create: context => new RecordingTranscriptSource(context),
+  },
+  {
+    kind: 'ai_companion',
+    enabled: settings => settings.fetchAICompanionTranscripts,
+    create: context => new AICompanionTranscriptSource(context),
+  },
+];
+
+/**
+ * Lists the registered sources with the preferred source first. When several sources
+ * have a transcript for the same meeting, the first one wins.
+ */
+export function getSourcesByPriority(priority: SourcePriority): SourceRegistration[] {
+  const preferred = TRANSCRIPT_SOURCES.filter(registration => registration.kind === priority);
+  return [...preferred, ...TRANSCRIPT_SOURCES.filter(registration => registration.kind !== priority)];
+}
+
+/**
+ * Creates the sources enabled in settings, in priority order.
+ */
+export function createEnabledSources(context: SourceContext): TranscriptSource[] {
+  return getSourcesByPriority(context.settings.sourcePriority)
+    .filter(registration => registration.enabled(context.settings))
+    .map(registration => registration.create(context));
+}
+
+/**
+ * Decides what a source does with a synced meeting, given the sources already in its note.
+ *
+ * @param noteSources - Sources whose transcripts are in the note, tracked one first;
+ *                      empty if the note predates source tracking
+ * @param kind - Source that has a transcript for the meeting
+ * @param priority - Source priority setting
+ */
+export function getNoteSourceAction(
+  noteSources: TranscriptSourceKind[],
+  kind: TranscriptSourceKind,
+  priority: SourcePriority
+): NoteSourceAction {
+  if (noteSources.length === 0 || noteSources[0] === kind) {
+    return 'update';
+  }
+  if (noteSources.includes(kind)) {
+    return 'skip';
+  }
+  if (priority === 'both') {
+    return 'append';
+  }
+  return priority === kind ? 'replace' : 'skip';
+}
@@ -0,0 +1,278 @@
+import { SyncState, LegacySyncedMeeting, TranscriptSourceKind } from './types';
+
+/**
+ * Schema version written by this build of the plugin.
+ * Bump this and register a migrator in MIGRATIONS whenever the SyncState shape changes.
+ */
+export const CURRENT_STATE_VERSION = 8;
+
+/**
+ * Error raised when a state file cannot be migrated or fails validation.
+ */
+export class InvalidSyncStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidSyncStateError';
+  }
+}
+
+/**
+ * Services available to migrators that need to look outside the state file.
+ */
+export interface MigrationContext {
+  /**
+   * Reads a note relative to the transcript folder.
+   * @returns The note content, or null if it cannot be read
+   */
+  readNote(fileName: string): Promise<string | null>;
+}
+
+/**
+ * Upgrades a state object from version N to version N+1.
+ * Input is untrusted JSON, so migrators must tolerate missing fields.
+ */
+export type StateMigrator = (
+  state: Record<string, unknown>,
+  context: MigrationContext
+) => Promise<Record<string, unknown>>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSourceKind(value: unknown): value is TranscriptSourceKind {
+  return value === 'recording' || value === 'ai_companion';
+}
+
+/**
+ * Version 1 was keyed by numeric meeting ID, which collides across occurrences of
+ * recurring meetings. Entries move to legacyMeetings with the synced occurrence's
+ * start time recovered from the note's `meeting_time` frontmatter.
+ */
+const migrateV1ToV2: StateMigrator = async (state, context) => {
+  const legacyMeetings: { [meetingId: string]: LegacySyncedMeeting } = {};
+
+  const syncedMeetings = isRecord(state.syncedMeetings) ? state.syncedMeetings : {};
+
+  for (const [meetingId, entry] of Object.entries(syncedMeetings)) {
+    if (!isRecord(entry)) {
+      continue;
+    }
+    const legacy: LegacySyncedMeeting = {
+      syncedAt: entry.syncedAt as number,
+      fileName: entry.fileName as string,
+    };
+
+    const note = typeof legacy.fileName === 'string' ? await context.readNote(legacy.fileName) : null;
+    const match = note?.match(/^meeting_time:\s*(\S+)\s*$/m);
+    if (match && !isNaN(Date.parse(match[1]))) {
+      legacy.meetingTime = match[1];
+    }
+
+    legacyMeetings[meetingId] = legacy;
+  }
+
+  return { version: 2, syncedMeetings: {}, legacyMeetings };
+};
+
+/**
+ * Version 3 adds optional contentHash/remoteFile/updatedAt fields to synced meetings.
+ * Existing entries have no baseline yet; it is recorded the next time each meeting is listed.
+ */
+const migrateV2ToV3: StateMigrator = async (state) => {
+  return { ...state, version: 3 };
+};
+
+/**
+ * Version 4 adds the retry queue. Meetings that failed before the upgrade were never
+ * recorded, so the queue starts empty.
+ */
+const migrateV3ToV4: StateMigrator = async (state) => {
+  return { ...state, version: 4, failedMeetings: {} };
+};
+
+/**
+ * Version 5 tracks recordings whose transcripts are still processing. Recordings skipped
+ * before the upgrade are picked up again by the lookback overlap if they are recent.
+ */
+const migrateV4ToV5: StateMigrator = async (state) => {
+  return { ...state, version: 5, pendingRecordings: {} };
+};
+
+/**
+ * Version 6 adds the backfill checkpoint; no backfill can be in progress before the upgrade.
+ */
+const migrateV5ToV6: StateMigrator = async (state) => {
+  return { ...state, version: 6, backfill: null };
+};
+
+/**
+ * Version 7 records which source each note's transcript came from. Only cloud recording
+ * fingerprints carry a file size, which tells the two sources apart; entries without a
+ * fingerprint are claimed by whichever source lists them next.
+ */
+const migrateV6ToV7: StateMigrator = async (state) => {
+  const syncedMeetings = isRecord(state.syncedMeetings) ? state.syncedMeetings : {};
+  const migrated: Record<string, unknown> = {};
+
+  for (const [uuid, entry] of Object.entries(syncedMeetings)) {
+    if (!isRecord(entry) || !isRecord(entry.remoteFile)) {
+      migrated[uuid] = entry;
+      continue;
+    }
+    const source = typeof entry.remoteFile.fileSize === 'number' ? 'recording' : 'ai_companion';
+    migrated[uuid] = { ...entry, sources: [source] };
+  }
+
+  return { ...state, version: 7, syncedMeetings: migrated };
+};
+
+/**
+ * Version 8 records which frontmatter keys the plugin wrote to each note, so keys a
+ * regenerated note no longer has can be dropped. Notes written before the upgrade have
+ * none recorded; the default template's keys stand in for them.
+ */
+const migrateV7ToV8: StateMigrator = async (state) => {
+  return { ...state, version: 8 };
+};
+
+/**
+ * Migrators keyed by the version they upgrade from.
+ */
+const MIGRATIONS: { [fromVersion: number]: StateMigrator } = {
+  1: migrateV1ToV2,
+  2: migrateV2ToV3,
+  3: migrateV3ToV4,
+  4: migrateV4ToV5,
+  5: migrateV5ToV6,
+  6: migrateV6ToV7,
+  7: migrateV7ToV8,
+};
+
+/**
+ * Creates an empty state at the current schema version.
+ */
+export function createEmptyState(): SyncState {
+  return { version: CURRENT_STATE_VERSION, syncedMeetings: {}, legacyMeetings: {}, failedMeetings: {}, pendingRecordings: {}, backfill: null };
+}
+
+/**
+ * Validates that a value matches the current SyncState schema.
+ *
+ * @param state - Parsed and migrated state
+ * @returns The state, typed as SyncState
+ * @throws InvalidSyncStateError describing the first problem found
+ */
+export function validateState(state: unknown): SyncState {
+  if (!isRecord(state) || state.version !== CURRENT_STATE_VERSION) {
+    throw new InvalidSyncStateError(`Expected state version ${CURRENT_STATE_VERSION}`);
+  }
+  if (!isRecord(state.syncedMeetings)) {
+    throw new InvalidSyncStateError('syncedMeetings must be an object');
+  }
+  if (!isRecord(state.legacyMeetings)) {
+    throw new InvalidSyncStateError('legacyMeetings must be an object');
+  }
+  if (!isRecord(state.failedMeetings)) {
+    throw new InvalidSyncStateError('failedMeetings must be an object');
+  }
+  if (!isRecord(state.pendingRecordings)) {
+    throw new InvalidSyncStateError('pendingRecordings must be an object');
+  }
+
+  for (const [uuid, entry] of Object.entries(state.syncedMeetings)) {
+    if (
+      !isRecord(entry) ||
+      typeof entry.meetingId !== 'string' ||
+      typeof entry.syncedAt !== 'number' ||
+      typeof entry.fileName !== 'string' ||
+      (entry.contentHash !== undefined && typeof entry.contentHash !== 'string') ||
+      (entry.remoteFile !== undefined && (!isRecord(entry.remoteFile) || typeof entry.remoteFile.fileId !== 'string')) ||
+      (entry.sources !== undefined && (!Array.isArray(entry.sources) || !entry.sources.every(isSourceKind))) ||
+      (entry.frontmatterKeys !== undefined && (!Array.isArray(entry.frontmatterKeys) || !entry.frontmatterKeys.every(key => typeof key === 'string')))
+    ) {
+      throw new InvalidSyncStateError(`Invalid synced meeting entry: ${uuid}`);
+    }
+  }
+
+  for (const [meetingId, entry] of Object.entries(state.legacyMeetings)) {
+    if (!isRecord(entry) || typeof entry.syncedAt !== 'number' || typeof entry.fileName !== 'string') {
+      throw new InvalidSyncStateError(`Invalid legacy meeting entry: ${meetingId}`);
+    }
+  }
+
+  for (const [uuid, entry] of Object.entries(state.failedMeetings)) {
+    if (
+      !isRecord(entry) ||
+      typeof entry.meetingId !== 'number' ||
+      typeof entry.startTime !== 'string' ||
+      !isSourceKind(entry.source) ||
+      typeof entry.attempts !== 'number' ||
+      typeof entry.nextRetryAt !== 'number' ||
+      typeof entry.gaveUp !== 'boolean'
+    ) {
+      throw new InvalidSyncStateError(`Invalid failed meeting entry: ${uuid}`);
+    }
+  }
+
+  for (const [uuid, entry] of Object.entries(state.pendingRecordings)) {
+    if (
+      !isRecord(entry) ||
+      typeof entry.meetingId !== 'number' ||
+      typeof entry.startTime !== 'string' ||
+      typeof entry.expiresAt !== 'number'
+    ) {
+      throw new InvalidSyncStateError(`Invalid pending recording entry: ${uuid}`);
+    }
+  }
+
+  const backfill = state.backfill;
+  if (
+    backfill !== null &&
+    (
+      !isRecord(backfill) ||
+      typeof backfill.from !== 'string' ||
+      typeof backfill.to !== 'string' ||
+      !Array.isArray(backfill.userEmails) ||
+      typeof backfill.userIndex !== 'number' ||
+      typeof backfill.windowStart !== 'string' ||
+      (backfill.pageToken !== undefined && typeof backfill.pageToken !== 'string')
+    )
+  ) {
+    throw new InvalidSyncStateError('Invalid backfill checkpoint');
+  }
+
+  return state as unknown as SyncState;
+}
+
+/**
+ * Runs every migrator between the state's version and CURRENT_STATE_VERSION in order,
+ * then validates the result.
+ *
+ * @param raw - Parsed JSON from the state file
+ * @param context - Services available to migrators
+ * @returns State at the current version
+ * @throws InvalidSyncStateError if the version is unknown, newer than supported,
+ *         or the migrated state fails validation
+ */
+export async function migrateState(raw: unknown, context: MigrationContext): Promise<SyncState> {
+  if (!isRecord(raw) || typeof raw.version !== 'number' || !Number.isInteger(raw.version)) {
+    throw new InvalidSyncStateError('State file has no version');
+  }
+  if (raw.version > CURRENT_STATE_VERSION) {
+    throw new InvalidSyncStateError(
+      `State version ${raw.version} is newer than supported version ${CURRENT_STATE_VERSION}`
+    );
+  }
+
+  let state: Record<string, unknown> = raw;
+  for (let version = raw.version; version < CURRENT_STATE_VERSION; version++) {
+    const migrator = MIGRATIONS[version];
+    if (!migrator) {
+      throw new InvalidSyncStateError(`No migration from state version ${version}`);
+    }
+    state = await migrator(state, context);
+  }
+
+  return validateState(state);
+}
@@ -0,0 +1,69 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Asks for a meeting ID, UUID, or Zoom link to sync on its own.
+ */
+export class SyncMeetingModal extends Modal {
+  private onSubmit: (reference: string, force: boolean) => Promise<void>;
+  private reference = '';
+  private force = false;
+
+  constructor(app: App, onSubmit: (reference: string, force: boolean) => Promise<void>) {
+    super(app);
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: 'Sync Zoom Meeting' });
+
+    new Setting(contentEl)
+      .setName('Meeting')
+      .setDesc('Meeting ID, occurrence UUID, or a zoom.us meeting or recording link')
+      .addText(text => {
+        text
+          .setPlaceholder('123 4567 8901')
+          .onChange(value => {
+            this.reference = value;
+          });
+        text.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+          if (event.key === 'Enter') {
+            event.preventDefault();
+            void this.submit();
+          }
+        });
+      });
+
+    new Setting(contentEl)
+      .setName('Re-sync if already synced')
+      .setDesc('Regenerate the note even if this meeting was synced before')
+      .addToggle(toggle => toggle
+        .setValue(this.force)
+        .onChange(value => {
+          this.force = value;
+        }));
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('Cancel')
+        .onClick(() => this.close()))
+      .addButton(button => button
+        .setButtonText('Sync')
+        .setCta()
+        .onClick(() => this.submit()));
+  }
+
+  private async submit(): Promise<void> {
+    if (!this.reference.trim()) {
+      return;
+    }
+    this.close();
+    await this.onSubmit(this.reference, this.force);
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,89 @@
+import { App, Modal, Setting } from 'obsidian';
+import { SyncPlanItem, SyncPlanAction } from './types';
+
+const ACTION_LABELS: Record<SyncPlanAction, string> = {
+  create: 'Create',
+  rename: 'Create (renamed)',
+  skip: 'Skip (already synced)',
+  filter: 'Filtered out',
+};
+
+/**
+ * Shows the result of a dry-run sync and lets the user tick which meetings to import.
+ * Only meetings that would be created or renamed can be selected; they start ticked.
+ */
+export class SyncPreviewModal extends Modal {
+  private plan: SyncPlanItem[];
+  private onImport: (uuids: string[]) => Promise<void>;
+  private selected: Set<string>;
+
+  constructor(app: App, plan: SyncPlanItem[], onImport: (uuids: string[]) => Promise<void>) {
+    super(app);
+    this.plan = plan;
+    this.onImport = onImport;
+    this.selected = new Set(
+      plan.filter(item => item.action === 'create' || item.action === 'rename').map(item => item.uuid)
+    );
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: 'Zoom Sync Preview' });
+
+    const counts = (['create', 'rename', 'skip', 'filter'] as SyncPlanAction[])
+      .map(action => `${this.plan.filter(item => item.action === action).length} ${ACTION_LABELS[action].toLowerCase()}`)
+      .join(', ');
+    contentEl.createEl('p', { text: counts });
+
+    const table = contentEl.createEl('table');
+    const headerRow = table.createEl('thead').createEl('tr');
+    for (const heading of ['', 'Date', 'Meeting', 'Source', 'Action', 'File']) {
+      headerRow.createEl('th', { text: heading });
+    }
+
+    const body = table.createEl('tbody');
+    const sorted = [...this.plan].sort((a, b) => b.startTime.localeCompare(a.startTime));
+    for (const item of sorted) {
+      const row = body.createEl('tr');
+
+      const checkbox = row.createEl('td').createEl('input', { type: 'checkbox' });
+      const importable = item.action === 'create' || item.action === 'rename';
+      checkbox.checked = this.selected.has(item.uuid);
+      checkbox.disabled = !importable;
+      checkbox.addEventListener('change', () => {
+        if (checkbox.checked) {
+          this.selected.add(item.uuid);
+        } else {
+          this.selected.delete(item.uuid);
+        }
+      });
+
+      row.createEl('td', { text: item.startTime.split('T')[0] });
+      row.createEl('td', { text: item.topic || 'Untitled Meeting' });
+      row.createEl('td', { text: item.source === 'recording' ? 'Recording' : 'AI Companion' });
+      row.createEl('td', { text: item.reason ? `${ACTION_LABELS[item.action]}: ${item.reason}` : ACTION_LABELS[item.action] });
+      row.createEl('td', { text: item.fileName || '' });
+    }
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('Cancel')
+        .onClick(() => this.close()))
+      .addButton(button => button
+        .setButtonText('Import Selected')
+        .setCta()
+        .onClick(async () => {
+          const uuids = Array.from(this.selected);
+          this.close();
+          if (uuids.length > 0) {
+            await this.onImport(uuids);
+          }
+        }));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
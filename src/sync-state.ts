@@ -1,11 +1,115 @@
 import { Vault } from 'obsidian';
-import { SyncState } from './types';
+import {
+  SyncState,
+  SyncedMeeting,
+  LegacySyncedMeeting,
+  FailedMeeting,
+  PendingRecording,
+  BackfillCheckpoint,
+  MeetingOccurrence,
+  SourceMeeting,
+  RemoteTranscriptInfo,
+  TranscriptSourceKind
+} from './types';
+import { createEmptyState, migrateState } from './state-migrations';
+
+/**
+ * Checks whether a meeting occurrence has already been synced.
+ *
+ * Occurrences are matched by UUID. Entries migrated from version-1 state are keyed by
+ * numeric meeting ID, so they only match the occurrence whose start time equals the
+ * recorded meeting time. If that time could not be recovered, any occurrence that
+ * started before the legacy sync is treated as synced to avoid duplicate notes.
+ *
+ * @param state - The current sync state
+ * @param meeting - The meeting occurrence to check
+ * @returns true if the occurrence is already synced
+ */
+export function isOccurrenceSynced(state: SyncState, meeting: MeetingOccurrence): boolean {
+  if (meeting.uuid in state.syncedMeetings) {
+    return true;
+  }
+
+  const legacy = state.legacyMeetings[String(meeting.id)];
+  if (!legacy) {
+    return false;
+  }
+
+  const startTime = Date.parse(meeting.start_time);
+  if (legacy.meetingTime) {
+    return Date.parse(legacy.meetingTime) === startTime;
+  }
+  return isNaN(startTime) || startTime <= legacy.syncedAt;
+}
+
+/**
+ * Computes a stable hash of transcript content for change detection.
+ * Uses the 53-bit cyrb53 string hash; this is not a cryptographic hash.
+ *
+ * @param content - Raw transcript content
+ * @returns Hex-encoded hash
+ */
+export function hashContent(content: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < content.length; i++) {
+    const ch = content.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+/**
+ * Compares remote transcript metadata recorded at sync time with the current listing.
+ *
+ * @returns true if every recorded field matches
+ */
+export function isSameRemoteFile(a: RemoteTranscriptInfo, b: RemoteTranscriptInfo): boolean {
+  return a.fileId === b.fileId && a.fileSize === b.fileSize && a.createdAt === b.createdAt;
+}
+
+/** Delay before the first retry of a failed meeting; doubles with each further failure */
+const RETRY_BASE_DELAY_MS = 15 * 60 * 1000;
+
+/** Upper bound on the delay between retries */
+const RETRY_MAX_DELAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Calculates how long to wait before retrying a meeting that has failed.
+ * Waits 15 minutes after the first failure, doubling each time up to one day.
+ *
+ * @param attempts - Failed attempts so far (at least 1)
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelayMs(attempts: number): number {
+  const delay = RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0));
+  return Math.min(delay, RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Reads an ISO 8601 time from a note's frontmatter, quoted or not.
+ *
+ * @returns The time, or undefined if the key is missing or not a valid time
+ */
+function readFrontmatterTime(note: string, key: string): string | undefined {
+  const match = note.match(new RegExp(`^${key}:\\s*"?([^"\\s]+)"?\\s*$`, 'm'));
+  return match && !isNaN(Date.parse(match[1])) ? match[1] : undefined;
+}
 
 export class SyncStateManager {
   private vault: Vault;
   private transcriptFolder: string;
   private state: SyncState | null = null;
 
+  /** Path of the backup made by the last readState() if the file was unreadable, else null */
+  public quarantinedPath: string | null = null;
+
+  /** Number of notes the last readState() rebuilt the state from, if the file was unreadable */
+  public rebuiltNoteCount = 0;
+
   constructor(vault: Vault, transcriptFolder: string) {
     this.vault = vault;
     this.transcriptFolder = transcriptFolder;
@@ -15,16 +119,101 @@ export class SyncStateManager {
     return `${this.transcriptFolder}/.zoom-sync-state.json`;
   }
 
+  /**
+   * Reads the state file and migrates it to the current schema version.
+   * A file that cannot be parsed, migrated, or validated (including one written by a
+   * newer plugin version) is copied to a quarantine backup (see quarantinedPath), so it
+   * is never silently discarded. The state is then rebuilt from the notes already in the
+   * transcript folder and saved, so meetings that have notes aren't written again.
+   */
   public async readState(): Promise<SyncState> {
+    this.quarantinedPath = null;
+    this.rebuiltNoteCount = 0;
+
+    let content: string;
     try {
-      const content = await this.vault.adapter.read(this.stateFilePath);
-      this.state = JSON.parse(content) as SyncState;
-      return this.state;
+      content = await this.vault.adapter.read(this.stateFilePath);
     } catch {
-      // File doesn't exist or invalid JSON, return default state
-      this.state = { version: 1, syncedMeetings: {} };
+      // File doesn't exist, return default state
+      this.state = createEmptyState();
+      return this.state;
+    }
+
+    if (content.trim() === '') {
+      this.state = createEmptyState();
       return this.state;
     }
+
+    try {
+      this.state = await migrateState(JSON.parse(content), {
+        readNote: (fileName) => this.readNote(fileName),
+      });
+    } catch {
+      this.quarantinedPath = await this.quarantine(content);
+      this.state = await this.rebuildFromNotes();
+      await this.writeState();
+    }
+    return this.state;
+  }
+
+  /**
+   * Builds a state from the notes in the transcript folder, using their `zoom_meeting_id`,
+   * `meeting_time` and `synced_at` frontmatter. Notes don't record the occurrence UUID, so
+   * each meeting ID becomes a legacy entry, matched the same way as entries migrated from
+   * version-1 state: by start time if the ID has a single note, otherwise any occurrence
+   * that started before the latest of its notes was synced counts as synced.
+   */
+  private async rebuildFromNotes(): Promise<SyncState> {
+    const state = createEmptyState();
+    const prefix = `${this.transcriptFolder}/`;
+
+    for (const file of this.vault.getMarkdownFiles()) {
+      if (!file.path.startsWith(prefix)) {
+        continue;
+      }
+      const note = await this.readNote(file.path.substring(prefix.length));
+      const meetingId = note?.match(/^zoom_meeting_id:\s*"?(\d+)"?\s*$/m)?.[1];
+      if (!note || !meetingId) {
+        continue;
+      }
+      this.rebuiltNoteCount++;
+
+      const meetingTime = readFrontmatterTime(note, 'meeting_time');
+      const syncedAt = Date.parse(readFrontmatterTime(note, 'synced_at') ?? meetingTime ?? '') || Date.now();
+      const entry: LegacySyncedMeeting = { syncedAt, fileName: file.path.substring(prefix.length) };
+      const existing = state.legacyMeetings[meetingId];
+      if (!existing) {
+        if (meetingTime) {
+          entry.meetingTime = meetingTime;
+        }
+        state.legacyMeetings[meetingId] = entry;
+      } else {
+        // A recurring meeting with several notes: which occurrence each came from is lost
+        state.legacyMeetings[meetingId] = {
+          syncedAt: Math.max(existing.syncedAt, syncedAt),
+          fileName: existing.syncedAt >= syncedAt ? existing.fileName : entry.fileName,
+        };
+      }
+    }
+    return state;
+  }
+
+  /**
+   * Copies unreadable state content to a timestamped backup next to the state file.
+   * Throws if the backup cannot be written so the original is never overwritten.
+   */
+  private async quarantine(content: string): Promise<string> {
+    const backupPath = `${this.stateFilePath}.corrupt-${Date.now()}`;
+    await this.vault.adapter.write(backupPath, content);
+    return backupPath;
+  }
+
+  private async readNote(fileName: string): Promise<string | null> {
+    try {
+      return await this.vault.adapter.read(`${this.transcriptFolder}/${fileName}`);
+    } catch {
+      return null;
+    }
   }
 
   public async writeState(): Promise<void> {
@@ -42,20 +231,246 @@ export class SyncStateManager {
     await this.vault.adapter.rename(tempPath, this.stateFilePath);
   }
 
-  public isSynced(meetingId: string): boolean {
+  public isSynced(meeting: MeetingOccurrence): boolean {
     if (!this.state) {
       return false;
     }
-    return meetingId in this.state.syncedMeetings;
+    return isOccurrenceSynced(this.state, meeting);
+  }
+
+  public getSyncedMeeting(meetingUuid: string): SyncedMeeting | null {
+    return this.state?.syncedMeetings[meetingUuid] ?? null;
   }
 
-  public markSynced(meetingId: string, fileName: string): void {
+  public markSynced(
+    meeting: MeetingOccurrence,
+    fileName: string,
+    remoteFile?: RemoteTranscriptInfo,
+    contentHash?: string,
+    source?: TranscriptSourceKind
+  ): void {
     if (!this.state) {
-      this.state = { version: 1, syncedMeetings: {} };
+      this.state = createEmptyState();
     }
-    this.state.syncedMeetings[meetingId] = {
+    this.state.syncedMeetings[meeting.uuid] = {
+      meetingId: String(meeting.id),
       syncedAt: Date.now(),
       fileName: fileName,
+      contentHash,
+      remoteFile,
+      sources: source ? [source] : undefined,
+    };
+    delete this.state.failedMeetings[meeting.uuid];
+    // Another source's transcript doesn't finish the recording still processing on Zoom
+    if (source === 'recording') {
+      delete this.state.pendingRecordings[meeting.uuid];
+    }
+  }
+
+  public getFailedMeeting(meetingUuid: string): FailedMeeting | null {
+    return this.state?.failedMeetings[meetingUuid] ?? null;
+  }
+
+  /**
+   * Records a failed sync attempt and schedules the next retry with exponential backoff.
+   * Once maxAttempts is reached the meeting is marked as given up and no longer retried.
+   *
+   * @returns The updated entry
+   */
+  public recordFailure(
+    meeting: SourceMeeting,
+    source: TranscriptSourceKind,
+    error: string,
+    maxAttempts: number
+  ): FailedMeeting {
+    if (!this.state) {
+      this.state = createEmptyState();
+    }
+    const now = Date.now();
+    const attempts = (this.state.failedMeetings[meeting.uuid]?.attempts ?? 0) + 1;
+    const entry: FailedMeeting = {
+      meetingId: meeting.id,
+      topic: meeting.topic,
+      startTime: meeting.start_time,
+      duration: meeting.duration,
+      source,
+      error,
+      attempts,
+      lastAttemptAt: now,
+      nextRetryAt: now + getRetryDelayMs(attempts),
+      gaveUp: attempts >= maxAttempts,
+    };
+    this.state.failedMeetings[meeting.uuid] = entry;
+    // The retry queue takes over from the pending list
+    delete this.state.pendingRecordings[meeting.uuid];
+    return entry;
+  }
+
+  /**
+   * Checks whether a failed meeting should be left alone for now, either because
+   * its next retry is not yet due or because it has been given up on.
+   */
+  public isAwaitingRetry(meetingUuid: string, now = Date.now()): boolean {
+    const entry = this.getFailedMeeting(meetingUuid);
+    return entry !== null && (entry.gaveUp || entry.nextRetryAt > now);
+  }
+
+  /**
+   * Lists failed meetings from a source whose next retry is due.
+   */
+  public getDueRetries(source: TranscriptSourceKind, now = Date.now()): Array<[string, FailedMeeting]> {
+    return Object.entries(this.state?.failedMeetings ?? {}).filter(
+      ([, entry]) => entry.source === source && !entry.gaveUp && entry.nextRetryAt <= now
+    );
+  }
+
+  /**
+   * Lists meetings that reached the retry limit, keyed by UUID.
+   */
+  public getAbandonedMeetings(): Array<[string, FailedMeeting]> {
+    return Object.entries(this.state?.failedMeetings ?? {}).filter(([, entry]) => entry.gaveUp);
+  }
+
+  /**
+   * Drops a failed meeting from the retry queue, e.g. when there is nothing left to retry.
+   */
+  public clearFailure(meetingUuid: string): void {
+    if (this.state) {
+      delete this.state.failedMeetings[meetingUuid];
+    }
+  }
+
+  public getPendingRecordings(): Array<[string, PendingRecording]> {
+    return Object.entries(this.state?.pendingRecordings ?? {});
+  }
+
+  /**
+   * Adds a recording whose transcript is still processing to the pending list.
+   * The plugin waits until timeoutMs after the meeting ends; a recording past that
+   * point is dropped from the list instead.
+   *
+   * @returns true if the recording is (still) pending, false if the wait has expired
+   */
+  public markPending(
+    meeting: SourceMeeting,
+    timeoutMs: number
+  ): boolean {
+    if (!this.state) {
+      this.state = createEmptyState();
+    }
+    const now = Date.now();
+    const firstSeenAt = this.state.pendingRecordings[meeting.uuid]?.firstSeenAt ?? now;
+    // Fall back to when the recording was first seen if the start time is unusable
+    const endTime = Date.parse(meeting.start_time) + meeting.duration * 60 * 1000;
+    const expiresAt = (isNaN(endTime) ? firstSeenAt : endTime) + timeoutMs;
+
+    if (now >= expiresAt) {
+      delete this.state.pendingRecordings[meeting.uuid];
+      return false;
+    }
+
+    this.state.pendingRecordings[meeting.uuid] = {
+      meetingId: meeting.id,
+      topic: meeting.topic,
+      startTime: meeting.start_time,
+      firstSeenAt,
+      expiresAt,
     };
+    return true;
+  }
+
+  /**
+   * Drops a recording from the pending list, e.g. when it was deleted on Zoom.
+   */
+  public clearPending(meetingUuid: string): void {
+    if (this.state) {
+      delete this.state.pendingRecordings[meetingUuid];
+    }
+  }
+
+  public getBackfill(): BackfillCheckpoint | null {
+    return this.state?.backfill ?? null;
+  }
+
+  /**
+   * Saves backfill progress, or clears it with null once the backfill finishes.
+   */
+  public setBackfill(checkpoint: BackfillCheckpoint | null): void {
+    if (!this.state) {
+      this.state = createEmptyState();
+    }
+    this.state.backfill = checkpoint;
+  }
+
+  /**
+   * Gives every abandoned meeting a fresh set of attempts, due immediately.
+   *
+   * @returns Number of meetings requeued
+   */
+  public requeueAbandoned(): number {
+    const abandoned = this.getAbandonedMeetings();
+    for (const [, entry] of abandoned) {
+      entry.attempts = 0;
+      entry.nextRetryAt = 0;
+      entry.gaveUp = false;
+    }
+    return abandoned.length;
+  }
+
+  /**
+   * Records the remote metadata (and hash, if known) of an already-synced meeting
+   * without touching its note. Used to capture a baseline or acknowledge a metadata
+   * change whose content turned out to be identical.
+   */
+  public setRemoteFile(meetingUuid: string, remoteFile: RemoteTranscriptInfo, contentHash?: string): void {
+    const entry = this.getSyncedMeeting(meetingUuid);
+    if (!entry) {
+      return;
+    }
+    entry.remoteFile = remoteFile;
+    if (contentHash !== undefined) {
+      entry.contentHash = contentHash;
+    }
+  }
+
+  /**
+   * Records which sources' transcripts a synced meeting's note contains. The first
+   * source is the one whose remote metadata is tracked for changes.
+   */
+  public setNoteSources(meetingUuid: string, sources: TranscriptSourceKind[]): void {
+    const entry = this.getSyncedMeeting(meetingUuid);
+    if (entry) {
+      entry.sources = sources;
+    }
+  }
+
+  /**
+   * Records which frontmatter keys the plugin wrote to a synced meeting's note, so the
+   * ones a later version of the note no longer has can be dropped when it is merged.
+   */
+  public setFrontmatterKeys(meetingUuid: string, keys: string[]): void {
+    const entry = this.getSyncedMeeting(meetingUuid);
+    if (entry) {
+      entry.frontmatterKeys = keys;
+    }
+  }
+
+  /**
+   * Records that a synced meeting's note was regenerated or flagged after a remote change.
+   */
+  public markUpdated(
+    meetingUuid: string,
+    fileName: string,
+    remoteFile: RemoteTranscriptInfo,
+    contentHash: string
+  ): void {
+    const entry = this.getSyncedMeeting(meetingUuid);
+    if (!entry) {
+      return;
+    }
+    entry.fileName = fileName;
+    entry.remoteFile = remoteFile;
+    entry.contentHash = contentHash;
+    entry.updatedAt = Date.now();
   }
 }
@@ -0,0 +1,129 @@
+/**
+ * Timezone support for dates and times shown in notes and file names.
+ * Zones are IANA names such as "America/Los_Angeles", converted with Intl so no
+ * timezone data has to be bundled.
+ */
+
+/**
+ * Calendar date and wall-clock time of an instant in a timezone.
+ */
+export interface ZonedDateParts {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+  hour: number;    // 0-23
+  minute: number;
+  second: number;
+}
+
+/**
+ * Checks whether a string is a timezone name this platform can convert to.
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  if (!timeZone) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Gets the system's timezone, falling back to UTC if the platform doesn't report one.
+ */
+export function getSystemTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Splits an instant into its date and time in a timezone.
+ *
+ * @param date - The instant
+ * @param timeZone - IANA timezone name
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  });
+
+  const values: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    values[part.type] = parseInt(part.value, 10);
+  }
+
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    // Some engines ignore hourCycle and write midnight as 24
+    hour: values.hour % 24,
+    minute: values.minute,
+    second: values.second,
+  };
+}
+
+function pad(value: number): string {
+  return value < 10 ? `0${value}` : String(value);
+}
+
+/**
+ * Formats an instant as an ISO 8601 local time with the timezone's UTC offset.
+ *
+ * @example
+ * // formatLocalIso(new Date('2025-01-15T17:00:00Z'), 'America/Los_Angeles')
+ * // returns "2025-01-15T09:00:00-08:00"
+ */
+export function formatLocalIso(date: Date, timeZone: string): string {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const offsetMinutes = Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetMinutes);
+
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}` +
+    `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+/**
+ * Formats a local date and time with Moment-style tokens: YYYY, YY, MMMM, MMM, MM, M,
+ * DD, D, HH, H, mm and ss. Text in square brackets is copied as is; everything else
+ * that is not a token is copied too.
+ *
+ * @example
+ * // formatZonedParts({ year: 2025, month: 1, day: 5, hour: 9, minute: 30, second: 0 }, 'YYYY-MM-DD HHmm')
+ * // returns "2025-01-05 0930"
+ */
+export function formatZonedParts(parts: ZonedDateParts, format: string): string {
+  const tokens: Record<string, string> = {
+    YYYY: String(parts.year),
+    YY: pad(parts.year % 100),
+    MMMM: MONTH_NAMES[parts.month - 1],
+    MMM: MONTH_NAMES[parts.month - 1].substring(0, 3),
+    MM: pad(parts.month),
+    M: String(parts.month),
+    DD: pad(parts.day),
+    D: String(parts.day),
+    HH: pad(parts.hour),
+    H: String(parts.hour),
+    mm: pad(parts.minute),
+    ss: pad(parts.second),
+  };
+
+  return format.replace(/\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|HH|H|mm|ss/g,
+    (token: string, literal: string | undefined) => literal ?? tokens[token]);
+}
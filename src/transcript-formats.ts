@@ -0,0 +1,225 @@
+/**
+ * Parsing for transcripts that are not WebVTT. AI Companion transcripts come in
+ * whatever format the meeting produced them in, including:
+ * - plain text with a header line per speaker turn: `[Jane Doe] 10:15:04`, then the text
+ * - plain text with one turn per line: `00:01:02 Jane Doe: Hello`, or `Jane Doe: Hello`
+ * - JSON, either an array of turns or an object holding one, such as
+ *   `{"transcripts": [{"speaker": "Jane Doe", "start_time": "00:01:02", "text": "Hello"}]}`
+ *
+ * Each is normalized into the entries parseVtt() returns, so notes look the same
+ * whichever format the transcript came in.
+ */
+
+import { VttEntry } from './transcript-writer';
+import { SEGMENT_NOTE_PATTERN, formatTimestampMs, parseTimestampMs } from './transcript-stitch';
+
+/**
+ * Format of a transcript's content.
+ */
+export type TranscriptFormat = 'vtt' | 'json' | 'text';
+
+const CUE_TIMING_LINE = /^(?:\d{2,}:)?\d{2}:\d{2}\.\d{3}[ \t]*-->/m;
+const CLOCK = '(\\d{1,2}:\\d{2}(?::\\d{2})?(?:\\.\\d{1,3})?)';
+
+/** "[Jane Doe] 10:15:04" — the turn's text follows on the next lines */
+const BRACKET_HEADER_PATTERN = new RegExp(`^\\[(.+?)\\]\\s+${CLOCK}$`);
+/** "00:01:02 Jane Doe: Hello" or "[00:01:02] Jane Doe: Hello" */
+const TIMED_LINE_PATTERN = new RegExp(`^\\[?${CLOCK}\\]?\\s+(?:(.+?):\\s+)?(.+)$`);
+/** "Jane Doe: Hello"; the name may not contain digits-only times or URLs */
+const SPEAKER_LINE_PATTERN = /^([^:\d][^:]{0,59}):\s+(.+)$/;
+
+/** Keys that hold the list of turns in JSON transcripts, checked in order */
+const JSON_LIST_KEYS = ['transcripts', 'transcript', 'entries', 'segments', 'timeline', 'results', 'items', 'data'];
+const JSON_TEXT_KEYS = ['text', 'content', 'transcript', 'message', 'sentence'];
+const JSON_SPEAKER_KEYS = ['speaker', 'speaker_name', 'username', 'user_name', 'name', 'display_name'];
+const JSON_START_KEYS = ['start_time', 'start', 'ts', 'timestamp', 'offset', 'start_ms', 'startMs'];
+const JSON_END_KEYS = ['end_time', 'end', 'end_ms', 'endMs'];
+
+/**
+ * Detects the format of a transcript. Anything with a cue timing line is WebVTT and
+ * anything that parses as a JSON object or array is JSON; the rest is plain text.
+ */
+export function detectTranscriptFormat(content: string): TranscriptFormat {
+  if (CUE_TIMING_LINE.test(content)) {
+    return 'vtt';
+  }
+  const trimmed = content.replace(/^\uFEFF/, '').trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      JSON.parse(trimmed);
+      return 'json';
+    } catch {
+      // Text that happens to start with a bracket, such as "[Jane Doe] 10:15:04"
+    }
+  }
+  return 'text';
+}
+
+/**
+ * Gets a transcript's text without a WEBVTT header or segment markers, for notes whose
+ * transcript can't be parsed.
+ *
+ * @returns The text, or empty string if there is none
+ */
+export function getRawTranscriptText(content: string): string {
+  return content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .filter((line, index) => !(index === 0 && /^WEBVTT(?:[ \t]|$)/.test(line)) && !SEGMENT_NOTE_PATTERN.test(line.trim()))
+    .join('\n')
+    .trim();
+}
+
+function toEntry(speaker: string, text: string, startMs?: number, endMs?: number): VttEntry {
+  const entry: VttEntry = {
+    timestamp: startMs !== undefined ? formatTimestampMs(startMs, false) : '',
+    speaker,
+    text,
+  };
+  if (startMs !== undefined) {
+    entry.startMs = startMs;
+  }
+  if (endMs !== undefined) {
+    entry.endMs = endMs;
+  }
+  return entry;
+}
+
+/**
+ * Parses a plain-text transcript. Lines that don't start a turn are added to the turn
+ * above them.
+ *
+ * @param content - Raw transcript text
+ * @returns The turns, or an empty array if the text has no speaker or time to go by
+ */
+export function parsePlainTextTranscript(content: string): VttEntry[] {
+  const entries: VttEntry[] = [];
+  let structured = false;
+
+  for (const rawLine of content.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.trim();
+    if (!line) {
+      continue;
+    }
+
+    const header = line.match(BRACKET_HEADER_PATTERN);
+    if (header) {
+      entries.push(toEntry(header[1].trim(), '', parseTimestampMs(header[2])));
+      structured = true;
+      continue;
+    }
+
+    const timed = line.match(TIMED_LINE_PATTERN);
+    if (timed) {
+      entries.push(toEntry(timed[2]?.trim() ?? '', timed[3].trim(), parseTimestampMs(timed[1])));
+      structured = true;
+      continue;
+    }
+
+    const spoken = line.match(SPEAKER_LINE_PATTERN);
+    if (spoken && !/^https?$/i.test(spoken[1])) {
+      entries.push(toEntry(spoken[1].trim(), spoken[2].trim()));
+      structured = true;
+      continue;
+    }
+
+    const current = entries[entries.length - 1];
+    if (current) {
+      current.text = current.text ? `${current.text} ${line}` : line;
+    } else {
+      entries.push(toEntry('', line));
+    }
+  }
+
+  return structured ? entries.filter(entry => entry.text.length > 0) : [];
+}
+
+function findJsonList(value: unknown, depth = 0): unknown[] | null {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (!value || typeof value !== 'object' || depth > 2) {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  for (const key of JSON_LIST_KEYS) {
+    const list = findJsonList(record[key], depth + 1);
+    if (list) {
+      return list;
+    }
+  }
+  return null;
+}
+
+function readJsonString(record: Record<string, unknown>, keys: string[]): string {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim();
+    }
+    // A speaker may be an object such as {"name": "Jane Doe"}
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const nested = readJsonString(value as Record<string, unknown>, keys.filter(k => k !== key));
+      if (nested) {
+        return nested;
+      }
+    }
+  }
+  return '';
+}
+
+function readJsonTime(record: Record<string, unknown>, keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === 'number' && isFinite(value)) {
+      // Numbers are seconds, unless the key says milliseconds
+      return Math.round(/ms$/i.test(key) ? value : value * 1000);
+    }
+    if (typeof value === 'string') {
+      if (/^\d+(?:\.\d+)?$/.test(value)) {
+        return Math.round(parseFloat(value) * (/ms$/i.test(key) ? 1 : 1000));
+      }
+      if (/^(?:\d+:)?\d{1,2}:\d{2}(?:\.\d+)?$/.test(value)) {
+        return parseTimestampMs(value);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses a JSON transcript: a list of turns, or an object holding one under a key
+ * such as "transcripts" or "timeline". Each turn needs text; its speaker and start and
+ * end times are read from the usual field names. Times are offsets such as "00:01:02",
+ * or numbers of seconds (milliseconds for fields ending in "ms").
+ *
+ * @param content - Raw JSON
+ * @returns The turns, or an empty array if the JSON holds no list of turns with text
+ */
+export function parseJsonTranscript(content: string): VttEntry[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content.replace(/^\uFEFF/, ''));
+  } catch {
+    return [];
+  }
+
+  const entries: VttEntry[] = [];
+  for (const item of findJsonList(data) ?? []) {
+    if (!item || typeof item !== 'object') {
+      continue;
+    }
+    const record = item as Record<string, unknown>;
+    const text = readJsonString(record, JSON_TEXT_KEYS).replace(/\s+/g, ' ');
+    if (!text) {
+      continue;
+    }
+    // Zoom timelines list who was speaking under "users"
+    const users = Array.isArray(record.users) ? record.users : [];
+    const speaker = readJsonString(record, JSON_SPEAKER_KEYS)
+      || (users[0] && typeof users[0] === 'object' ? readJsonString(users[0] as Record<string, unknown>, JSON_SPEAKER_KEYS) : '');
+    entries.push(toEntry(speaker, text, readJsonTime(record, JSON_START_KEYS), readJsonTime(record, JSON_END_KEYS)));
+  }
+  return entries;
+}
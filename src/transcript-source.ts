@@ -0,0 +1,93 @@
+import {
+  ZoomSyncSettings,
+  SourceMeeting,
+  RemoteTranscriptInfo,
+  FailedMeeting,
+  Attendee,
+  MeetingHost,
+  TranscriptSourceKind,
+  TranscriptKind
+} from './types';
+import { ZoomApiClient } from './zoom-api';
+import { SyncStateManager } from './sync-state';
+import { MeetingReference } from './meeting-reference';
+import { ChatMessage } from './meeting-chat';
+
+/**
+ * Error thrown by SourceTranscript.download() when the transcript turns out to be
+ * inaccessible. The meeting is filtered out rather than counted as a failure.
+ */
+export class TranscriptUnavailableError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = 'TranscriptUnavailableError';
+  }
+}
+
+/**
+ * A transcript a source has located for a meeting.
+ */
+export interface SourceTranscript {
+  remoteFile: RemoteTranscriptInfo;  // Fingerprint used to detect later changes
+  attendees: string[];               // Names known without extra requests; used if the participant report is unavailable
+  kind: TranscriptKind;              // Recorded in the note's frontmatter
+  download(): Promise<string>;
+  downloadChat?(): Promise<ChatMessage[]>;  // Sources without a chat log leave this out
+  downloadAttendance(): Promise<Attendee[] | null>;  // Participant report, requested once; null if unavailable
+  resolveHost(): Promise<MeetingHost | null>;        // null if the host can't be resolved
+}
+
+/**
+ * Result of looking for a meeting's transcript.
+ * - ready: the transcript can be downloaded
+ * - pending: the meeting exists but its transcript is still processing
+ * - unavailable: there is no transcript to sync; reason is shown in the sync preview
+ */
+export type TranscriptLookup =
+  | { status: 'ready'; transcript: SourceTranscript }
+  | { status: 'pending' }
+  | { status: 'unavailable'; reason: string };
+
+/**
+ * Services a source can use during a sync run.
+ */
+export interface SourceContext {
+  apiClient: ZoomApiClient;
+  settings: ZoomSyncSettings;
+  stateManager: SyncStateManager;
+  dryRun: boolean;              // Sources must not change the sync state in a dry run
+  log: (message: string) => void;
+}
+
+/**
+ * A place transcripts come from. The sync loop lists each source's meetings, asks it
+ * for each meeting's transcript, and writes notes the same way for every source.
+ * Sources are created per sync run, so they may cache what they list.
+ */
+export interface TranscriptSource {
+  readonly kind: TranscriptSourceKind;
+  readonly label: string;       // Human-readable name for logs and status messages
+
+  /**
+   * Lists meetings that may have a transcript.
+   * @param from - Start of the listing window; undefined means the source's default lookback
+   */
+  listMeetings(from: Date | undefined): Promise<SourceMeeting[]>;
+
+  /**
+   * Fetches a queued meeting that is no longer in the listing so it can be retried.
+   * @returns The meeting, or null if there is nothing left to retry
+   */
+  getMeeting(uuid: string, failure: FailedMeeting): Promise<SourceMeeting | null>;
+
+  /**
+   * Finds a meeting the user identified directly.
+   * @returns The meeting, or null if this source does not know it
+   */
+  findMeeting(reference: MeetingReference): Promise<SourceMeeting | null>;
+
+  /**
+   * Looks for the transcript of a meeting returned by this source.
+   */
+  findTranscript(meeting: SourceMeeting): Promise<TranscriptLookup>;
+}
@@ -0,0 +1,101 @@
+/**
+ * Joins transcripts of a meeting that was recorded in several segments, e.g. because
+ * the host stopped and restarted cloud recording.
+ *
+ * The result is a single WebVTT document. Each segment is preceded by a NOTE block
+ * that parseVtt() turns into a segment marker:
+ * ```
+ * NOTE Segment 2 starts at 00:42:10
+ * ```
+ * The start time is left out when the segment's offset is unknown.
+ */
+
+/**
+ * One downloaded transcript segment.
+ */
+export interface TranscriptSegment {
+  content: string;      // Raw transcript, usually WebVTT
+  offsetMs?: number;    // How far into the meeting the segment starts; its cue times are shifted by this much.
+                        // Omitted when unknown, in which case cue times are kept as they are
+}
+
+/** Matches the segment marker NOTE blocks written by stitchTranscripts() */
+export const SEGMENT_NOTE_PATTERN = /^NOTE Segment (\d+)(?: starts at (\d{2}:\d{2}:\d{2}))?$/;
+
+const CUE_TIMING_PATTERN = /^((?:\d{2,}:)?\d{2}:\d{2}\.\d{3})(\s*-->\s*)((?:\d{2,}:)?\d{2}:\d{2}\.\d{3})(.*)$/;
+
+/** Parses an "HH:MM:SS" or "HH:MM:SS.mmm" timestamp, or a short "MM:SS.mmm" one, into milliseconds */
+export function parseTimestampMs(timestamp: string): number {
+  const parts = timestamp.split(':');
+  const [hours, minutes, seconds] = parts.length === 2 ? ['0', ...parts] : parts;
+  return (parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60) * 1000 + Math.round(parseFloat(seconds) * 1000);
+}
+
+function pad(value: number, length = 2): string {
+  let text = String(value);
+  while (text.length < length) {
+    text = `0${text}`;
+  }
+  return text;
+}
+
+/** Formats milliseconds as "HH:MM:SS.mmm", or "HH:MM:SS" without milliseconds */
+export function formatTimestampMs(ms: number, withMillis = true): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hms = `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}`;
+  return withMillis ? `${hms}.${pad(ms % 1000, 3)}` : hms;
+}
+
+/**
+ * Shifts every cue timing in a WebVTT document by a fixed offset.
+ * Lines that are not cue timings are left untouched, so plain-text transcripts pass through.
+ *
+ * @param content - WebVTT content
+ * @param offsetMs - Milliseconds to add to each timestamp
+ * @returns The shifted content
+ */
+export function shiftVttTimestamps(content: string, offsetMs: number): string {
+  if (offsetMs === 0) {
+    return content;
+  }
+  return content
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map(line => {
+      const match = line.trim().match(CUE_TIMING_PATTERN);
+      if (!match) {
+        return line;
+      }
+      const start = formatTimestampMs(Math.max(parseTimestampMs(match[1]) + offsetMs, 0));
+      const end = formatTimestampMs(Math.max(parseTimestampMs(match[3]) + offsetMs, 0));
+      return `${start}${match[2]}${end}${match[4]}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Stitches transcript segments into one continuous transcript.
+ * A single segment is returned unchanged.
+ *
+ * @param segments - Segments in the order they were recorded
+ * @returns One WebVTT document with a marker before each segment
+ */
+export function stitchTranscripts(segments: TranscriptSegment[]): string {
+  if (segments.length === 1) {
+    return segments[0].content;
+  }
+
+  const blocks = segments.map((segment, index) => {
+    // Drop the segment's own WEBVTT header; the stitched document has one
+    const body = shiftVttTimestamps(segment.content, segment.offsetMs ?? 0)
+      .replace(/\r\n/g, '\n')
+      .replace(/^\uFEFF?WEBVTT[^\n]*\n/, '')
+      .trim();
+    const marker = segment.offsetMs === undefined
+      ? `NOTE Segment ${index + 1}`
+      : `NOTE Segment ${index + 1} starts at ${formatTimestampMs(Math.max(segment.offsetMs, 0), false)}`;
+    return body ? `${marker}\n\n${body}` : marker;
+  });
+
+  return `WEBVTT\n\n${blocks.join('\n\n')}\n`;
+}
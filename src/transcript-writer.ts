@@ -1,5 +1,126 @@
-import { Vault, TAbstractFile, TFolder } from 'obsidian';
-import { ZoomRecording, SyncState } from './types';
+import { Vault, TAbstractFile, TFile, TFolder } from 'obsidian';
+import {
+  SourceMeeting,
+  SyncState,
+  MeetingOccurrence,
+  TranscriptSourceKind,
+  TranscriptKind,
+  ChatImportMode,
+  Attendee,
+  MeetingHost
+} from './types';
+import { isOccurrenceSynced } from './sync-state';
+import { mergeManagedNote, appendManagedRegion } from './note-merge';
+import { NoteTemplate, TemplateData } from './note-template';
+import { SEGMENT_NOTE_PATTERN, formatTimestampMs } from './transcript-stitch';
+import {
+  detectTranscriptFormat,
+  getRawTranscriptText,
+  parseJsonTranscript,
+  parsePlainTextTranscript
+} from './transcript-formats';
+import { ChatMessage, formatChatMessages } from './meeting-chat';
+import { ZonedDateParts, getZonedParts, formatLocalIso, formatZonedParts } from './timezone';
+
+/** Section titles for transcripts added to a note alongside its main transcript */
+const SOURCE_SECTION_TITLES: Record<TranscriptSourceKind, string> = {
+  recording: 'Cloud Recording',
+  ai_companion: 'AI Companion',
+};
+
+/** File name used unless the user sets a file name template; see TranscriptWriter.generateFileName() */
+export const DEFAULT_FILE_NAME_TEMPLATE = '{{topic}} - {{date}} {{time}}';
+
+/**
+ * The note layout used unless the user picks a template note. See note-template.ts for
+ * the template syntax and TranscriptWriter.getTemplateData() for the available fields.
+ */
+export const DEFAULT_NOTE_TEMPLATE = `---
+meeting_name: "{{topic | yaml}}"
+meeting_time: {{meeting_time}}
+{{#if meeting_time_local}}
+meeting_time_local: {{meeting_time_local}}
+{{/if}}
+meeting_duration: {{duration}}
+attendees:
+{{#each attendees}}
+  - {{name | yaml}}
+{{/each}}
+topic: "{{topic | yaml}}"
+host: "{{host | yaml}}"
+{{#if host_email}}
+host_email: "{{host_email | yaml}}"
+{{/if}}
+recording_url: "{{recording_url}}"
+zoom_meeting_id: "{{meeting_id}}"
+{{#if transcript_kind}}
+transcript_kind: {{transcript_kind}}
+{{/if}}
+{{#if tags}}
+tags:
+{{#each tags}}
+  - {{tag}}
+{{/each}}
+{{/if}}
+{{#if attendance}}
+attendance:
+{{#each attendees}}
+  - name: "{{name | yaml}}"
+{{#if email}}
+    email: "{{email | yaml}}"
+{{/if}}
+{{#if join_time}}
+    join_time: {{join_time}}
+{{/if}}
+{{#if leave_time}}
+    leave_time: {{leave_time}}
+{{/if}}
+{{#if minutes}}
+    duration_minutes: {{minutes}}
+{{/if}}
+{{/each}}
+{{/if}}
+synced_at: {{synced_at}}
+---
+
+{{#region header}}
+# {{topic}}
+
+**Date:** {{date}}
+**Duration:** {{duration}} minutes
+**Host:** {{host}}
+{{/region}}
+
+{{#region attendees}}
+## Attendees
+{{#if attendance}}
+
+| Name | Email | Joined | Left | Minutes |
+| --- | --- | --- | --- | --- |
+{{#each attendees}}
+| {{name | table}} | {{email | table}} | {{joined}} | {{left}} | {{minutes}} |
+{{/each}}
+{{else}}
+{{#each attendees}}
+- {{name}}
+{{/each}}
+{{/if}}
+{{/region}}
+
+{{#region transcript}}
+## Transcript
+
+{{transcript}}
+{{/region}}
+{{#if chat}}
+
+{{#region chat}}
+## Chat
+
+{{chat}}
+{{/region}}
+{{/if}}
+`;
 
 /**
  * Represents a parsed VTT entry with timestamp, speaker, and text.
@@ -8,95 +129,275 @@ export interface VttEntry {
   timestamp: string;  // Format: "HH:MM:SS" (simplified from full timestamp)
   speaker: string;    // Extracted speaker name, empty string if not present
   text: string;       // The dialogue text
+  startMs?: number;   // Cue start in milliseconds; set on entries parsed from cues
+  endMs?: number;     // Cue end in milliseconds; set on entries parsed from cues
+  id?: string;        // Cue identifier, if the cue has one
+  voices?: VttVoiceSpan[];  // Text of each <v> voice span, if the cue has voice tags
+  segment?: number;   // Set on segment markers of stitched transcripts; speaker and text are empty,
+                      // timestamp is empty if the segment's start is unknown
+  chat?: boolean;     // Set on chat messages interleaved into the transcript; speaker is the sender
 }
 
 /**
- * Parses WebVTT format content and extracts entries.
- *
- * Expected VTT format:
+ * Text spoken by one voice in a cue, from a `<v Speaker>` span.
+ */
+export interface VttVoiceSpan {
+  speaker: string;
+  text: string;
+}
+
+/**
+ * Options that change how TranscriptWriter generates notes.
+ */
+export interface TranscriptWriterOptions {
+  chatMode?: ChatImportMode;  // How chat passed to generateTranscript() is added (default: "off")
+  timeZone?: string;          // IANA timezone for dates and times in notes and file names (default: "UTC")
+  template?: string;          // Note template (default: DEFAULT_NOTE_TEMPLATE)
+  fileNameTemplate?: string;  // File name template (default: DEFAULT_FILE_NAME_TEMPLATE)
+  folder?: string;            // Subfolder of the transcript folder for new notes; may use file name tokens
+  tags?: string[];            // Tags added to the note's frontmatter
+  paragraphs?: ParagraphOptions;  // Merge cues into speaker paragraphs (default: one block per cue)
+}
+
+/** A WebVTT timestamp, "HH:MM:SS.mmm" or "MM:SS.mmm", with hours, minutes, seconds and milliseconds groups */
+const VTT_TIMESTAMP = '(?:(\\d{2,}):)?([0-5]\\d):([0-5]\\d)\\.(\\d{3})';
+
+/** A cue timing line: start and end timestamps, then optional cue settings such as "align:start" */
+const CUE_TIMING_PATTERN = new RegExp(`^${VTT_TIMESTAMP}[ \\t]*-->[ \\t]*${VTT_TIMESTAMP}(?:[ \\t]+.*)?$`);
+
+const VTT_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', lrm: '', rlm: '',
+};
+
+function toMilliseconds(hours: string | undefined, minutes: string, seconds: string, millis: string): number {
+  return ((parseInt(hours ?? '0', 10) * 60 + parseInt(minutes, 10)) * 60 + parseInt(seconds, 10)) * 1000 + parseInt(millis, 10);
+}
+
+function decodeVttEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity: string, name: string) => {
+    if (name.startsWith('#')) {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return VTT_ENTITIES[name] ?? entity;
+  });
+}
+
+/**
+ * Splits cue text into runs by voice, dropping other tags (classes, italics, ruby,
+ * karaoke timestamps) and decoding character references.
+ */
+function parseCueText(payload: string): { speaker: string | null; text: string }[] {
+  const runs: { speaker: string | null; text: string }[] = [];
+  let voice: string | null = null;
+
+  const pattern = /<([^>]*)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(payload)) !== null) {
+    const [, tag, text] = match;
+    if (tag === undefined) {
+      const last = runs[runs.length - 1];
+      if (last && last.speaker === voice) {
+        last.text += decodeVttEntities(text);
+      } else {
+        runs.push({ speaker: voice, text: decodeVttEntities(text) });
+      }
+      continue;
+    }
+    // "<v Speaker>" or "<v.class Speaker>" starts a voice span; "</v>" ends it
+    const voiceStart = tag.match(/^v(?:\.[^\s]*)?\s+(.+)$/);
+    if (voiceStart) {
+      voice = decodeVttEntities(voiceStart[1].trim());
+    } else if (tag === '/v') {
+      voice = null;
+    }
+  }
+
+  return runs
+    .map(run => ({ speaker: run.speaker, text: run.text.replace(/\s+/g, ' ').trim() }))
+    .filter(run => run.text.length > 0);
+}
+
+/**
+ * Splits "Speaker Name: Dialogue text", the way Zoom writes speakers without voice tags.
+ */
+function splitSpeakerPrefix(dialogue: string): { speaker: string; text: string } {
+  const colonIndex = dialogue.indexOf(':');
+  if (colonIndex > 0) {
+    const potentialSpeaker = dialogue.substring(0, colonIndex).trim();
+    const afterColon = dialogue.substring(colonIndex + 1).trim();
+    // A URL scheme like "http" is not a speaker
+    if (!potentialSpeaker.match(/^https?$/i) && afterColon.length > 0) {
+      return { speaker: potentialSpeaker, text: afterColon };
+    }
+  }
+  return { speaker: '', text: dialogue };
+}
+
+/**
+ * Parses WebVTT content into cue entries, following the WebVTT parsing rules:
  * ```
  * WEBVTT
  *
- * 1
- * 00:00:16.239 --> 00:00:27.079
- * Speaker Name: Dialogue text
+ * NOTE Comments, STYLE and REGION blocks are skipped
+ *
+ * intro
+ * 00:16.239 --> 00:00:27.079 align:start line:90%
+ * <v John Smith>Dialogue text</v>
  * ```
+ * - Cues may have an identifier line, "MM:SS.mmm" timestamps and cue settings
+ * - Start and end times are kept in milliseconds; timestamp is the start as "HH:MM:SS"
+ * - The speaker comes from `<v>` voice tags, or else from a "Speaker Name:" prefix.
+ *   A cue with several voices has no single speaker; its text names each one
+ * - Other cue tags are dropped and character references decoded
+ * - A cue's lines are joined with spaces; cues left without text are skipped
+ *
+ * The WEBVTT header is optional, and blocks that are not valid cues are skipped.
+ * Segment NOTE blocks written by stitchTranscripts() become marker entries.
  *
  * @param vttContent - Raw VTT file content
  * @returns Array of parsed VTT entries
  */
 export function parseVtt(vttContent: string): VttEntry[] {
   const entries: VttEntry[] = [];
-
-  // Split content into lines and normalize line endings
-  const lines = vttContent.replace(/\r\n/g, '\n').split('\n');
-
-  // Regex to match timestamp lines: "00:00:16.239 --> 00:00:27.079"
-  const timestampRegex = /^(\d{2}:\d{2}:\d{2})\.\d{3}\s*-->\s*\d{2}:\d{2}:\d{2}\.\d{3}$/;
+  const lines = vttContent.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  const isBlank = (index: number) => lines[index].trim() === '';
 
   let i = 0;
-  while (i < lines.length) {
-    const line = lines[i].trim();
-
-    // Check if this line is a timestamp line
-    const timestampMatch = line.match(timestampRegex);
-    if (timestampMatch) {
-      const timestamp = timestampMatch[1]; // Extract "HH:MM:SS" portion
+  if (/^WEBVTT(?:[ \t]|$)/.test(lines[0])) {
+    // Header text runs to the first blank line
+    while (i < lines.length && !isBlank(i)) {
+      i++;
+    }
+  }
 
-      // Next line(s) should contain the dialogue
+  while (i < lines.length) {
+    if (isBlank(i)) {
       i++;
-      const dialogueLines: string[] = [];
+      continue;
+    }
+    const firstLine = lines[i].trim();
 
-      // Collect dialogue lines until we hit an empty line or end of content
-      while (i < lines.length && lines[i].trim() !== '') {
-        dialogueLines.push(lines[i].trim());
+    if (/^(?:NOTE|STYLE|REGION)(?:[ \t]|$)/.test(firstLine) && !firstLine.includes('-->')) {
+      const segmentMatch = firstLine.match(SEGMENT_NOTE_PATTERN);
+      if (segmentMatch) {
+        entries.push({ timestamp: segmentMatch[2] ?? '', speaker: '', text: '', segment: parseInt(segmentMatch[1], 10) });
+      }
+      while (i < lines.length && !isBlank(i)) {
         i++;
       }
+      continue;
+    }
 
-      if (dialogueLines.length > 0) {
-        const fullDialogue = dialogueLines.join(' ');
-
-        // Extract speaker and text from dialogue line
-        // Format: "Speaker Name: Dialogue text"
-        const colonIndex = fullDialogue.indexOf(':');
-
-        let speaker = '';
-        let text = fullDialogue;
-
-        if (colonIndex > 0) {
-          // Check if the part before colon looks like a speaker name
-          // (not a URL scheme like "http" or "https")
-          const potentialSpeaker = fullDialogue.substring(0, colonIndex).trim();
-          const afterColon = fullDialogue.substring(colonIndex + 1).trim();
-
-          // Simple heuristic: speaker names don't start with common URL schemes
-          // and typically don't contain special characters
-          if (!potentialSpeaker.match(/^https?$/i) && afterColon.length > 0) {
-            speaker = potentialSpeaker;
-            text = afterColon;
-          }
-        }
-
-        entries.push({
-          timestamp,
-          speaker,
-          text
-        });
+    // An identifier line is any line before the timing line
+    let id: string | undefined;
+    if (!firstLine.includes('-->')) {
+      id = firstLine;
+      i++;
+    }
+    const timing = i < lines.length ? lines[i].trim().match(CUE_TIMING_PATTERN) : null;
+    if (!timing) {
+      // Not a cue; skip the rest of the block
+      while (i < lines.length && !isBlank(i)) {
+        i++;
       }
+      continue;
     }
-
     i++;
+
+    // Cue text runs to a blank line, or to a line that starts the next cue
+    const payload: string[] = [];
+    while (i < lines.length && !isBlank(i) && !lines[i].includes('-->')) {
+      payload.push(lines[i].trim());
+      i++;
+    }
+
+    const runs = parseCueText(payload.join(' '));
+    if (runs.length === 0) {
+      continue;
+    }
+
+    const startMs = toMilliseconds(timing[1], timing[2], timing[3], timing[4]);
+    const voices = runs
+      .filter((run): run is VttVoiceSpan => run.speaker !== null)
+      .map(run => ({ speaker: run.speaker, text: run.text }));
+    const dialogue = runs.map(run => run.text).join(' ');
+    let speaker: { speaker: string; text: string };
+    if (voices.length === 0) {
+      speaker = splitSpeakerPrefix(dialogue);
+    } else if (voices.length === runs.length && voices.every(voice => voice.speaker === voices[0].speaker)) {
+      speaker = { speaker: voices[0].speaker, text: dialogue };
+    } else {
+      speaker = { speaker: '', text: runs.map(run => run.speaker ? `${run.speaker}: ${run.text}` : run.text).join(' ') };
+    }
+
+    const entry: VttEntry = {
+      timestamp: formatTimestampMs(startMs, false),
+      speaker: speaker.speaker,
+      text: speaker.text,
+      startMs,
+      endMs: toMilliseconds(timing[5], timing[6], timing[7], timing[8]),
+    };
+    if (id !== undefined) {
+      entry.id = id;
+    }
+    if (voices.length > 0) {
+      entry.voices = voices;
+    }
+    entries.push(entry);
   }
 
   return entries;
 }
 
+/**
+ * Parses a transcript in any of the formats Zoom delivers: WebVTT, or the JSON and
+ * plain-text formats of transcript-formats.ts. A stitched transcript that is not
+ * WebVTT is parsed one segment at a time, keeping its segment markers.
+ *
+ * @param content - Raw transcript content
+ * @returns Parsed entries, or an empty array if the transcript can't be parsed
+ */
+export function parseTranscript(content: string): VttEntry[] {
+  if (detectTranscriptFormat(content) === 'vtt') {
+    return parseVtt(content);
+  }
+
+  const entries: VttEntry[] = [];
+  let segmentLines: string[] = [];
+  const parseSegment = () => {
+    const segment = segmentLines.join('\n');
+    segmentLines = [];
+    entries.push(...(detectTranscriptFormat(segment) === 'json'
+      ? parseJsonTranscript(segment)
+      : parsePlainTextTranscript(segment)));
+  };
+
+  const lines = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  for (const [index, line] of lines.entries()) {
+    const segmentMatch = line.trim().match(SEGMENT_NOTE_PATTERN);
+    if (segmentMatch) {
+      parseSegment();
+      entries.push({ timestamp: segmentMatch[2] ?? '', speaker: '', text: '', segment: parseInt(segmentMatch[1], 10) });
+    } else if (!(index === 0 && /^WEBVTT(?:[ \t]|$)/.test(line))) {
+      segmentLines.push(line);
+    }
+  }
+  parseSegment();
+
+  // Segment markers alone are not a transcript
+  return entries.some(entry => entry.segment === undefined) ? entries : [];
+}
+
 /**
  * Formats VTT entries into readable Markdown format.
  *
  * Output format:
  * - With speaker: `**00:00:16 - Speaker Name:**\nDialogue text`
  * - Without speaker: `**00:00:16:**\nDialogue text`
+ * - Without timestamp: `**Speaker Name:**\nDialogue text`, or just the text
+ * - Segment marker: `### Segment 2 (00:42:10)`
+ * - Chat message: `> **00:01:23 - Sender (chat):**\n> Message text`
  *
  * Entries are separated by blank lines for readability.
  *
@@ -106,6 +407,18 @@ export function parseVtt(vttContent: string): VttEntry[] {
 export function formatVttEntries(entries: VttEntry[]): string {
   return entries
     .map((entry) => {
+      if (entry.segment !== undefined) {
+        return entry.timestamp ? `### Segment ${entry.segment} (${entry.timestamp})` : `### Segment ${entry.segment}`;
+      }
+      if (entry.chat) {
+        // Quoted so typed chat stands apart from spoken dialogue
+        return [`**${entry.timestamp} - ${entry.speaker} (chat):**`, ...entry.text.split('\n')]
+          .map(line => `> ${line}`)
+          .join('\n');
+      }
+      if (!entry.timestamp) {
+        return entry.speaker ? `**${entry.speaker}:**\n${entry.text}` : entry.text;
+      }
       const header = entry.speaker
         ? `**${entry.timestamp} - ${entry.speaker}:**`
         : `**${entry.timestamp}:**`;
@@ -115,291 +428,531 @@ export function formatVttEntries(entries: VttEntry[]): string {
 }
 
 /**
- * TranscriptWriter generates Markdown transcript files from Zoom recording data.
+ * Content for a generated note beyond the transcript and attendee names.
+ */
+export interface TranscriptExtras {
+  transcriptKind?: TranscriptKind;  // Recorded as transcript_kind in frontmatter
+  chat?: ChatMessage[];             // In-meeting chat, added according to the chatMode option
+  attendance?: Attendee[];          // Participant report; replaces the attendee names when present
+  host?: MeetingHost;               // Resolved meeting host
+}
+
+/**
+ * Places chat messages among transcript entries by time. A message goes before the
+ * first entry that starts after it, so it follows dialogue with the same timestamp.
+ *
+ * @param entries - Parsed transcript entries
+ * @param messages - Chat messages in time order
+ * @returns Entries with the chat messages added as chat entries
+ */
+export function interleaveChat(entries: VttEntry[], messages: ChatMessage[]): VttEntry[] {
+  const chat: VttEntry[] = messages.map(message => ({
+    timestamp: message.timestamp,
+    speaker: message.sender,
+    text: message.text,
+    chat: true,
+  }));
+
+  const merged: VttEntry[] = [];
+  let next = 0;
+  for (const entry of entries) {
+    // Segment markers without a start time cannot be placed in time; chat flows past them
+    while (next < chat.length && entry.timestamp && chat[next].timestamp < entry.timestamp) {
+      merged.push(chat[next++]);
+    }
+    merged.push(entry);
+  }
+  return merged.concat(chat.slice(next));
+}
+
+/**
+ * Limits for merging cues into speaker paragraphs.
+ */
+export interface ParagraphOptions {
+  maxGapMs: number;   // Longest pause between two cues of the same paragraph
+  maxLength: number;  // Characters a paragraph may reach before the next sentence starts a new one
+}
+
+/** A sentence: text up to ending punctuation that is followed by whitespace, or to the end */
+const SENTENCE_PATTERN = /\S[\s\S]*?(?:[.!?\u2026]+["'\u2019\u201D)\]]*(?=\s|$)|$)/g;
+
+/**
+ * Merges consecutive cues from the same speaker into paragraphs.
+ * A run of cues ends when the speaker changes, at a pause longer than maxGapMs, and at
+ * segment markers and chat messages, which are kept as they are. A run's text is
+ * reflowed into sentences that are packed into paragraphs of up to maxLength characters;
+ * a sentence longer than that is split where its cues start. Each paragraph keeps the
+ * timestamp of the cue its first sentence starts in.
+ *
+ * @param entries - Parsed transcript entries
+ * @param options - Pause and length limits
+ * @returns Entries with each run of cues replaced by its paragraphs
+ */
+export function mergeParagraphs(entries: VttEntry[], options: ParagraphOptions): VttEntry[] {
+  const merged: VttEntry[] = [];
+  let run: VttEntry[] = [];
+  const endRun = () => {
+    if (run.length > 0) {
+      merged.push(...splitParagraphs(run, options.maxLength));
+      run = [];
+    }
+  };
+
+  for (const entry of entries) {
+    const isCue = entry.segment === undefined && !entry.chat;
+    const previous = run[run.length - 1];
+    const paused = previous?.endMs !== undefined && entry.startMs !== undefined
+      && entry.startMs - previous.endMs > options.maxGapMs;
+    if (!isCue || !previous || entry.speaker !== previous.speaker || paused) {
+      endRun();
+    }
+    if (isCue) {
+      run.push(entry);
+    } else {
+      merged.push(entry);
+    }
+  }
+  endRun();
+
+  return merged;
+}
+
+/**
+ * Joins one speaker's run of cues and splits it into paragraphs; see mergeParagraphs().
+ */
+function splitParagraphs(cues: VttEntry[], maxLength: number): VttEntry[] {
+  // Join the cues, remembering where each one starts in the joined text
+  const parts: { cue: VttEntry; start: number }[] = [];
+  let text = '';
+  for (const cue of cues) {
+    const cueText = cue.text.replace(/\s+/g, ' ').trim();
+    if (cueText) {
+      text += text ? ' ' : '';
+      parts.push({ cue, start: text.length });
+      text += cueText;
+    }
+  }
+  const cueStarts = parts.map(part => part.start);
+  const cueAt = (offset: number) => {
+    let index = 0;
+    while (index + 1 < parts.length && parts[index + 1].start <= offset) {
+      index++;
+    }
+    return parts[index].cue;
+  };
+
+  // Paragraphs may break between sentences, and inside sentences too long to fit in one
+  const breaks: number[] = [];
+  const pattern = new RegExp(SENTENCE_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null && match[0].length > 0) {
+    const start = match.index;
+    const end = start + match[0].length;
+    breaks.push(start);
+    if (end - start > maxLength) {
+      breaks.push(...cueStarts.filter(offset => offset > start && offset < end));
+    }
+  }
+  breaks.push(text.length);
+
+  const paragraphs: VttEntry[] = [];
+  let paragraphStart = breaks[0] ?? 0;
+  for (let i = 1; i < breaks.length; i++) {
+    const isLast = i === breaks.length - 1;
+    const tooLong = !isLast && breaks[i + 1] - paragraphStart > maxLength;
+    if (isLast || tooLong) {
+      const first = cueAt(paragraphStart);
+      const last = cueAt(breaks[i] - 1);
+      paragraphs.push({
+        timestamp: first.timestamp,
+        speaker: first.speaker,
+        text: text.slice(paragraphStart, breaks[i]).trim(),
+        startMs: first.startMs,
+        endMs: last.endMs,
+      });
+      paragraphStart = breaks[i];
+    }
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Makes text safe to use in a file name.
+ *
+ * @param name - Text to sanitize
+ * @returns The text with unsafe characters removed or replaced; may be empty
+ */
+function sanitizeFileName(name: string): string {
+  return name
+    // Replace colon with " -" for readability (e.g., "Topic: Subtopic" -> "Topic - Subtopic")
+    .replace(/:/g, ' -')
+    // Remove unsafe filesystem characters: / \ * ? " < > |
+    .replace(/[/\\*?"<>|]/g, '')
+    // Remove single quotes for cleaner filenames
+    .replace(/'/g, '')
+    // Collapse multiple spaces into single space
+    .replace(/\s+/g, ' ')
+    // Trim leading/trailing whitespace
+    .trim();
+}
+
+/**
+ * TranscriptWriter generates Markdown transcript files from Zoom meeting data.
  * Coordinates frontmatter generation and body generation.
  */
 export class TranscriptWriter {
-  private recording: ZoomRecording;
+  private meeting: SourceMeeting;
+  private options: TranscriptWriterOptions;
 
   /**
    * Creates a new TranscriptWriter instance.
-   * @param recording - Zoom recording metadata
+   * @param meeting - Meeting metadata from the transcript source
+   * @param options - Generation options, usually taken from settings
    */
-  constructor(recording: ZoomRecording) {
-    this.recording = recording;
+  constructor(meeting: SourceMeeting, options: TranscriptWriterOptions = {}) {
+    this.meeting = meeting;
+    this.options = options;
   }
 
   /**
-   * Generates a filesystem-safe filename from the meeting topic.
-   * Sanitizes the title by removing/replacing unsafe characters.
+   * Generates a filesystem-safe filename from the file name template
+   * (DEFAULT_FILE_NAME_TEMPLATE unless the options give another).
+   *
+   * Template tokens:
+   * - {{topic}}: meeting topic, or "Untitled Meeting" if it is empty
+   * - {{date}}, {{date:FORMAT}}: meeting start date, "YYYY-MM-DD" by default
+   * - {{time}}, {{time:FORMAT}}: meeting start time, "HHmm" by default
+   * - {{host}}: host name, or empty if unknown
+   * - {{id}}, {{uuid}}: meeting ID and occurrence UUID
+   * Dates and times are in the writer's timezone; FORMAT uses the tokens of formatZonedParts().
+   * The folder option, rendered with the same tokens, is put in front of the name.
    *
    * Unsafe characters removed/replaced:
    * - / \ : * ? " < > | (filesystem unsafe)
    * - Leading/trailing whitespace trimmed
-   * - Length limited to 200 characters (before extension)
+   * - Topic limited to 200 characters; with a custom template, the whole name (before
+   *   extension) is limited to 200 characters too, shortening the topic first
    *
    * @param includeId - If true, appends the meeting ID before .md extension for collision prevention
-   * @returns Sanitized filename with .md extension
+   * @param host - Resolved meeting host, for the {{host}} and folder tokens
+   * @returns Sanitized filename with .md extension, after the subfolder path if there is one
    *
    * @example
    * // topic: "Q4 Planning: What's Next?", start_time: "2025-12-10T14:30:00Z", id: 123456789
    * // generateFileName() returns: "Q4 Planning - Whats Next - 2025-12-10 1430.md"
    * // generateFileName(true) returns: "Q4 Planning - Whats Next - 2025-12-10 1430 (123456789).md"
    */
-  generateFileName(includeId?: boolean): string {
-    const topic = this.recording.topic || 'Untitled Meeting';
-
-    // Sanitize the topic for filesystem safety
-    let sanitized = topic
-      // Replace colon with " -" for readability (e.g., "Topic: Subtopic" -> "Topic - Subtopic")
-      .replace(/:/g, ' -')
-      // Remove unsafe filesystem characters: / \ * ? " < > |
-      .replace(/[/\\*?"<>|]/g, '')
-      // Remove single quotes for cleaner filenames
-      .replace(/'/g, '')
-      // Collapse multiple spaces into single space
-      .replace(/\s+/g, ' ')
-      // Trim leading/trailing whitespace
-      .trim();
+  generateFileName(includeId?: boolean, host?: MeetingHost): string {
+    const template = this.options.fileNameTemplate || DEFAULT_FILE_NAME_TEMPLATE;
+    // Limit the topic to 200 characters (reasonable filesystem limit)
+    const topic = (sanitizeFileName(this.meeting.topic || '') || 'Untitled Meeting').substring(0, 200).trim();
 
-    // Handle edge case of empty result after sanitization
-    if (sanitized.length === 0) {
-      sanitized = 'Untitled Meeting';
-    }
+    let baseName = this.renderFileName(template, topic, host);
 
-    // Limit length to 200 characters (reasonable filesystem limit)
-    if (sanitized.length > 200) {
-      sanitized = sanitized.substring(0, 200).trim();
+    // A custom template's whole name is limited as well, taking it off the topic first
+    if (template !== DEFAULT_FILE_NAME_TEMPLATE && baseName.length > 200) {
+      const shortTopic = topic.substring(0, Math.max(topic.length - (baseName.length - 200), 1)).trim();
+      baseName = this.renderFileName(template, shortTopic, host).substring(0, 200).trim();
     }
 
-    // Format the meeting time as "YYYY-MM-DD HHMM" for the filename suffix
-    const timeSuffix = this.formatTimeForFilename(this.recording.start_time);
+    // Handle edge case of empty result after sanitization
+    if (baseName.length === 0) {
+      baseName = 'Untitled Meeting';
+    }
 
-    // Build filename with time suffix
-    const baseName = timeSuffix ? `${sanitized} - ${timeSuffix}` : sanitized;
+    const folder = this.renderFolder(topic, host);
+    const prefix = folder ? `${folder}/` : '';
 
     // Append meeting ID if requested (for collision prevention)
     if (includeId) {
-      return `${baseName} (${this.recording.id}).md`;
+      return `${prefix}${baseName} (${this.meeting.id}).md`;
     }
 
-    return `${baseName}.md`;
+    return `${prefix}${baseName}.md`;
   }
 
   /**
-   * Formats an ISO 8601 date string into a filesystem-safe format for filenames.
-   * Example: "2025-12-10T14:30:00Z" -> "2025-12-10 1430"
+   * Renders the folder option into a subfolder path. Each folder name is sanitized like
+   * a file name; names that come out empty, and "." or "..", are left out.
+   *
+   * @param topic - Sanitized topic
+   * @param host - Resolved meeting host
+   * @returns Subfolder path without leading or trailing slashes, or empty string for none
+   */
+  private renderFolder(topic: string, host?: MeetingHost): string {
+    return (this.options.folder || '')
+      .split('/')
+      .map(segment => this.renderFileName(segment, topic, host))
+      .filter(segment => segment.length > 0 && !/^\.+$/.test(segment))
+      .join('/');
+  }
+
+  /**
+   * Fills in a file name template and sanitizes the result.
+   *
+   * @param template - File name template
+   * @param topic - Sanitized topic
+   * @param host - Resolved meeting host
+   * @returns Sanitized file name without extension
+   */
+  private renderFileName(template: string, topic: string, host?: MeetingHost): string {
+    const start = this.getLocalParts(this.meeting.start_time);
+
+    const name = template.replace(/\{\{\s*(\w+)(?::([^}]*))?\s*\}\}/g, (token: string, field: string, format?: string) => {
+      switch (field) {
+        case 'topic':
+          return topic;
+        case 'date':
+          return start ? formatZonedParts(start, format || 'YYYY-MM-DD') : '';
+        case 'time':
+          return start ? formatZonedParts(start, format || 'HHmm') : '';
+        case 'host':
+          return host?.name || '';
+        case 'id':
+          return String(this.meeting.id || '');
+        case 'uuid':
+          return this.meeting.uuid;
+        default:
+          return token;
+      }
+    });
+
+    // Separators around tokens that came out empty are dropped, e.g. "Topic - " without a date
+    return sanitizeFileName(name).replace(/^[\s-]+|[\s-]+$/g, '');
+  }
+
+  /**
+   * Gets the timezone used for dates and times in the note.
+   */
+  private getTimeZone(): string {
+    return this.options.timeZone || 'UTC';
+  }
+
+  /**
+   * Splits an ISO 8601 date string into its date and time in the writer's timezone.
    *
    * @param isoDate - ISO 8601 date string
-   * @returns Formatted date string safe for filenames, or empty string if invalid
+   * @returns Local date and time, or null if missing or invalid
    */
-  private formatTimeForFilename(isoDate: string | undefined): string {
+  private getLocalParts(isoDate: string | undefined): ZonedDateParts | null {
     if (!isoDate) {
-      return '';
+      return null;
     }
 
     const date = new Date(isoDate);
 
     // Check for invalid date
     if (isNaN(date.getTime())) {
-      return '';
+      return null;
     }
 
-    const year = date.getUTCFullYear();
-    const month = String(date.getUTCMonth() + 1).padStart(2, '0');
-    const day = String(date.getUTCDate()).padStart(2, '0');
-    const hours = String(date.getUTCHours()).padStart(2, '0');
-    const minutes = String(date.getUTCMinutes()).padStart(2, '0');
-
-    return `${year}-${month}-${day} ${hours}${minutes}`;
+    return getZonedParts(date, this.getTimeZone());
   }
 
   /**
-   * Generates a complete Markdown transcript file.
-   * Combines YAML frontmatter with formatted transcript body.
+   * Generates a complete Markdown transcript file by rendering the note template
+   * (DEFAULT_NOTE_TEMPLATE unless the options give another).
    *
    * @param vttContent - Raw VTT file content
-   * @param attendees - List of attendee names
+   * @param attendees - List of attendee names, used when there is no attendance report
+   * @param extras - Transcript kind, chat, attendance and host to include
    * @returns Complete Markdown file content with frontmatter and transcript
+   * @throws TemplateSyntaxError if the template in the options cannot be parsed
    */
-  generateTranscript(vttContent: string, attendees: string[]): string {
-    const frontmatter = this.generateFrontmatter(attendees);
-    const body = this.generateBody(vttContent, attendees);
-
-    return `${frontmatter}\n\n${body}`;
+  generateTranscript(vttContent: string, attendees: string[], extras: TranscriptExtras = {}): string {
+    const template = new NoteTemplate(this.options.template ?? DEFAULT_NOTE_TEMPLATE);
+    return template.render(this.getTemplateData(vttContent, attendees, extras)).replace(/\s+$/, '');
   }
 
   /**
-   * Generates YAML frontmatter for the transcript.
+   * Collects the values a note template can use.
    *
-   * Fields included:
-   * - meeting_name: from recording topic
-   * - meeting_time: ISO 8601 timestamp from recording start_time
-   * - meeting_duration: duration in minutes
-   * - attendees: array of attendee names
-   * - topic: from recording topic
-   * - host: empty string (not available from ZoomRecording)
-   * - recording_url: play_url from first recording file, or empty
-   * - zoom_meeting_id: recording id as string
+   * Fields:
+   * - topic, meeting_id, meeting_uuid, duration (minutes)
+   * - meeting_time: ISO 8601 timestamp from meeting start_time
+   * - meeting_time_local: meeting start as local time with UTC offset, in the writer's timezone
+   * - date ("January 15, 2025") and time ("09:00") of the meeting start, in the writer's timezone
+   * - timezone: the writer's timezone
+   * - host, host_email: resolved host, or empty
+   * - recording_url: link to the recording, or empty
+   * - transcript_kind: audio_transcript, closed_caption or ai_companion, or empty
+   * - tags: list of tag, from the routing rule that matched the meeting
    * - synced_at: current timestamp in ISO 8601 format
+   * - attendance: true when attendees come from the participant report
+   * - attendees: list of name, email, join_time, leave_time (ISO 8601), joined, left
+   *   (local "HH:MM") and minutes; only name is set without a participant report
+   * - transcript: the formatted transcript, with chat interleaved in interleaved chat mode
+   * - entries: list of timestamp, end (cue end as HH:MM:SS), speaker, text, segment (segment markers)
+   *   and is_chat (chat messages)
+   * - chat, chat_messages: formatted chat and list of timestamp, sender and text, in section chat mode
    *
-   * @param attendees - List of attendee names
-   * @returns YAML frontmatter string including delimiters
+   * @param vttContent - Raw VTT file content
+   * @param attendees - List of attendee names, used when there is no attendance report
+   * @param extras - Transcript kind, chat, attendance and host
+   * @returns Template data
    */
-  protected generateFrontmatter(attendees: string[]): string {
-    const meetingName = this.escapeYamlString(this.recording.topic || '');
-    const meetingTime = this.recording.start_time || '';
-    const meetingDuration = this.recording.duration || 0;
-    const topic = this.escapeYamlString(this.recording.topic || '');
-    const host = ''; // Not available from ZoomRecording type
-    const recordingUrl = this.getRecordingUrl();
-    const zoomMeetingId = String(this.recording.id || '');
-    const syncedAt = new Date().toISOString();
-
-    const attendeeLines = attendees
-      .map((name) => `  - ${this.escapeYamlString(name)}`)
-      .join('\n');
-
-    const frontmatter = `---
-meeting_name: "${meetingName}"
-meeting_time: ${meetingTime}
-meeting_duration: ${meetingDuration}
-attendees:
-${attendeeLines}
-topic: "${topic}"
-host: "${host}"
-recording_url: "${recordingUrl}"
-zoom_meeting_id: "${zoomMeetingId}"
-synced_at: ${syncedAt}
----`;
-
-    return frontmatter;
+  protected getTemplateData(vttContent: string, attendees: string[], extras: TranscriptExtras = {}): TemplateData {
+    const { transcriptKind, chat = [], host } = extras;
+    const attendance = extras.attendance?.length ? extras.attendance : undefined;
+    const chatMode = this.options.chatMode ?? 'off';
+    const parsed = this.parseEntries(vttContent);
+    const entries = chatMode === 'interleaved' && chat.length > 0 ? interleaveChat(parsed, chat) : parsed;
+    const sectionChat = chatMode === 'section' ? chat : [];
+
+    return {
+      topic: this.meeting.topic || '',
+      meeting_id: String(this.meeting.id || ''),
+      meeting_uuid: this.meeting.uuid,
+      meeting_time: this.meeting.start_time || '',
+      meeting_time_local: this.formatLocalTime(this.meeting.start_time),
+      date: this.formatDate(this.meeting.start_time),
+      time: this.formatClockTime(this.meeting.start_time),
+      timezone: this.getTimeZone(),
+      duration: this.meeting.duration || 0,
+      host: host?.name || '',
+      host_email: host?.email || '',
+      recording_url: this.getRecordingUrl(),
+      transcript_kind: transcriptKind || '',
+      tags: (this.options.tags ?? []).map(tag => ({ tag })),
+      synced_at: new Date().toISOString(),
+      attendance: attendance !== undefined,
+      attendees: attendance
+        ? attendance.map(attendee => ({
+          name: attendee.name,
+          email: attendee.email || '',
+          join_time: attendee.joinTime || '',
+          leave_time: attendee.leaveTime || '',
+          joined: this.formatClockTime(attendee.joinTime),
+          left: this.formatClockTime(attendee.leaveTime),
+          minutes: attendee.durationMinutes !== undefined ? String(attendee.durationMinutes) : '',
+        }))
+        : attendees.map(name => ({
+          name, email: '', join_time: '', leave_time: '', joined: '', left: '', minutes: '',
+        })),
+      transcript: this.formatTranscript(vttContent, parsed, entries),
+      entries: entries.map(entry => ({
+        timestamp: entry.timestamp,
+        end: entry.endMs !== undefined ? formatTimestampMs(entry.endMs, false) : '',
+        speaker: entry.speaker,
+        text: entry.text,
+        segment: entry.segment,
+        is_chat: entry.chat ?? false,
+      })),
+      chat: formatChatMessages(sectionChat),
+      chat_messages: sectionChat.map(message => ({ ...message })),
+    };
   }
 
   /**
-   * Escapes special characters in a string for safe YAML output.
-   * Handles quotes and backslashes.
+   * Formats an ISO 8601 date string as local time with a UTC offset in the writer's timezone.
+   * Example: "2025-12-10T14:30:00Z" -> "2025-12-10T06:30:00-08:00" (America/Los_Angeles)
    *
-   * @param value - The string value to escape
-   * @returns Escaped string safe for YAML
+   * @param isoDate - ISO 8601 date string
+   * @returns Local ISO 8601 timestamp, or empty string if missing or invalid
    */
-  private escapeYamlString(value: string): string {
-    return value
-      .replace(/\\/g, '\\\\')  // Escape backslashes first
-      .replace(/"/g, '\\"');   // Escape double quotes
+  private formatLocalTime(isoDate: string | undefined): string {
+    const date = new Date(isoDate ?? '');
+    if (!isoDate || isNaN(date.getTime())) {
+      return '';
+    }
+    return formatLocalIso(date, this.getTimeZone());
   }
 
   /**
-   * Gets the recording URL from the first available recording file.
+   * Gets the link to the meeting's recording.
    *
-   * @returns The play_url from the first recording file, or empty string
+   * @returns The recording URL, or empty string if the source has none
    */
   private getRecordingUrl(): string {
-    if (
-      this.recording.recording_files &&
-      this.recording.recording_files.length > 0
-    ) {
-      return this.recording.recording_files[0].play_url || '';
-    }
-    return '';
+    return this.meeting.recordingUrl || '';
   }
 
   /**
-   * Generates the Markdown body from VTT content.
-   * Includes header section, attendees section, and transcript section.
+   * Formats an ISO 8601 date string into human-readable format, in the writer's timezone.
+   * Example: "2025-12-10T10:00:00Z" -> "December 10, 2025" (UTC)
    *
-   * @param vttContent - Raw VTT file content
-   * @param attendees - List of attendee names
-   * @returns Formatted Markdown transcript body
+   * @param isoDate - ISO 8601 date string
+   * @returns Human-readable date string (e.g., "December 10, 2025")
    */
-  protected generateBody(vttContent: string, attendees: string[]): string {
-    const header = this.generateHeader();
-    const attendeesSection = this.generateAttendeesSection(attendees);
-    const transcriptSection = this.generateTranscriptSection(vttContent);
+  private formatDate(isoDate: string | undefined): string {
+    const parts = this.getLocalParts(isoDate);
+    if (!parts) {
+      return '';
+    }
 
-    return `${header}\n\n${attendeesSection}\n\n${transcriptSection}`;
+    return formatZonedParts(parts, 'MMMM D, YYYY');
   }
 
   /**
-   * Generates the header section with meeting topic, date, duration, and host.
+   * Formats an ISO 8601 date string as an "HH:MM" time of day in the writer's timezone.
    *
-   * @returns Header section as Markdown string
+   * @param isoDate - ISO 8601 date string
+   * @returns Time of day, or empty string if missing or invalid
    */
-  private generateHeader(): string {
-    const topic = this.recording.topic || '';
-    const date = this.formatDate(this.recording.start_time);
-    const duration = this.recording.duration || 0;
-    const host = ''; // Not available from ZoomRecording type
-
-    const lines = [
-      `# ${topic}`,
-      '',
-      `**Date:** ${date}`,
-      `**Duration:** ${duration} minutes`,
-      `**Host:** ${host}`
-    ];
-
-    return lines.join('\n');
+  private formatClockTime(isoDate: string | undefined): string {
+    const parts = this.getLocalParts(isoDate);
+    if (!parts) {
+      return '';
+    }
+    return formatZonedParts(parts, 'HH:mm');
   }
 
   /**
-   * Formats an ISO 8601 date string into human-readable format.
-   * Example: "2025-12-10T10:00:00Z" -> "December 10, 2025"
+   * Generates the transcript section with H2 header and formatted entries.
    *
-   * @param isoDate - ISO 8601 date string
-   * @returns Human-readable date string (e.g., "December 10, 2025")
+   * @param vttContent - Raw VTT file content
+   * @param title - Section heading
+   * @returns Transcript section as Markdown string
    */
-  private formatDate(isoDate: string | undefined): string {
-    if (!isoDate) {
-      return '';
-    }
-
-    const date = new Date(isoDate);
+  private generateTranscriptSection(vttContent: string, title: string): string {
+    const entries = this.parseEntries(vttContent);
+    const formattedTranscript = this.formatTranscript(vttContent, entries, entries);
 
-    // Check for invalid date
-    if (isNaN(date.getTime())) {
-      return '';
-    }
-
-    const months = [
-      'January', 'February', 'March', 'April', 'May', 'June',
-      'July', 'August', 'September', 'October', 'November', 'December'
-    ];
-
-    const month = months[date.getUTCMonth()];
-    const day = date.getUTCDate();
-    const year = date.getUTCFullYear();
-
-    return `${month} ${day}, ${year}`;
+    return `## ${title}\n\n${formattedTranscript}`;
   }
 
   /**
-   * Generates the attendees section with H2 header and bulleted list.
+   * Parses a transcript in any supported format into entries, merged into paragraphs if the
+   * paragraphs option is set.
    *
-   * @param attendees - List of attendee names
-   * @returns Attendees section as Markdown string
+   * @param vttContent - Raw VTT file content
+   * @returns Transcript entries
    */
-  private generateAttendeesSection(attendees: string[]): string {
-    const lines = ['## Attendees'];
+  private parseEntries(vttContent: string): VttEntry[] {
+    const entries = parseTranscript(vttContent);
+    return this.options.paragraphs ? mergeParagraphs(entries, this.options.paragraphs) : entries;
+  }
 
-    for (const attendee of attendees) {
-      lines.push(`- ${attendee}`);
+  /**
+   * Formats transcript entries for the note. A transcript that couldn't be parsed is
+   * kept as raw text rather than leaving the note without one.
+   *
+   * @param vttContent - Raw transcript content
+   * @param parsed - Entries parsed from the transcript
+   * @param entries - Entries to format: the parsed ones, with any interleaved chat
+   * @returns Formatted transcript
+   */
+  private formatTranscript(vttContent: string, parsed: VttEntry[], entries: VttEntry[]): string {
+    if (parsed.length > 0) {
+      return formatVttEntries(entries);
     }
-
-    return lines.join('\n');
+    return [getRawTranscriptText(vttContent), formatVttEntries(entries)].filter(part => part).join('\n\n');
   }
 
   /**
-   * Generates the transcript section with H2 header and formatted entries.
+   * Generates a section holding a second source's transcript, for notes that keep
+   * transcripts from both sources.
    *
-   * @param vttContent - Raw VTT file content
-   * @returns Transcript section as Markdown string
+   * @param vttContent - Raw transcript content
+   * @param source - Source the transcript came from
+   * @returns Region name and section content to add with appendToVault()
    */
-  private generateTranscriptSection(vttContent: string): string {
-    const entries = parseVtt(vttContent);
-    const formattedTranscript = formatVttEntries(entries);
-
-    return `## Transcript\n\n${formattedTranscript}`;
+  generateSourceSection(vttContent: string, source: TranscriptSourceKind): { name: string; content: string } {
+    return {
+      name: `transcript-${source.replace(/_/g, '-')}`,
+      content: this.generateTranscriptSection(vttContent, `Transcript (${SOURCE_SECTION_TITLES[source]})`),
+    };
   }
 
   /**
@@ -408,7 +961,7 @@ synced_at: ${syncedAt}
    *
    * @param vault - Obsidian Vault instance for file operations
    * @param transcriptFolder - Path to the transcript folder within the vault
-   * @param fileName - Name of the file to check (not full path)
+   * @param fileName - Name of the file to check, optionally in a subfolder (not full path)
    * @returns true if file exists, false otherwise
    */
   static fileExists(vault: Vault, transcriptFolder: string, fileName: string): boolean {
@@ -418,35 +971,40 @@ synced_at: ${syncedAt}
   }
 
   /**
-   * Ensures the transcript folder exists.
-   * Uses vault.createFolder() to create the folder if it doesn't exist.
+   * Ensures a folder and its parent folders exist.
+   * Uses vault.createFolder() to create each folder on the path that doesn't exist.
    * Handles the case where the folder already exists without throwing an error.
    *
    * @param vault - Obsidian Vault instance for file operations
-   * @param transcriptFolder - Path to the transcript folder within the vault
+   * @param transcriptFolder - Path to the folder within the vault, e.g. "zoom-transcripts/Clients"
    * @returns Promise that resolves when folder exists
    */
   static async ensureFolderExists(vault: Vault, transcriptFolder: string): Promise<void> {
-    const folder: TAbstractFile | null = vault.getAbstractFileByPath(transcriptFolder);
-
-    if (folder === null) {
-      // Folder doesn't exist, create it
-      await vault.createFolder(transcriptFolder);
-    } else if (!(folder instanceof TFolder)) {
-      // Path exists but is not a folder (it's a file)
-      throw new Error(`Path "${transcriptFolder}" exists but is not a folder`);
+    let path = '';
+
+    for (const segment of transcriptFolder.split('/').filter(part => part.length > 0)) {
+      path = path ? `${path}/${segment}` : segment;
+      const folder: TAbstractFile | null = vault.getAbstractFileByPath(path);
+
+      if (folder === null) {
+        // Folder doesn't exist, create it
+        await vault.createFolder(path);
+      } else if (!(folder instanceof TFolder)) {
+        // Path exists but is not a folder (it's a file)
+        throw new Error(`Path "${path}" exists but is not a folder`);
+      }
+      // If folder already exists as TFolder, nothing to do
     }
-    // If folder already exists as TFolder, nothing to do
   }
 
   /**
    * Writes a transcript file to the vault.
-   * Ensures folder exists first, then checks for file collision before writing.
+   * Ensures the file's folder exists first, then checks for file collision before writing.
    * Uses vault.create() to write the file.
    *
    * @param vault - Obsidian Vault instance for file operations
    * @param transcriptFolder - Path to the transcript folder within the vault
-   * @param fileName - Name of the file to create (not full path)
+   * @param fileName - Name of the file to create, optionally in a subfolder (e.g. "Clients/Acme.md")
    * @param content - Content to write to the file
    * @returns Promise resolving to the file path that was created or already existed
    */
@@ -458,8 +1016,8 @@ synced_at: ${syncedAt}
   ): Promise<string> {
     const fullPath = `${transcriptFolder}/${fileName}`;
 
-    // Ensure the folder exists first
-    await TranscriptWriter.ensureFolderExists(vault, transcriptFolder);
+    // Ensure the folder exists first, including any subfolder in the file name
+    await TranscriptWriter.ensureFolderExists(vault, fullPath.substring(0, fullPath.lastIndexOf('/')));
 
     // Check if file already exists (skip if exists)
     if (TranscriptWriter.fileExists(vault, transcriptFolder, fileName)) {
@@ -471,21 +1029,151 @@ synced_at: ${syncedAt}
 
     return fullPath;
   }
+
+  /**
+   * Merges regenerated content into an existing transcript note, or creates the note
+   * if it is missing. Only managed regions and plugin-owned frontmatter keys are
+   * replaced; user edits outside them are preserved. Plugin-owned keys the new content
+   * no longer has, e.g. after a template change, are dropped.
+   *
+   * @param vault - Obsidian Vault instance for file operations
+   * @param transcriptFolder - Path to the transcript folder within the vault
+   * @param fileName - Name of the file to update (not full path)
+   * @param content - Newly generated file content
+   * @param previousKeys - Frontmatter keys the plugin last wrote to the note; none are
+   *                       dropped if they weren't recorded
+   * @returns Promise resolving to the file path that was written, or null if the
+   *          existing note has no managed regions and was left untouched
+   */
+  static async mergeIntoVault(
+    vault: Vault,
+    transcriptFolder: string,
+    fileName: string,
+    content: string,
+    previousKeys: string[] = []
+  ): Promise<string | null> {
+    const fullPath = `${transcriptFolder}/${fileName}`;
+    const file = vault.getAbstractFileByPath(fullPath);
+
+    if (!(file instanceof TFile)) {
+      return TranscriptWriter.writeToVault(vault, transcriptFolder, fileName, content);
+    }
+
+    const merged = mergeManagedNote(await vault.read(file), content, [...previousKeys, 'transcript_changed_at']);
+    if (merged === null) {
+      return null;
+    }
+
+    await vault.modify(file, merged);
+    return fullPath;
+  }
+
+  /**
+   * Adds a managed section to the end of an existing note, replacing the section if
+   * the note already has it.
+   *
+   * @param vault - Obsidian Vault instance for file operations
+   * @param transcriptFolder - Path to the transcript folder within the vault
+   * @param fileName - Name of the note to update (not full path)
+   * @param section - Region name and content, as from generateSourceSection()
+   * @returns true if the note was found and updated
+   */
+  static async appendToVault(
+    vault: Vault,
+    transcriptFolder: string,
+    fileName: string,
+    section: { name: string; content: string }
+  ): Promise<boolean> {
+    const file = vault.getAbstractFileByPath(`${transcriptFolder}/${fileName}`);
+    if (!(file instanceof TFile)) {
+      return false;
+    }
+
+    await vault.modify(file, appendManagedRegion(await vault.read(file), section.name, section.content));
+    return true;
+  }
+
+  /**
+   * Reads a note template from the vault.
+   *
+   * @param vault - Obsidian Vault instance for file operations
+   * @param templatePath - Vault path of the template note; ".md" may be left off
+   * @returns The template text, or null if there is no such note
+   */
+  static async readTemplate(vault: Vault, templatePath: string): Promise<string | null> {
+    const path = templatePath.endsWith('.md') ? templatePath : `${templatePath}.md`;
+    const file = vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      return null;
+    }
+    return vault.read(file);
+  }
+
+  /**
+   * Finds the next free "(vN)" file name for a regenerated transcript.
+   * Any existing version suffix on the given name is replaced, so versions stay flat.
+   *
+   * @example
+   * // "Standup - 2025-01-15 1000.md" -> "Standup - 2025-01-15 1000 (v2).md"
+   * // "Standup - 2025-01-15 1000 (v2).md" -> "Standup - 2025-01-15 1000 (v3).md"
+   */
+  static nextVersionFileName(vault: Vault, transcriptFolder: string, fileName: string): string {
+    const baseName = fileName.replace(/\.md$/, '').replace(/ \(v\d+\)$/, '');
+    let version = 2;
+    while (TranscriptWriter.fileExists(vault, transcriptFolder, `${baseName} (v${version}).md`)) {
+      version++;
+    }
+    return `${baseName} (v${version}).md`;
+  }
+
+  /**
+   * Marks an existing transcript note as out of date by setting `transcript_changed_at`
+   * in its frontmatter. The rest of the note is left untouched.
+   *
+   * @param vault - Obsidian Vault instance for file operations
+   * @param transcriptFolder - Path to the transcript folder within the vault
+   * @param fileName - Name of the note to flag (not full path)
+   * @param changedAt - ISO 8601 timestamp of when the change was detected
+   * @returns true if the note was found and flagged
+   */
+  static async flagTranscriptChanged(
+    vault: Vault,
+    transcriptFolder: string,
+    fileName: string,
+    changedAt: string
+  ): Promise<boolean> {
+    const file = vault.getAbstractFileByPath(`${transcriptFolder}/${fileName}`);
+    if (!(file instanceof TFile)) {
+      return false;
+    }
+
+    const content = await vault.read(file);
+    const flagLine = `transcript_changed_at: ${changedAt}`;
+    const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
+
+    let updated: string;
+    if (!frontmatterMatch) {
+      updated = `---\n${flagLine}\n---\n\n${content}`;
+    } else if (/^transcript_changed_at:.*$/m.test(frontmatterMatch[1])) {
+      const frontmatter = frontmatterMatch[1].replace(/^transcript_changed_at:.*$/m, flagLine);
+      updated = content.replace(frontmatterMatch[0], `---\n${frontmatter}\n---`);
+    } else {
+      updated = content.replace(frontmatterMatch[0], `---\n${frontmatterMatch[1]}\n${flagLine}\n---`);
+    }
+
+    await vault.modify(file, updated);
+    return true;
+  }
 }
 
 /**
  * Checks if a meeting should be synced based on sync state.
  * This is an optional efficiency check - secondary to file existence check.
  *
- * @param meetingId - The Zoom meeting ID to check
+ * @param meeting - The meeting occurrence to check (matched by UUID)
  * @param syncState - The current sync state
  * @returns false if already synced (skip), true if should sync
  */
-export function shouldSync(meetingId: string, syncState: SyncState): boolean {
-  // Check if meeting is already in sync state
-  if (meetingId in syncState.syncedMeetings) {
-    return false;
-  }
-
-  return true;
+export function shouldSync(meeting: MeetingOccurrence, syncState: SyncState): boolean {
+  return !isOccurrenceSynced(syncState, meeting);
 }
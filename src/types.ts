@@ -9,16 +9,277 @@ export interface ZoomSyncSettings {
   lastSyncTimestamp?: number;
   fetchRecordingTranscripts: boolean;    // Fetch transcripts from cloud recordings (default: true)
   fetchAICompanionTranscripts: boolean;  // Fetch transcripts from AI Companion (default: false)
+  transcriptUpdateMode: TranscriptUpdateMode;  // How to handle transcripts that changed on Zoom (default: "flag")
+  transcriptUpdateWindowDays: number;          // Days of already-synced meetings to re-check for changes (default: 7)
+  maxRetryAttempts: number;                    // Failed attempts before a meeting is given up on (default: 5)
+  lookbackOverlapHours: number;                // Hours before the last sync that incremental queries re-list (default: 24)
+  pendingTranscriptTimeoutHours: number;       // Hours after a meeting ends to keep waiting for its transcript (default: 72)
+  sourcePriority: SourcePriority;              // Which transcript wins when a meeting has both (default: "recording")
+  recordingTranscriptOrder: RecordingTranscriptOrder;  // Which recording file is used as the transcript (default: "audio_first")
+  chatImportMode: ChatImportMode;              // Whether and how in-meeting chat is added to notes (default: "off")
+  timezoneMode: TimezoneMode;                  // Which timezone dates and times in notes use (default: "system")
+  timezone: string;                            // IANA timezone used when timezoneMode is "zone" (default: "")
+  noteTemplatePath: string;                    // Vault path of a note template; empty for the default layout (default: "")
+  fileNameTemplate: string;                    // Template for note file names (default: "{{topic}} - {{date}} {{time}}")
+  routingRules: RoutingRule[];                 // Ordered rules choosing each new note's folder, tags and template (default: [])
+  filterTopicInclude: string;                  // Only sync meetings whose topic matches this regex; empty for all (default: "")
+  filterTopicExclude: string;                  // Skip meetings whose topic matches this regex; empty for none (default: "")
+  filterHostAllow: string;                     // Comma-separated host names/emails to sync exclusively (default: "")
+  filterHostDeny: string;                      // Comma-separated host names/emails never to sync (default: "")
+  filterMinDurationMinutes: number;            // Skip meetings shorter than this; 0 disables (default: 0)
+  filterMeetingTypes: string;                  // Comma-separated Zoom meeting types to sync; empty for all (default: "")
+  filterMinParticipants: number;               // Skip meetings with fewer participants; 0 disables (default: 0)
+  filterAttendeeEmail: string;                 // Only sync meetings this email attended; empty disables (default: "")
+  transcriptLayout: TranscriptLayout;          // How transcript cues are laid out in notes (default: "cues")
+  paragraphMaxGapSeconds: number;              // Longest pause within a paragraph in paragraph layout (default: 10)
+  paragraphMaxLength: number;                  // Characters after which a paragraph breaks at a sentence (default: 1000)
+}
+
+/**
+ * How transcript cues are laid out in notes.
+ * - cues: one block per cue, each with its timestamp and speaker
+ * - paragraphs: consecutive cues from the same speaker merged into paragraphs
+ */
+export type TranscriptLayout = 'cues' | 'paragraphs';
+
+/**
+ * How a note is updated when its transcript changes on Zoom after the first sync.
+ * - overwrite: regenerate the managed regions of the note in place, keeping user edits
+ * - version: write the regenerated note to a new "(vN)" file next to the original
+ * - flag: leave the note as is and mark it with `transcript_changed_at` in frontmatter
+ */
+export type TranscriptUpdateMode = 'overwrite' | 'version' | 'flag';
+
+/**
+ * What to do when a meeting has both a cloud recording transcript and an AI Companion transcript.
+ * - recording: use the cloud recording transcript, replacing an AI Companion one synced earlier
+ * - ai_companion: use the AI Companion transcript, replacing a cloud recording one synced earlier
+ * - both: keep each transcript as its own section of the note
+ */
+export type SourcePriority = TranscriptSourceKind | 'both';
+
+/**
+ * Which cloud recording file is used as a meeting's transcript.
+ * - audio_first: the audio transcript, or the closed captions if there is none
+ * - captions_first: the closed captions, or the audio transcript if there are none
+ * - audio_only: only the audio transcript
+ */
+export type RecordingTranscriptOrder = 'audio_first' | 'captions_first' | 'audio_only';
+
+/**
+ * Kind of transcript a note was written from, recorded as `transcript_kind` in its frontmatter.
+ * - audio_transcript: the cloud recording's audio transcript
+ * - closed_caption: the live closed captions saved with the cloud recording
+ * - ai_companion: the AI Companion transcript
+ */
+export type TranscriptKind = RecordingTranscriptKind | 'ai_companion';
+
+export type RecordingTranscriptKind = 'audio_transcript' | 'closed_caption';
+
+/**
+ * How the in-meeting chat saved with a cloud recording is added to its note.
+ * - off: chat is not imported
+ * - section: chat messages are listed in their own "## Chat" section after the transcript
+ * - interleaved: chat messages are placed in the transcript by time, quoted and labeled as chat
+ */
+export type ChatImportMode = 'off' | 'section' | 'interleaved';
+
+/**
+ * Which timezone is used for dates and times in notes and file names.
+ * - system: the timezone of the computer running Obsidian
+ * - zone: the IANA timezone entered in settings
+ * - host: the meeting host's timezone from their Zoom profile, or the system timezone if unknown
+ */
+export type TimezoneMode = 'system' | 'zone' | 'host';
+
+/**
+ * Which meetings a routing rule applies to.
+ * - all: every meeting
+ * - topic: meetings whose topic matches the pattern, a case-insensitive regular expression
+ * - host: meetings whose host name or email equals the pattern, ignoring case
+ * - series: meetings whose ID is in the pattern, a comma-separated list of meeting IDs
+ */
+export type RoutingMatch = 'all' | 'topic' | 'host' | 'series';
+
+/**
+ * A folder routing rule. The first rule that matches a meeting decides where its note goes.
+ */
+export interface RoutingRule {
+  match: RoutingMatch;
+  pattern: string;
+  folder: string;     // Subfolder of the transcript folder; may use file name template tokens, e.g. "{{date:YYYY}}/{{date:MM}}"
+  tags: string;       // Comma-separated tags added to the note's frontmatter
+  template: string;   // Vault path of a note template; empty for the Note Template setting
+}
+
+/**
+ * What a sync run does (or, in a dry run, would do) with a listed meeting.
+ * - create: a new note is written under its normal file name
+ * - rename: a new note is written with the meeting ID appended because the name is taken
+ * - skip: the occurrence was already synced
+ * - filter: the meeting is left out, e.g. because it has no transcript
+ */
+export type SyncPlanAction = 'create' | 'rename' | 'skip' | 'filter';
+
+export type TranscriptSourceKind = 'recording' | 'ai_companion';
+
+/**
+ * One meeting in a sync plan, as shown in the dry-run preview.
+ */
+export interface SyncPlanItem {
+  uuid: string;
+  id: number;
+  topic: string;
+  startTime: string;
+  source: TranscriptSourceKind;
+  action: SyncPlanAction;
+  fileName?: string;        // Note file name for create/rename/skip
+  reason?: string;          // Why the meeting was filtered out
+}
+
+/**
+ * Progress reported while a sync runs, shown in the status bar.
+ */
+export type SyncProgress =
+  | { phase: 'listing-users' }
+  | {
+      phase: 'listing';
+      source: TranscriptSourceKind;
+      userIndex: number;      // 1-based
+      userCount: number;
+      month: number;          // 1-based index of the date window being listed
+      monthCount: number;
+    }
+  | { phase: 'downloading'; source: TranscriptSourceKind; current: number; total: number };
+
+/**
+ * Options for a single sync run.
+ */
+export interface SyncOptions {
+  dryRun?: boolean;         // Work out the plan without downloading or writing anything
+  fullResync?: boolean;     // Ignore lastSyncTimestamp and list from the default lookback
+  onlyUuids?: Set<string>;  // Restrict the run to these occurrences (e.g. ticked in the preview)
+}
+
+/**
+ * Identifies a single meeting occurrence.
+ * `uuid` is unique per occurrence, while `id` is the numeric meeting ID shared by
+ * every occurrence of a recurring meeting or a reused Personal Meeting ID.
+ */
+export interface MeetingOccurrence {
+  uuid: string;
+  id: number;
+  start_time: string;
+}
+
+/**
+ * A meeting occurrence as reported by a transcript source, normalized so notes are
+ * written the same way whichever source supplied the transcript.
+ */
+export interface SourceMeeting extends MeetingOccurrence {
+  topic: string;
+  duration: number;         // Minutes
+  recordingUrl?: string;    // Link to play the recording, if the source has one
+  type?: number;            // Zoom meeting type, e.g. 1 instant, 2 scheduled, 8 recurring
+  participantCount?: number;  // Number of participants, if the listing reports it
+}
+
+/**
+ * Remote metadata used to detect a changed transcript without downloading it.
+ */
+export interface RemoteTranscriptInfo {
+  fileId: string;           // Recording file ID(s), or meeting ID for AI Companion transcripts
+  fileSize?: number;
+  createdAt?: string;       // recording_end of the last segment, or the transcript_created_time(s)
+}
+
+export interface SyncedMeeting {
+  meetingId: string;        // Numeric Zoom meeting ID, used only for grouping occurrences
+  syncedAt: number;         // Unix timestamp
+  fileName: string;         // Path relative to the transcript folder, including any routed subfolder
+  contentHash?: string;     // Hash of the raw transcript the note was generated from
+  remoteFile?: RemoteTranscriptInfo;
+  updatedAt?: number;       // Unix timestamp of the last re-sync after a remote change
+  sources?: TranscriptSourceKind[];  // Sources whose transcripts are in the note; remoteFile tracks the first
+  frontmatterKeys?: string[];        // Frontmatter keys the plugin last wrote to the note
+}
+
+/**
+ * Entry carried over from a version-1 state file, which was keyed by numeric meeting ID.
+ * `meetingTime` is recovered from the note's frontmatter so only the occurrence that
+ * was actually written is treated as synced.
+ */
+export interface LegacySyncedMeeting {
+  syncedAt: number;
+  fileName: string;
+  meetingTime?: string;     // ISO 8601 start time of the synced occurrence, if recoverable
+}
+
+/**
+ * A meeting occurrence whose sync failed, queued for retry on later runs.
+ * Listing details are kept so the meeting can be fetched again once it falls
+ * outside the incremental listing window.
+ */
+export interface FailedMeeting {
+  meetingId: number;
+  topic: string;
+  startTime: string;        // ISO 8601 start time of the occurrence
+  duration: number;         // Minutes
+  source: TranscriptSourceKind;
+  error: string;            // Message from the most recent failure
+  attempts: number;         // Failed attempts so far
+  lastAttemptAt: number;    // Unix timestamp
+  nextRetryAt: number;      // Unix timestamp; ignored once gaveUp is set
+  gaveUp: boolean;          // True once attempts reached the retry limit
+}
+
+/**
+ * A recording whose transcript had not finished processing when it was listed.
+ * Re-checked on every sync until the transcript appears or expiresAt passes.
+ */
+export interface PendingRecording {
+  meetingId: number;
+  topic: string;
+  startTime: string;        // ISO 8601 start time of the occurrence
+  firstSeenAt: number;      // Unix timestamp
+  expiresAt: number;        // Unix timestamp after which the plugin stops waiting
+}
+
+/**
+ * Progress of a historical backfill, saved after every page so it can resume after a restart.
+ * Dates are YYYY-MM-DD (UTC), as sent to the recordings API.
+ */
+export interface BackfillCheckpoint {
+  from: string;             // First day of the requested range
+  to: string;               // Last day of the requested range (inclusive)
+  userEmails: string[];     // Users resolved when the backfill started
+  userIndex: number;        // Index into userEmails of the user being listed
+  windowStart: string;      // Start of the month window being listed
+  pageToken?: string;       // next_page_token of the next page in that window
+  startedAt: number;        // Unix timestamp
+  syncedCount: number;
+  skippedCount: number;
+  filteredCount?: number;   // Absent in checkpoints saved before filtered meetings were counted
+  failedCount: number;
+  pendingCount?: number;    // Transcripts still processing, added to the pending list
+  noTranscriptCount?: number; // Recordings without a finished transcript
 }
 
 export interface SyncState {
-  version: 1;
+  version: 8;
   syncedMeetings: {
-    [meetingId: string]: {
-      syncedAt: number;       // Unix timestamp
-      fileName: string;       // Relative path in vault
-    };
+    [meetingUuid: string]: SyncedMeeting;
+  };
+  legacyMeetings: {
+    [meetingId: string]: LegacySyncedMeeting;
+  };
+  failedMeetings: {
+    [meetingUuid: string]: FailedMeeting;
   };
+  pendingRecordings: {
+    [meetingUuid: string]: PendingRecording;
+  };
+  backfill: BackfillCheckpoint | null;
 }
 
 /**
@@ -68,6 +329,7 @@ export interface ZoomRecording {
   recording_count: number;
   recording_files: ZoomRecordingFile[];
   participant_audio_files?: ZoomParticipantAudioFile[];
+  share_url?: string;
 }
 
 export interface ZoomListRecordingsResponse {
@@ -105,6 +367,60 @@ export interface ZoomListPastMeetingsResponse {
   meetings: ZoomPastMeeting[];
 }
 
+/**
+ * One participant session from the Reports API. A participant who rejoined the
+ * meeting has one entry per session.
+ */
+export interface ZoomReportParticipant {
+  id?: string;
+  user_id?: string;
+  name: string;
+  user_email?: string;
+  join_time: string;
+  leave_time: string;
+  duration: number;         // Seconds in this session
+}
+
+export interface ZoomListReportParticipantsResponse {
+  page_count: number;
+  page_size: number;
+  total_records: number;
+  next_page_token?: string;
+  participants: ZoomReportParticipant[];
+}
+
+/**
+ * User record from the Zoom users API. Only the fields used to name meeting hosts are listed.
+ */
+export interface ZoomUser {
+  id: string;
+  email: string;
+  first_name?: string;
+  last_name?: string;
+  display_name?: string;
+  timezone?: string;    // IANA timezone from the user's profile
+}
+
+/**
+ * A meeting host resolved from their user ID.
+ */
+export interface MeetingHost {
+  name: string;
+  email?: string;
+  timezone?: string;    // IANA timezone from the host's Zoom profile
+}
+
+/**
+ * A meeting attendee from the participant report, with their sessions combined.
+ */
+export interface Attendee {
+  name: string;
+  email?: string;
+  joinTime?: string;        // ISO 8601 time of the first join
+  leaveTime?: string;       // ISO 8601 time of the last leave
+  durationMinutes?: number; // Total time in the meeting
+}
+
 /**
  * Zoom API response for meeting transcript endpoint
  */
@@ -1,12 +1,20 @@
-import { requestUrl, RequestUrlResponse } from 'obsidian';
+import { requestUrl, RequestUrlParam, RequestUrlResponse } from 'obsidian';
 import {
   ZoomSyncSettings,
   ZoomListRecordingsResponse,
   ZoomRecording,
+  ZoomRecordingFile,
   ZoomListPastMeetingsResponse,
   ZoomPastMeeting,
-  ZoomMeetingTranscript
+  ZoomMeetingTranscript,
+  ZoomReportParticipant,
+  ZoomListReportParticipantsResponse,
+  ZoomUser,
+  MeetingHost,
+  SyncProgress,
+  RecordingTranscriptKind
 } from './types';
+import { normalizeRecordingUrl } from './meeting-reference';
 
 /**
  * Custom error class for rate limit (429) responses.
@@ -22,6 +30,32 @@ export class RateLimitError extends Error {
   }
 }
 
+/**
+ * Error thrown when a sync is cancelled through the client's abort signal.
+ * Raised between requests, so no request is ever left half-processed.
+ */
+export class SyncCancelledError extends Error {
+  constructor() {
+    super('Sync cancelled');
+    this.name = 'SyncCancelledError';
+  }
+}
+
+/**
+ * Optional hooks for long-running operations.
+ */
+export interface ZoomApiClientOptions {
+  signal?: AbortSignal;                          // Aborting cancels the client before its next request
+  onProgress?: (progress: SyncProgress) => void; // Called as users and date windows are listed
+}
+
+/**
+ * Options for listRecordings.
+ */
+export interface ListRecordingsOptions {
+  includePending?: boolean;  // Also return recordings whose transcript hasn't finished processing
+}
+
 /**
  * Extracts participant names from a Zoom recording's metadata.
  * Looks for participant info in the `participant_audio_files` array.
@@ -62,22 +96,131 @@ export function extractParticipantsFromRecording(recording: ZoomRecording): stri
   return names;
 }
 
+/**
+ * Gets the kind of transcript a recording file holds.
+ * Closed captions are listed as file type CC with recording type closed_caption.
+ *
+ * @returns The transcript kind, or null if the file is not a transcript
+ */
+export function getTranscriptFileKind(file: ZoomRecordingFile): RecordingTranscriptKind | null {
+  if (file.recording_type === 'audio_transcript') {
+    return 'audio_transcript';
+  }
+  if (file.recording_type === 'closed_caption' || file.file_type === 'CC') {
+    return 'closed_caption';
+  }
+  return null;
+}
+
+/**
+ * Names a user for display as a meeting host: their display name, else their
+ * first and last name, else their email.
+ */
+export function toMeetingHost(user: ZoomUser): MeetingHost {
+  const fullName = [user.first_name, user.last_name].filter(part => part).join(' ');
+  return {
+    name: user.display_name || fullName || user.email,
+    email: user.email || undefined,
+    timezone: user.timezone || undefined,
+  };
+}
+
+/**
+ * Checks whether a recording file is a transcript or closed caption file that has
+ * finished processing. Files without a status are treated as finished.
+ */
+export function isCompletedTranscriptFile(file: ZoomRecordingFile): boolean {
+  return getTranscriptFileKind(file) !== null &&
+    !!file.download_url &&
+    (!file.status || file.status === 'completed');
+}
+
+/**
+ * Checks whether a recording file is an in-meeting chat log that can be downloaded.
+ */
+export function isCompletedChatFile(file: ZoomRecordingFile): boolean {
+  return (file.recording_type === 'chat_file' || file.file_type === 'CHAT') &&
+    !!file.download_url &&
+    (!file.status || file.status === 'completed');
+}
+
+/**
+ * Checks whether a recording has a transcript that can be downloaded now.
+ * Zoom often finishes transcripts hours after the recording itself appears.
+ */
+export function hasCompletedTranscript(recording: ZoomRecording): boolean {
+  return recording.recording_files?.some(isCompletedTranscriptFile) ?? false;
+}
+
 export class ZoomApiClient {
   private settings: ZoomSyncSettings;
   private accessToken: string | null = null;
   private tokenExpiresAt = 0;
+  private signal: AbortSignal | null;
+  private onProgress: (progress: SyncProgress) => void;
+  private hosts = new Map<string, MeetingHost | null>();  // Resolved hosts by user ID; null if unreadable
 
-  constructor(settings: ZoomSyncSettings) {
+  constructor(settings: ZoomSyncSettings, options: ZoomApiClientOptions = {}) {
     this.settings = settings;
+    this.signal = options.signal ?? null;
+    this.onProgress = options.onProgress ?? (() => {});
+  }
+
+  /**
+   * Throws SyncCancelledError if the client's abort signal has fired.
+   * Called before every request; callers may also use it between their own steps.
+   */
+  public throwIfCancelled(): void {
+    if (this.signal?.aborted) {
+      throw new SyncCancelledError();
+    }
+  }
+
+  /**
+   * Sends a request unless the sync has been cancelled.
+   * @param params - Request parameters passed through to requestUrl
+   */
+  private async request(params: RequestUrlParam): Promise<RequestUrlResponse> {
+    this.throwIfCancelled();
+    return requestUrl(params);
   }
 
   /**
    * Helper method to create a delay using setTimeout wrapped in a Promise.
+   * Resolves early if the sync is cancelled, then throws SyncCancelledError.
    * @param ms - The number of milliseconds to wait
    * @returns A Promise that resolves after the specified delay
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private async delay(ms: number): Promise<void> {
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(done, ms);
+      const signal = this.signal;
+      function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      }
+      signal?.addEventListener('abort', done);
+    });
+    this.throwIfCancelled();
+  }
+
+  /**
+   * Counts the date windows between two dates, stepping by one month or a number of days.
+   * Mirrors the window loops in listRecordings and listPastMeetings for progress reporting.
+   */
+  private countWindows(startDate: Date, endDate: Date, stepDays?: number): number {
+    let count = 0;
+    const current = new Date(startDate);
+    while (current < endDate) {
+      count++;
+      if (stepDays) {
+        current.setDate(current.getDate() + stepDays);
+      } else {
+        current.setMonth(current.getMonth() + 1);
+      }
+    }
+    return count;
   }
 
   /**
@@ -168,7 +311,7 @@ export class ZoomApiClient {
 
     let response;
     try {
-      response = await requestUrl({
+      response = await this.request({
         url: tokenUrl,
         method: 'POST',
         headers: {
@@ -176,6 +319,9 @@ export class ZoomApiClient {
         },
       });
     } catch (error) {
+      if (error instanceof SyncCancelledError) {
+        throw error;
+      }
       throw new Error(`OAuth token request failed: ${error instanceof Error ? error.message : String(error)}`);
     }
 
@@ -222,27 +368,118 @@ export class ZoomApiClient {
   }
 
   /**
-   * Lists cloud recordings for specified users.
-   * Calls GET https://api.zoom.us/v2/users/{email}/recordings for each user.
-   * Handles pagination automatically using next_page_token.
-   * Loops through months since Zoom limits date range to 1 month per request.
-   * Includes retry logic with exponential backoff for network/server errors.
+   * Lists the users whose meetings are synced: every user in the account if the app
+   * has the user:read:admin scope, otherwise the emails configured in settings.
    *
-   * Retry pattern:
-   * - Attempt 1: immediate (no wait)
-   * - Attempt 2: wait 1 second before retry
-   * - Attempt 3: wait 3 seconds before retry
-   * - After 3 failed attempts, throws the original error
+   * @throws Error if no users are found either way
+   */
+  public async listUserEmails(): Promise<string[]> {
+    let userEmails: string[];
+    try {
+      userEmails = await this.listAccountUsers();
+    } catch (error) {
+      if (error instanceof SyncCancelledError) {
+        throw error;
+      }
+      // Fall back to configured emails
+      const userEmailsRaw = this.settings.userEmails || this.settings.userEmail || '';
+      userEmails = userEmailsRaw.split(',').map(e => e.trim()).filter(e => e.length > 0);
+    }
+
+    if (userEmails.length === 0) {
+      throw new Error('No users found. Please add the user:read:admin scope or configure user emails manually.');
+    }
+    return userEmails;
+  }
+
+  /**
+   * Fetches one page of a user's cloud recordings for a date range of at most one month.
+   * Includes the same retry logic as listRecordings.
    *
-   * @param from - Optional start date filter (ISO 8601 string or Date object)
-   * @returns Array of all recording objects across all pages, months, and users
-   * @throws Error if all retry attempts fail or on non-retryable errors
+   * @param userEmail - User whose recordings to list
+   * @param from - Start of the range (date part only is sent)
+   * @param to - End of the range (date part only is sent)
+   * @param pageToken - next_page_token from the previous page, if any
+   * @returns The raw page, including next_page_token
    */
+  public async listRecordingsPage(
+    userEmail: string,
+    from: Date,
+    to: Date,
+    pageToken?: string
+  ): Promise<ZoomListRecordingsResponse> {
+    const MAX_ATTEMPTS = 3;
+    const BACKOFF_DELAYS = [0, 1000, 3000]; // immediate, 1s, 3s
+
+    const token = await this.getAccessToken();
+    const baseUrl = `https://api.zoom.us/v2/users/${encodeURIComponent(userEmail)}/recordings`;
+
+    // Build URL with query parameters
+    const params: string[] = [];
+    params.push(`from=${encodeURIComponent(from.toISOString().split('T')[0])}`);
+    params.push(`to=${encodeURIComponent(to.toISOString().split('T')[0])}`);
+    if (pageToken) {
+      params.push(`next_page_token=${encodeURIComponent(pageToken)}`);
+    }
+    const url = `${baseUrl}?${params.join('&')}`;
+
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      // Apply delay before retry (no delay on first attempt)
+      if (attempt > 0 && lastError) {
+        const delayMs = this.getRetryDelay(lastError, attempt, BACKOFF_DELAYS);
+        if (delayMs > 0) {
+          await this.delay(delayMs);
+        }
+      }
+
+      try {
+        const response = await this.request({
+          url: url,
+          method: 'GET',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+          throw: false, // Don't throw on non-2xx, let us handle it
+        });
+
+        // Handle rate limiting (429) with Retry-After header support
+        if (response.status === 429) {
+          this.handleRateLimitedResponse(response);
+        }
+
+        if (response.status !== 200) {
+          throw new Error(`Failed to list recordings for ${userEmail}: ${response.status} - ${response.json?.message || 'Unknown error'}`);
+        }
+
+        return response.json as ZoomListRecordingsResponse;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+
+        // Only retry on retryable errors (network/server errors or rate limits)
+        if (!this.isRetryableError(error)) {
+          throw lastError;
+        }
+
+        // If this was the last attempt, throw the error
+        if (attempt === MAX_ATTEMPTS - 1) {
+          throw lastError;
+        }
+        // Otherwise, continue to next attempt (loop will apply delay)
+      }
+    }
+
+    // This should never be reached if retry loop worked correctly, but TypeScript needs it
+    throw lastError ?? new Error('Failed to list recordings after retries');
+  }
+
   /**
    * Lists all users in the Zoom account.
    * Requires scope: user:read:admin or user:read:list_users:admin
    */
   private async listAccountUsers(): Promise<string[]> {
+    this.onProgress({ phase: 'listing-users' });
     const token = await this.getAccessToken();
     const allEmails: string[] = [];
     let nextPageToken: string | undefined;
@@ -254,7 +491,7 @@ export class ZoomApiClient {
       }
       const url = `https://api.zoom.us/v2/users?${params.join('&')}`;
 
-      const response = await requestUrl({
+      const response = await this.request({
         url,
         method: 'GET',
         headers: { 'Authorization': `Bearer ${token}` },
@@ -267,10 +504,14 @@ export class ZoomApiClient {
 
       const data = response.json;
       if (data.users) {
-        for (const user of data.users) {
+        for (const user of data.users as ZoomUser[]) {
           if (user.email) {
             allEmails.push(user.email);
           }
+          // Saves a users API call when this user turns out to host a synced meeting
+          if (user.id) {
+            this.hosts.set(user.id, toMeetingHost(user));
+          }
         }
       }
       nextPageToken = data.next_page_token || undefined;
@@ -279,26 +520,28 @@ export class ZoomApiClient {
     return allEmails;
   }
 
-  public async listRecordings(from?: string | Date): Promise<ZoomRecording[]> {
-    const MAX_ATTEMPTS = 3;
-    const BACKOFF_DELAYS = [0, 1000, 3000]; // immediate, 1s, 3s
-
-    const token = await this.getAccessToken();
+  /**
+   * Lists cloud recordings for specified users.
+   * Calls GET https://api.zoom.us/v2/users/{email}/recordings for each user.
+   * Handles pagination automatically using next_page_token.
+   * Loops through months since Zoom limits date range to 1 month per request.
+   * Includes retry logic with exponential backoff for network/server errors.
+   *
+   * Retry pattern:
+   * - Attempt 1: immediate (no wait)
+   * - Attempt 2: wait 1 second before retry
+   * - Attempt 3: wait 3 seconds before retry
+   * - After 3 failed attempts, throws the original error
+   *
+   * @param from - Optional start date filter (ISO 8601 string or Date object)
+   * @param options - Set includePending to keep recordings whose transcript isn't finished
+   * @returns Array of all recording objects across all pages, months, and users
+   * @throws Error if all retry attempts fail or on non-retryable errors
+   */
+  public async listRecordings(from?: string | Date, options: ListRecordingsOptions = {}): Promise<ZoomRecording[]> {
     const allRecordings: ZoomRecording[] = [];
 
-    // Try to get all users in the account automatically
-    let userEmails: string[];
-    try {
-      userEmails = await this.listAccountUsers();
-    } catch {
-      // Fall back to configured emails
-      const userEmailsRaw = this.settings.userEmails || this.settings.userEmail || '';
-      userEmails = userEmailsRaw.split(',').map(e => e.trim()).filter(e => e.length > 0);
-    }
-
-    if (userEmails.length === 0) {
-      throw new Error('No users found. Please add the user:read:admin scope or configure user emails manually.');
-    }
+    const userEmails = await this.listUserEmails();
 
     // Determine start date - default to 6 months ago
     let startDate: Date;
@@ -314,13 +557,24 @@ export class ZoomApiClient {
     // Track seen recording UUIDs to avoid duplicates (same meeting, different hosts)
     const seenRecordingUuids = new Set<string>();
 
-    // Loop through each user email
-    for (const userEmail of userEmails) {
-      const baseUrl = `https://api.zoom.us/v2/users/${encodeURIComponent(userEmail)}/recordings`;
+    const monthCount = this.countWindows(startDate, endDate);
 
+    // Loop through each user email
+    for (const [userIndex, userEmail] of userEmails.entries()) {
       // Loop through each month since Zoom limits date range to 1 month per request
       let currentFrom = new Date(startDate);
+      let month = 0;
       while (currentFrom < endDate) {
+        month++;
+        this.onProgress({
+          phase: 'listing',
+          source: 'recording',
+          userIndex: userIndex + 1,
+          userCount: userEmails.length,
+          month,
+          monthCount,
+        });
+
         // Calculate the end of this month's range (max 1 month)
         const currentTo = new Date(currentFrom);
         currentTo.setMonth(currentTo.getMonth() + 1);
@@ -328,87 +582,23 @@ export class ZoomApiClient {
           currentTo.setTime(endDate.getTime());
         }
 
-        const fromDateStr = currentFrom.toISOString().split('T')[0];
-        const toDateStr = currentTo.toISOString().split('T')[0];
-
         let nextPageToken: string | undefined;
 
         do {
-          // Build URL with query parameters
-          const params: string[] = [];
-          params.push(`from=${encodeURIComponent(fromDateStr)}`);
-          params.push(`to=${encodeURIComponent(toDateStr)}`);
-          if (nextPageToken) {
-            params.push(`next_page_token=${encodeURIComponent(nextPageToken)}`);
-          }
-          const url = `${baseUrl}?${params.join('&')}`;
-
-        let lastError: Error | null = null;
-        let pageData: ZoomListRecordingsResponse | null = null;
-
-        for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
-          // Apply delay before retry (no delay on first attempt)
-          if (attempt > 0 && lastError) {
-            const delayMs = this.getRetryDelay(lastError, attempt, BACKOFF_DELAYS);
-            if (delayMs > 0) {
-              await this.delay(delayMs);
-            }
-          }
-
-          try {
-            const response = await requestUrl({
-              url: url,
-              method: 'GET',
-              headers: {
-                'Authorization': `Bearer ${token}`,
-              },
-              throw: false, // Don't throw on non-2xx, let us handle it
-            });
-
-            // Handle rate limiting (429) with Retry-After header support
-            if (response.status === 429) {
-              this.handleRateLimitedResponse(response);
-            }
-
-            if (response.status !== 200) {
-              throw new Error(`Failed to list recordings for ${userEmail}: ${response.status} - ${response.json?.message || 'Unknown error'}`);
-            }
+          const pageData = await this.listRecordingsPage(userEmail, currentFrom, currentTo, nextPageToken);
 
-            pageData = response.json;
-            break; // Success, exit retry loop
-          } catch (error) {
-            lastError = error instanceof Error ? error : new Error(String(error));
-
-            // Only retry on retryable errors (network/server errors or rate limits)
-            if (!this.isRetryableError(error)) {
-              throw lastError;
-            }
-
-            // If this was the last attempt, throw the error
-            if (attempt === MAX_ATTEMPTS - 1) {
-              throw lastError;
-            }
-            // Otherwise, continue to next attempt (loop will apply delay)
-          }
-        }
-
-        // This should never be reached if retry loop worked correctly, but TypeScript needs it
-        if (!pageData) {
-          throw lastError ?? new Error('Failed to list recordings after retries');
-        }
-
-        // Accumulate recordings from this page, deduplicating by UUID
-        if (pageData.meetings) {
-          for (const meeting of pageData.meetings) {
-            if (!seenRecordingUuids.has(meeting.uuid)) {
-              seenRecordingUuids.add(meeting.uuid);
-              allRecordings.push(meeting);
+          // Accumulate recordings from this page, deduplicating by UUID
+          if (pageData.meetings) {
+            for (const meeting of pageData.meetings) {
+              if (!seenRecordingUuids.has(meeting.uuid)) {
+                seenRecordingUuids.add(meeting.uuid);
+                allRecordings.push(meeting);
+              }
             }
           }
-        }
 
-        // Get next page token for pagination
-        nextPageToken = pageData.next_page_token || undefined;
+          // Get next page token for pagination
+          nextPageToken = pageData.next_page_token || undefined;
         } while (nextPageToken);
 
         // Move to next month
@@ -416,12 +606,12 @@ export class ZoomApiClient {
       }
     }
 
-    // Filter to only include recordings that have at least one audio_transcript file
-    const recordingsWithTranscripts = allRecordings.filter(recording =>
-      recording.recording_files?.some(file => file.recording_type === 'audio_transcript')
-    );
+    if (options.includePending) {
+      return allRecordings;
+    }
 
-    return recordingsWithTranscripts;
+    // Filter to only include recordings that have a finished transcript or closed caption file
+    return allRecordings.filter(hasCompletedTranscript);
   }
 
   /**
@@ -457,7 +647,7 @@ export class ZoomApiClient {
       try {
         const token = await this.getAccessToken();
 
-        const response = await requestUrl({
+        const response = await this.request({
           url: downloadUrl,
           method: 'GET',
           headers: {
@@ -526,18 +716,7 @@ export class ZoomApiClient {
     const token = await this.getAccessToken();
     const allMeetings: ZoomPastMeeting[] = [];
 
-    // Try to get all users in the account automatically
-    let userEmails: string[];
-    try {
-      userEmails = await this.listAccountUsers();
-    } catch {
-      const userEmailsRaw = this.settings.userEmails || this.settings.userEmail || '';
-      userEmails = userEmailsRaw.split(',').map(e => e.trim()).filter(e => e.length > 0);
-    }
-
-    if (userEmails.length === 0) {
-      throw new Error('No users found. Please add the user:read:admin scope or configure user emails manually.');
-    }
+    const userEmails = await this.listUserEmails();
 
     // Determine start date - default to 6 months ago
     // Reports API only allows queries within last 6 months, so clamp to 5.5 months to be safe
@@ -561,13 +740,26 @@ export class ZoomApiClient {
     // Track seen meeting UUIDs to avoid duplicates
     const seenMeetingUuids = new Set<string>();
 
+    const monthCount = this.countWindows(startDate, endDate, 30);
+
     // Loop through each user email
-    for (const userEmail of userEmails) {
+    for (const [userIndex, userEmail] of userEmails.entries()) {
       const baseUrl = `https://api.zoom.us/v2/report/users/${encodeURIComponent(userEmail)}/meetings`;
 
       // Loop through each month since Zoom limits date range to 30 days per request
       let currentFrom = new Date(startDate);
+      let month = 0;
       while (currentFrom < endDate) {
+        month++;
+        this.onProgress({
+          phase: 'listing',
+          source: 'ai_companion',
+          userIndex: userIndex + 1,
+          userCount: userEmails.length,
+          month,
+          monthCount,
+        });
+
         // Calculate the end of this month's range (max 30 days)
         const currentTo = new Date(currentFrom);
         currentTo.setDate(currentTo.getDate() + 30);
@@ -603,7 +795,7 @@ export class ZoomApiClient {
             }
 
             try {
-              const response = await requestUrl({
+              const response = await this.request({
                 url: url,
                 method: 'GET',
                 headers: {
@@ -660,6 +852,156 @@ export class ZoomApiClient {
     return allMeetings;
   }
 
+  /**
+   * Gets the cloud recording of a single meeting occurrence.
+   * Calls GET https://api.zoom.us/v2/meetings/{double-encoded-UUID}/recordings
+   * Used to retry meetings that are no longer inside the incremental listing window.
+   *
+   * @param meetingUuid - The meeting UUID (will be double-encoded automatically)
+   * @returns The recording, or null if it no longer exists
+   * @throws Error on API errors (except 404 which returns null)
+   */
+  public async getMeetingRecording(meetingUuid: string): Promise<ZoomRecording | null> {
+    const MAX_ATTEMPTS = 3;
+    const BACKOFF_DELAYS = [0, 1000, 3000];
+
+    const token = await this.getAccessToken();
+    const encodedUuid = this.doubleEncodeUuid(meetingUuid);
+    const url = `https://api.zoom.us/v2/meetings/${encodedUuid}/recordings`;
+
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      if (attempt > 0 && lastError) {
+        const delayMs = this.getRetryDelay(lastError, attempt, BACKOFF_DELAYS);
+        if (delayMs > 0) {
+          await this.delay(delayMs);
+        }
+      }
+
+      try {
+        const response = await this.request({
+          url: url,
+          method: 'GET',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+          throw: false,
+        });
+
+        // 404 means the recording was deleted
+        if (response.status === 404) {
+          return null;
+        }
+
+        if (response.status === 429) {
+          this.handleRateLimitedResponse(response);
+        }
+
+        if (response.status !== 200) {
+          throw new Error(`Failed to get meeting recording: ${response.status} - ${response.json?.message || 'Unknown error'}`);
+        }
+
+        return response.json as ZoomRecording;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+
+        if (!this.isRetryableError(error)) {
+          throw lastError;
+        }
+
+        if (attempt === MAX_ATTEMPTS - 1) {
+          throw lastError;
+        }
+      }
+    }
+
+    throw lastError ?? new Error('Failed to get meeting recording after retries');
+  }
+
+  /**
+   * Finds a recording by its share link or one of its files' play links.
+   * Zoom has no lookup by link, so recordings listed since `from` are searched.
+   *
+   * @param shareUrl - A /rec/share/ or /rec/play/ link
+   * @param from - Start of the search window
+   * @returns The matching recording, or null if none was listed
+   */
+  public async findRecordingByShareUrl(shareUrl: string, from: Date): Promise<ZoomRecording | null> {
+    const target = normalizeRecordingUrl(shareUrl);
+    const recordings = await this.listRecordings(from, { includePending: true });
+    return recordings.find(recording =>
+      (recording.share_url && normalizeRecordingUrl(recording.share_url) === target) ||
+      recording.recording_files?.some(file => file.play_url && normalizeRecordingUrl(file.play_url) === target)
+    ) ?? null;
+  }
+
+  /**
+   * Gets details of a past meeting occurrence.
+   * Calls GET https://api.zoom.us/v2/past_meetings/{meetingId}
+   * A numeric meeting ID resolves to its most recent occurrence.
+   *
+   * @param meetingIdOrUuid - Numeric meeting ID or occurrence UUID (UUIDs are double-encoded automatically)
+   * @returns The meeting, or null if Zoom has no record of it
+   * @throws Error on API errors (except 404 which returns null)
+   */
+  public async getPastMeeting(meetingIdOrUuid: string): Promise<ZoomPastMeeting | null> {
+    const MAX_ATTEMPTS = 3;
+    const BACKOFF_DELAYS = [0, 1000, 3000];
+
+    const token = await this.getAccessToken();
+    const encodedId = this.doubleEncodeUuid(meetingIdOrUuid);
+    const url = `https://api.zoom.us/v2/past_meetings/${encodedId}`;
+
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      if (attempt > 0 && lastError) {
+        const delayMs = this.getRetryDelay(lastError, attempt, BACKOFF_DELAYS);
+        if (delayMs > 0) {
+          await this.delay(delayMs);
+        }
+      }
+
+      try {
+        const response = await this.request({
+          url: url,
+          method: 'GET',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+          throw: false,
+        });
+
+        if (response.status === 404) {
+          return null;
+        }
+
+        if (response.status === 429) {
+          this.handleRateLimitedResponse(response);
+        }
+
+        if (response.status !== 200) {
+          throw new Error(`Failed to get past meeting: ${response.status} - ${response.json?.message || 'Unknown error'}`);
+        }
+
+        return response.json as ZoomPastMeeting;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+
+        if (!this.isRetryableError(error)) {
+          throw lastError;
+        }
+
+        if (attempt === MAX_ATTEMPTS - 1) {
+          throw lastError;
+        }
+      }
+    }
+
+    throw lastError ?? new Error('Failed to get past meeting after retries');
+  }
+
   /**
    * Gets transcript information for a specific meeting using the AI Companion transcript endpoint.
    * Calls GET https://api.zoom.us/v2/meetings/{double-encoded-UUID}/transcript
@@ -687,7 +1029,7 @@ export class ZoomApiClient {
       }
 
       try {
-        const response = await requestUrl({
+        const response = await this.request({
           url: url,
           method: 'GET',
           headers: {
@@ -741,6 +1083,144 @@ export class ZoomApiClient {
     throw lastError ?? new Error('Failed to get meeting transcript after retries');
   }
 
+  /**
+   * Gets a user by ID.
+   * Calls GET https://api.zoom.us/v2/users/{userId}
+   * Requires the user:read:admin scope.
+   *
+   * @param userId - Zoom user ID, such as a recording's host_id
+   * @returns The user, or null if they no longer exist or the app may not read them
+   * @throws Error on other API errors, such as rate limits or server errors
+   */
+  public async getUser(userId: string): Promise<ZoomUser | null> {
+    const token = await this.getAccessToken();
+    const response = await this.request({
+      url: `https://api.zoom.us/v2/users/${encodeURIComponent(userId)}`,
+      method: 'GET',
+      headers: { 'Authorization': `Bearer ${token}` },
+      throw: false,
+    });
+
+    // Not found, or no permission (Zoom answers a missing scope with 400 or 403)
+    if (response.status === 404 || response.status === 400 || response.status === 403) {
+      return null;
+    }
+
+    if (response.status === 429) {
+      this.handleRateLimitedResponse(response);
+    }
+
+    if (response.status !== 200) {
+      throw new Error(`Failed to get user: ${response.status} - ${response.json?.message || 'Unknown error'}`);
+    }
+
+    return response.json as ZoomUser;
+  }
+
+  /**
+   * Resolves a meeting host's user ID to their name and email.
+   * Lookups are cached for the life of the client, which is one sync run; users
+   * listed by listUserEmails() are cached without an extra request. Only definite
+   * misses are cached as null; rate limits and network errors are thrown so the
+   * meeting can be retried later.
+   *
+   * @param userId - The host's user ID
+   * @returns The host, or null if the user can't be read (e.g. the app lacks user:read:admin)
+   */
+  public async resolveHost(userId: string): Promise<MeetingHost | null> {
+    if (!userId) {
+      return null;
+    }
+    if (this.hosts.has(userId)) {
+      return this.hosts.get(userId) ?? null;
+    }
+
+    const user = await this.getUser(userId);
+    // Remember misses too, so a missing scope costs one request per host
+    const host = user ? toMeetingHost(user) : null;
+    this.hosts.set(userId, host);
+    return host;
+  }
+
+  /**
+   * Gets everyone who attended a meeting occurrence, from the Reports API.
+   * Calls GET https://api.zoom.us/v2/report/meetings/{double-encoded-UUID}/participants
+   * Requires the report:read:admin scope.
+   *
+   * @param meetingUuid - The meeting UUID (will be double-encoded automatically)
+   * @returns One entry per participant session, or null if Zoom has no report for the meeting
+   * @throws Error on API errors (except 404 which returns null), including a missing scope
+   */
+  public async getMeetingParticipants(meetingUuid: string): Promise<ZoomReportParticipant[] | null> {
+    const MAX_ATTEMPTS = 3;
+    const BACKOFF_DELAYS = [0, 1000, 3000];
+
+    const token = await this.getAccessToken();
+    const baseUrl = `https://api.zoom.us/v2/report/meetings/${this.doubleEncodeUuid(meetingUuid)}/participants`;
+    const participants: ZoomReportParticipant[] = [];
+    let nextPageToken: string | undefined;
+
+    do {
+      const params = ['page_size=300'];
+      if (nextPageToken) {
+        params.push(`next_page_token=${encodeURIComponent(nextPageToken)}`);
+      }
+      const url = `${baseUrl}?${params.join('&')}`;
+
+      let page: ZoomListReportParticipantsResponse | null = null;
+      let lastError: Error | null = null;
+
+      for (let attempt = 0; attempt < MAX_ATTEMPTS && !page; attempt++) {
+        if (attempt > 0 && lastError) {
+          const delayMs = this.getRetryDelay(lastError, attempt, BACKOFF_DELAYS);
+          if (delayMs > 0) {
+            await this.delay(delayMs);
+          }
+        }
+
+        try {
+          const response = await this.request({
+            url: url,
+            method: 'GET',
+            headers: {
+              'Authorization': `Bearer ${token}`,
+            },
+            throw: false,
+          });
+
+          if (response.status === 404) {
+            return null;
+          }
+
+          if (response.status === 429) {
+            this.handleRateLimitedResponse(response);
+          }
+
+          if (response.status !== 200) {
+            throw new Error(`Failed to get meeting participants: ${response.status} - ${response.json?.message || 'Unknown error'}`);
+          }
+
+          page = response.json as ZoomListReportParticipantsResponse;
+        } catch (error) {
+          lastError = error instanceof Error ? error : new Error(String(error));
+
+          if (!this.isRetryableError(error) || attempt === MAX_ATTEMPTS - 1) {
+            throw lastError;
+          }
+        }
+      }
+
+      if (!page) {
+        throw lastError ?? new Error('Failed to get meeting participants after retries');
+      }
+
+      participants.push(...(page.participants ?? []));
+      nextPageToken = page.next_page_token || undefined;
+    } while (nextPageToken);
+
+    return participants;
+  }
+
   /**
    * Downloads a transcript from a direct download URL (used for AI Companion transcripts).
    * These URLs don't require Bearer token authentication.
@@ -766,7 +1246,7 @@ export class ZoomApiClient {
       }
 
       try {
-        const response = await requestUrl({
+        const response = await this.request({
           url: downloadUrl,
           method: 'GET',
           headers: {
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for attendance from the participant report.
+ * Tests summarizeParticipants() and fetchAttendance() from src/attendance.ts
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock the obsidian module before importing modules that use it
+vi.mock('obsidian', async () => {
+  const mocks = await import('./mocks/obsidian');
+  return mocks;
+});
+
+import { summarizeParticipants, fetchAttendance, attendanceLoader } from '../src/attendance';
+import { ZoomApiClient, SyncCancelledError } from '../src/zoom-api';
+import { ZoomReportParticipant } from '../src/types';
+
+function session(overrides: Partial<ZoomReportParticipant>): ZoomReportParticipant {
+  return {
+    name: 'Jane Doe',
+    user_email: 'jane@example.com',
+    join_time: '2025-01-15T10:00:00Z',
+    leave_time: '2025-01-15T10:30:00Z',
+    duration: 1800,
+    ...overrides,
+  };
+}
+
+describe('summarizeParticipants', () => {
+  it('combines the sessions of attendees who rejoined', () => {
+    const attendees = summarizeParticipants([
+      session({ user_email: 'JANE@example.com', join_time: '2025-01-15T10:40:00Z', leave_time: '2025-01-15T11:00:00Z', duration: 1200 }),
+      session({ name: 'Bob', user_email: '', join_time: '2025-01-15T10:05:00Z', duration: 600 }),
+      session({}),
+    ]);
+
+    expect(attendees).toEqual([
+      {
+        name: 'Jane Doe',
+        email: 'jane@example.com',
+        joinTime: '2025-01-15T10:00:00Z',
+        leaveTime: '2025-01-15T11:00:00Z',
+        durationMinutes: 50,
+      },
+      {
+        name: 'Bob',
+        email: undefined,
+        joinTime: '2025-01-15T10:05:00Z',
+        leaveTime: '2025-01-15T10:30:00Z',
+        durationMinutes: 10,
+      },
+    ]);
+  });
+
+  it('matches guests without an email by name', () => {
+    const attendees = summarizeParticipants([
+      session({ name: 'Guest', user_email: undefined }),
+      session({ name: 'Guest', user_email: undefined, join_time: '2025-01-15T10:31:00Z' }),
+      session({ name: 'Other Guest', user_email: undefined }),
+    ]);
+
+    expect(attendees.map(a => `${a.name} ${a.durationMinutes}`)).toEqual(['Guest 60', 'Other Guest 30']);
+  });
+});
+
+describe('fetchAttendance', () => {
+  it('returns null when the report cannot be read', async () => {
+    const log = vi.fn();
+    const api = {
+      getMeetingParticipants: vi.fn().mockRejectedValue(new Error('Failed to get meeting participants: 400 - No scope')),
+    };
+
+    expect(await fetchAttendance(api as unknown as ZoomApiClient, 'uuid-1', log)).toBeNull();
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('No scope'));
+
+    api.getMeetingParticipants.mockResolvedValue([]);
+    expect(await fetchAttendance(api as unknown as ZoomApiClient, 'uuid-1', log)).toBeNull();
+  });
+
+  it('does not swallow cancellation', async () => {
+    const api = { getMeetingParticipants: vi.fn().mockRejectedValue(new SyncCancelledError()) };
+
+    await expect(fetchAttendance(api as unknown as ZoomApiClient, 'uuid-1', () => {})).rejects.toBeInstanceOf(SyncCancelledError);
+  });
+});
+
+describe('attendanceLoader', () => {
+  it('requests the participant report once', async () => {
+    const api = { getMeetingParticipants: vi.fn().mockResolvedValue([]) };
+    const load = attendanceLoader(api as unknown as ZoomApiClient, 'uuid-1', () => {});
+
+    expect(await load()).toBeNull();
+    expect(await load()).toBeNull();
+    expect(api.getMeetingParticipants).toHaveBeenCalledTimes(1);
+  });
+});
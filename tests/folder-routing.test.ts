@@ -0,0 +1,83 @@
+/**
+ * Unit tests for folder routing rules.
+ * Tests isValidRoutingPattern(), matchesRoutingRule(), findRoutingRule() and parseTags()
+ * from src/folder-routing.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { isValidRoutingPattern, matchesRoutingRule, findRoutingRule, parseTags } from '../src/folder-routing';
+import { RoutingRule, SourceMeeting } from '../src/types';
+
+function rule(overrides: Partial<RoutingRule>): RoutingRule {
+  return { match: 'topic', pattern: '', folder: '', tags: '', template: '', ...overrides };
+}
+
+describe('folder routing', () => {
+  const meeting: SourceMeeting = {
+    uuid: 'uuid-1',
+    id: 85746065432,
+    topic: 'Customer: Acme weekly',
+    start_time: '2025-01-15T09:00:00Z',
+    duration: 30,
+  };
+  const host = { name: 'Jane Doe', email: 'jane@example.com' };
+
+  describe('matchesRoutingRule', () => {
+    it('matches topics by case-insensitive regular expression', () => {
+      expect(matchesRoutingRule(rule({ pattern: '^customer:' }), meeting)).toBe(true);
+      expect(matchesRoutingRule(rule({ pattern: 'standup' }), meeting)).toBe(false);
+    });
+
+    it('matches the host by name or email', () => {
+      expect(matchesRoutingRule(rule({ match: 'host', pattern: 'JANE@example.com' }), meeting, host)).toBe(true);
+      expect(matchesRoutingRule(rule({ match: 'host', pattern: 'Jane Doe' }), meeting, host)).toBe(true);
+      expect(matchesRoutingRule(rule({ match: 'host', pattern: 'Jane' }), meeting, host)).toBe(false);
+      expect(matchesRoutingRule(rule({ match: 'host', pattern: 'Jane Doe' }), meeting)).toBe(false);
+    });
+
+    it('matches recurring meetings by any of a list of meeting IDs', () => {
+      expect(matchesRoutingRule(rule({ match: 'series', pattern: '812 3456 7890, 857 4606 5432' }), meeting)).toBe(true);
+      expect(matchesRoutingRule(rule({ match: 'series', pattern: '81234567890' }), meeting)).toBe(false);
+    });
+
+    it('never matches an empty pattern or an invalid regular expression, except for "all"', () => {
+      expect(matchesRoutingRule(rule({ pattern: '  ' }), meeting)).toBe(false);
+      expect(matchesRoutingRule(rule({ pattern: '(' }), meeting)).toBe(false);
+      expect(matchesRoutingRule(rule({ match: 'all' }), meeting)).toBe(true);
+    });
+  });
+
+  describe('findRoutingRule', () => {
+    it('returns the first rule that matches', () => {
+      const rules = [
+        rule({ pattern: 'standup', folder: 'Standups' }),
+        rule({ pattern: 'acme', folder: 'Clients/Acme' }),
+        rule({ match: 'all', folder: 'Other' }),
+      ];
+
+      expect(findRoutingRule(rules, meeting)?.folder).toBe('Clients/Acme');
+      expect(findRoutingRule(rules, { ...meeting, topic: 'Daily standup' })?.folder).toBe('Standups');
+    });
+
+    it('returns null when no rule matches', () => {
+      expect(findRoutingRule([rule({ pattern: 'standup' })], meeting)).toBeNull();
+      expect(findRoutingRule([], meeting)).toBeNull();
+    });
+  });
+
+  describe('isValidRoutingPattern', () => {
+    it('checks regular expressions for topic rules only', () => {
+      expect(isValidRoutingPattern({ match: 'topic', pattern: '^Customer:' })).toBe(true);
+      expect(isValidRoutingPattern({ match: 'topic', pattern: '[' })).toBe(false);
+      expect(isValidRoutingPattern({ match: 'host', pattern: '[' })).toBe(true);
+    });
+  });
+
+  describe('parseTags', () => {
+    it('splits comma-separated tags and drops "#" and empty entries', () => {
+      expect(parseTags('#meeting, clients/acme,, weekly sync ')).toEqual(['meeting', 'clients/acme', 'weekly-sync']);
+      expect(parseTags('')).toEqual([]);
+    });
+  });
+});
@@ -13,6 +13,7 @@ vi.mock('obsidian', async () => {
 });
 
 import { TranscriptWriter } from '../src/transcript-writer';
+import { toSourceMeeting } from '../src/recording-source';
 import { ZoomRecording } from '../src/types';
 
 describe('TranscriptWriter', () => {
@@ -58,7 +59,7 @@ describe('TranscriptWriter', () => {
         ],
       };
 
-      const writer = new TranscriptWriter(recording);
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
       const vttContent = `WEBVTT
 
 1
@@ -104,7 +105,7 @@ Alice: Hello team.`;
         recording_files: [],
       };
 
-      const writer = new TranscriptWriter(recording);
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
       const result = writer.generateTranscript('WEBVTT\n\n', []);
 
       expect(result).toContain('meeting_name: "Meeting about \\"Important\\" topics"');
@@ -126,7 +127,7 @@ Alice: Hello team.`;
         recording_files: [],
       };
 
-      const writer = new TranscriptWriter(recording);
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
       const result = writer.generateTranscript('WEBVTT\n\n', []);
 
       // Backslashes should be escaped in YAML
@@ -148,7 +149,7 @@ Alice: Hello team.`;
         recording_files: [],
       };
 
-      const writer = new TranscriptWriter(recording);
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
       const attendees = ['John "Johnny" Smith', 'Jane O\'Connor'];
       const result = writer.generateTranscript('WEBVTT\n\n', attendees);
 
@@ -170,13 +171,167 @@ Alice: Hello team.`;
         recording_files: [],
       };
 
-      const writer = new TranscriptWriter(recording);
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
       const result = writer.generateTranscript('WEBVTT\n\n', []);
 
       expect(result).toContain('meeting_name: ""');
       expect(result).toContain('topic: ""');
     });
 
+    it('records the kind of transcript the note was written from', () => {
+      const recording: ZoomRecording = {
+        uuid: 'test-uuid',
+        id: 123456789,
+        account_id: 'acc-123',
+        host_id: 'host-456',
+        topic: 'Test Meeting',
+        type: 2,
+        start_time: '2025-01-15T09:00:00Z',
+        duration: 30,
+        total_size: 1000000,
+        recording_count: 1,
+        recording_files: [],
+      };
+
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
+
+      expect(writer.generateTranscript('WEBVTT\n\n', [], { transcriptKind: 'closed_caption' })).toContain(
+        'zoom_meeting_id: "123456789"\ntranscript_kind: closed_caption\n'
+      );
+      expect(writer.generateTranscript('WEBVTT\n\n', [])).not.toContain('transcript_kind');
+    });
+
+    it('uses the participant report for attendees and an attendance table', () => {
+      const recording: ZoomRecording = {
+        uuid: 'test-uuid',
+        id: 123456789,
+        account_id: 'acc-123',
+        host_id: 'host-456',
+        topic: 'Test Meeting',
+        type: 2,
+        start_time: '2025-01-15T09:00:00Z',
+        duration: 30,
+        total_size: 1000000,
+        recording_count: 1,
+        recording_files: [],
+      };
+
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
+      const result = writer.generateTranscript('WEBVTT\n\n', ['Guessed Name'], {
+        attendance: [
+          {
+            name: 'Jane "JD" Doe',
+            email: 'jane@example.com',
+            joinTime: '2025-01-15T09:01:00Z',
+            leaveTime: '2025-01-15T09:29:00Z',
+            durationMinutes: 28,
+          },
+          { name: 'Guest | Visitor' },
+        ],
+      });
+
+      expect(result).toContain('attendees:\n  - Jane \\"JD\\" Doe\n  - Guest | Visitor\n');
+      expect(result).not.toContain('Guessed Name');
+      expect(result).toContain(
+        'attendance:\n' +
+        '  - name: "Jane \\"JD\\" Doe"\n' +
+        '    email: "jane@example.com"\n' +
+        '    join_time: 2025-01-15T09:01:00Z\n' +
+        '    leave_time: 2025-01-15T09:29:00Z\n' +
+        '    duration_minutes: 28\n' +
+        '  - name: "Guest | Visitor"\n'
+      );
+      expect(result).toContain(
+        '## Attendees\n\n' +
+        '| Name | Email | Joined | Left | Minutes |\n' +
+        '| --- | --- | --- | --- | --- |\n' +
+        '| Jane "JD" Doe | jane@example.com | 09:01 | 09:29 | 28 |\n' +
+        '| Guest \\| Visitor |  |  |  |  |'
+      );
+    });
+
+    it('fills in the resolved host', () => {
+      const recording: ZoomRecording = {
+        uuid: 'test-uuid',
+        id: 123456789,
+        account_id: 'acc-123',
+        host_id: 'host-456',
+        topic: 'Test Meeting',
+        type: 2,
+        start_time: '2025-01-15T09:00:00Z',
+        duration: 30,
+        total_size: 1000000,
+        recording_count: 1,
+        recording_files: [],
+      };
+
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
+      const result = writer.generateTranscript('WEBVTT\n\n', [], { host: { name: 'Jane Doe', email: 'jane@example.com' } });
+
+      expect(result).toContain('host: "Jane Doe"\nhost_email: "jane@example.com"\n');
+      expect(result).toContain('**Host:** Jane Doe');
+    });
+
+    it('writes local dates and times in the configured timezone', () => {
+      const recording: ZoomRecording = {
+        uuid: 'test-uuid',
+        id: 123456789,
+        account_id: 'acc-123',
+        host_id: 'host-456',
+        topic: 'Late Call',
+        type: 2,
+        start_time: '2025-01-15T03:30:00Z',
+        duration: 30,
+        total_size: 1000000,
+        recording_count: 1,
+        recording_files: [],
+      };
+
+      const writer = new TranscriptWriter(toSourceMeeting(recording), { timeZone: 'America/New_York' });
+      const result = writer.generateTranscript('WEBVTT\n\n', [], {
+        attendance: [{ name: 'Jane Doe', joinTime: '2025-01-15T03:31:00Z', leaveTime: '2025-01-15T04:02:00Z' }],
+      });
+
+      expect(result).toContain('meeting_time: 2025-01-15T03:30:00Z\nmeeting_time_local: 2025-01-14T22:30:00-05:00\n');
+      expect(result).toContain('**Date:** January 14, 2025');
+      expect(result).toContain('| Jane Doe |  | 22:31 | 23:02 |  |');
+      expect(writer.generateFileName()).toBe('Late Call - 2025-01-14 2230.md');
+    });
+
+    it('defaults to UTC without a timezone', () => {
+      const recording: ZoomRecording = {
+        uuid: 'test-uuid',
+        id: 123456789,
+        account_id: 'acc-123',
+        host_id: 'host-456',
+        topic: 'Late Call',
+        type: 2,
+        start_time: '2025-01-15T03:30:00Z',
+        duration: 30,
+        total_size: 1000000,
+        recording_count: 1,
+        recording_files: [],
+      };
+
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
+
+      expect(writer.generateTranscript('WEBVTT\n\n', [])).toContain('meeting_time_local: 2025-01-15T03:30:00+00:00\n');
+      expect(writer.generateFileName()).toBe('Late Call - 2025-01-15 0330.md');
+    });
+
+    it('lists the routing rule\'s tags', () => {
+      const writer = new TranscriptWriter({
+        uuid: 'test-uuid',
+        id: 123456789,
+        topic: 'Acme Sync',
+        start_time: '2025-01-15T09:00:00Z',
+        duration: 30,
+      }, { tags: ['meeting', 'clients/acme'] });
+
+      expect(writer.generateTranscript('WEBVTT\n\n', [])).toContain('tags:\n  - meeting\n  - clients/acme\n');
+      expect(new TranscriptWriter({ uuid: 'u', id: 1, topic: 'T' }).generateTranscript('WEBVTT\n\n', [])).not.toContain('tags:');
+    });
+
     it('handles missing optional fields - no attendees', () => {
       const recording: ZoomRecording = {
         uuid: 'test-uuid',
@@ -192,7 +347,7 @@ Alice: Hello team.`;
         recording_files: [],
       };
 
-      const writer = new TranscriptWriter(recording);
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
       const result = writer.generateTranscript('WEBVTT\n\n', []);
 
       expect(result).toContain('attendees:');
@@ -220,7 +375,7 @@ Alice: Hello team.`;
         recording_files: [],
       };
 
-      const writer = new TranscriptWriter(recording);
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
       const result = writer.generateTranscript('WEBVTT\n\n', []);
 
       expect(result).toContain('recording_url: ""');
@@ -241,7 +396,7 @@ Alice: Hello team.`;
         recording_files: [],
       };
 
-      const writer = new TranscriptWriter(recording);
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
       const result = writer.generateTranscript('WEBVTT\n\n', []);
 
       // Check exact format: starts with --- and has closing ---
@@ -257,6 +412,32 @@ Alice: Hello team.`;
     });
   });
 
+  describe('generateTranscript - managed regions', () => {
+    it('wraps header, attendees and transcript sections in managed regions', () => {
+      const recording: ZoomRecording = {
+        uuid: 'test-uuid',
+        id: 123456789,
+        account_id: 'acc-123',
+        host_id: 'host-456',
+        topic: 'Test',
+        type: 2,
+        start_time: '2025-01-15T09:00:00Z',
+        duration: 30,
+        total_size: 1000000,
+        recording_count: 1,
+        recording_files: [],
+      };
+
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
+      const result = writer.generateTranscript('WEBVTT\n\n1\n00:00:05.000 --> 00:00:10.000\nAlice: Hi', ['Alice']);
+
+      expect(result).toContain('<!-- zoom-sync:start header -->\n# Test');
+      expect(result).toContain('- Alice\n<!-- zoom-sync:end attendees -->');
+      expect(result).toContain('<!-- zoom-sync:start transcript -->\n## Transcript');
+      expect(result.trimEnd().endsWith('<!-- zoom-sync:end transcript -->')).toBe(true);
+    });
+  });
+
   describe('generateFileName - file name sanitization', () => {
     it('generates filename from meeting topic', () => {
       const recording: ZoomRecording = {
@@ -273,10 +454,10 @@ Alice: Hello team.`;
         recording_files: [],
       };
 
-      const writer = new TranscriptWriter(recording);
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
       const fileName = writer.generateFileName();
 
-      expect(fileName).toBe('Team Standup Meeting.md');
+      expect(fileName).toBe('Team Standup Meeting - 2025-01-15 0900.md');
     });
 
     it('replaces colon with dash for readability', () => {
@@ -294,10 +475,10 @@ Alice: Hello team.`;
         recording_files: [],
       };
 
-      const writer = new TranscriptWriter(recording);
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
       const fileName = writer.generateFileName();
 
-      expect(fileName).toBe('Q4 Planning - What Next.md');
+      expect(fileName).toBe('Q4 Planning - What Next - 2025-01-15 0900.md');
     });
 
     it('removes unsafe filesystem characters', () => {
@@ -315,12 +496,12 @@ Alice: Hello team.`;
         recording_files: [],
       };
 
-      const writer = new TranscriptWriter(recording);
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
       const fileName = writer.generateFileName();
 
       // Should not contain: / \ * ? " < > |
       expect(fileName).not.toMatch(/[\/\\*?"<>|]/);
-      expect(fileName).toBe('Meeting - TestReviewFinalDraftv12345.md');
+      expect(fileName).toBe('Meeting - TestReviewFinalDraftv12345 - 2025-01-15 0900.md');
     });
 
     it('removes single quotes', () => {
@@ -338,10 +519,10 @@ Alice: Hello team.`;
         recording_files: [],
       };
 
-      const writer = new TranscriptWriter(recording);
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
       const fileName = writer.generateFileName();
 
-      expect(fileName).toBe('Whats Next Q4.md');
+      expect(fileName).toBe('Whats Next Q4 - 2025-01-15 0900.md');
     });
 
     it('collapses multiple spaces into single space', () => {
@@ -359,10 +540,10 @@ Alice: Hello team.`;
         recording_files: [],
       };
 
-      const writer = new TranscriptWriter(recording);
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
       const fileName = writer.generateFileName();
 
-      expect(fileName).toBe('Team Meeting Notes.md');
+      expect(fileName).toBe('Team Meeting Notes - 2025-01-15 0900.md');
     });
 
     it('trims leading and trailing whitespace', () => {
@@ -380,10 +561,10 @@ Alice: Hello team.`;
         recording_files: [],
       };
 
-      const writer = new TranscriptWriter(recording);
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
       const fileName = writer.generateFileName();
 
-      expect(fileName).toBe('Spaced Meeting.md');
+      expect(fileName).toBe('Spaced Meeting - 2025-01-15 0900.md');
     });
 
     it('handles empty topic - uses default name', () => {
@@ -401,10 +582,10 @@ Alice: Hello team.`;
         recording_files: [],
       };
 
-      const writer = new TranscriptWriter(recording);
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
       const fileName = writer.generateFileName();
 
-      expect(fileName).toBe('Untitled Meeting.md');
+      expect(fileName).toBe('Untitled Meeting - 2025-01-15 0900.md');
     });
 
     it('handles topic with only unsafe characters - uses default name', () => {
@@ -422,10 +603,10 @@ Alice: Hello team.`;
         recording_files: [],
       };
 
-      const writer = new TranscriptWriter(recording);
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
       const fileName = writer.generateFileName();
 
-      expect(fileName).toBe('Untitled Meeting.md');
+      expect(fileName).toBe('Untitled Meeting - 2025-01-15 0900.md');
     });
 
     it('limits filename length to 200 characters before extension', () => {
@@ -443,11 +624,11 @@ Alice: Hello team.`;
         recording_files: [],
       };
 
-      const writer = new TranscriptWriter(recording);
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
       const fileName = writer.generateFileName();
 
-      expect(fileName.length).toBeLessThanOrEqual(203); // 200 + '.md'
-      expect(fileName).toBe('A'.repeat(200) + '.md');
+      // The topic is cut to 200 characters before the time suffix is added
+      expect(fileName).toBe('A'.repeat(200) + ' - 2025-01-15 0900.md');
     });
 
     it('appends meeting ID when includeId is true', () => {
@@ -465,10 +646,10 @@ Alice: Hello team.`;
         recording_files: [],
       };
 
-      const writer = new TranscriptWriter(recording);
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
       const fileName = writer.generateFileName(true);
 
-      expect(fileName).toBe('Team Meeting (123456789).md');
+      expect(fileName).toBe('Team Meeting - 2025-01-15 0900 (123456789).md');
     });
 
     it('does not append meeting ID when includeId is false', () => {
@@ -486,10 +667,73 @@ Alice: Hello team.`;
         recording_files: [],
       };
 
-      const writer = new TranscriptWriter(recording);
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
       const fileName = writer.generateFileName(false);
 
-      expect(fileName).toBe('Team Meeting.md');
+      expect(fileName).toBe('Team Meeting - 2025-01-15 0900.md');
+    });
+  });
+
+  describe('generateFileName - file name templates', () => {
+    const meeting = {
+      uuid: 'abc/123==',
+      id: 123456789,
+      topic: 'Q4 Planning: Budget',
+      start_time: '2025-01-15T09:05:00Z',
+      duration: 30,
+    };
+
+    it('fills in date-first templates with host and ID', () => {
+      const writer = new TranscriptWriter(meeting, {
+        fileNameTemplate: '{{date:YYYY-MM-DD}} {{time:HH.mm}} {{topic}} ({{host}}, {{id}})',
+      });
+
+      expect(writer.generateFileName(false, { name: 'Jane Doe' })).toBe(
+        '2025-01-15 09.05 Q4 Planning - Budget (Jane Doe, 123456789).md'
+      );
+    });
+
+    it('uses the timezone for dates and sanitizes every token', () => {
+      const writer = new TranscriptWriter(meeting, {
+        fileNameTemplate: '{{date:D MMM YY}} {{uuid}} {{host}}',
+        timeZone: 'Pacific/Auckland',
+      });
+
+      expect(writer.generateFileName(false, { name: 'R&D: "Ops"' })).toBe('15 Jan 25 abc123== R&D - Ops.md');
+    });
+
+    it('drops separators left by empty tokens and keeps the collision suffix', () => {
+      const writer = new TranscriptWriter({ ...meeting, start_time: undefined }, {
+        fileNameTemplate: '{{date}} - {{topic}} - {{host}}',
+      });
+
+      expect(writer.generateFileName()).toBe('Q4 Planning - Budget.md');
+      expect(writer.generateFileName(true)).toBe('Q4 Planning - Budget (123456789).md');
+    });
+
+    it('limits names from a custom template to 200 characters, shortening the topic', () => {
+      const writer = new TranscriptWriter({ ...meeting, topic: 'A'.repeat(250) }, {
+        fileNameTemplate: '{{date}} {{topic}} ({{id}})',
+      });
+
+      expect(writer.generateFileName()).toBe('2025-01-15 ' + 'A'.repeat(177) + ' (123456789).md');
+    });
+
+    it('puts the note in the rendered subfolder', () => {
+      const writer = new TranscriptWriter(meeting, { folder: 'Clients/{{host}}/{{date:YYYY}}/{{date:MM}}/' });
+
+      expect(writer.generateFileName(false, { name: 'Jane Doe' })).toBe(
+        'Clients/Jane Doe/2025/01/Q4 Planning - Budget - 2025-01-15 0905.md'
+      );
+      expect(writer.generateFileName(true, { name: 'Jane Doe' })).toBe(
+        'Clients/Jane Doe/2025/01/Q4 Planning - Budget - 2025-01-15 0905 (123456789).md'
+      );
+    });
+
+    it('leaves empty, "." and ".." folder names out of the subfolder', () => {
+      const writer = new TranscriptWriter(meeting, { folder: '../Hosts/{{host}}/./Notes' });
+
+      expect(writer.generateFileName()).toBe('Hosts/Notes/Q4 Planning - Budget - 2025-01-15 0905.md');
     });
   });
 });
@@ -0,0 +1,122 @@
+/**
+ * Unit tests for in-meeting chat import.
+ * Tests parseChat() from src/meeting-chat.ts and how TranscriptWriter adds chat to notes.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock the obsidian module before importing transcript-writer
+vi.mock('obsidian', async () => {
+  const mocks = await import('./mocks/obsidian');
+  return mocks;
+});
+
+import { parseChat, formatChatMessages } from '../src/meeting-chat';
+import { TranscriptWriter, interleaveChat, parseVtt } from '../src/transcript-writer';
+
+const CHAT = `00:00:07\t From  Jane Doe  to  Everyone:
+\tSlides are at https://example.com/slides
+00:00:12\t From  Bob  to  Everyone:
+\tFirst line
+\tSecond line
+`;
+
+const VTT = `WEBVTT
+
+1
+00:00:05.000 --> 00:00:08.000
+Alice: Welcome.
+
+2
+00:00:10.000 --> 00:00:14.000
+Alice: Let's look at the slides.`;
+
+const meeting = {
+  uuid: 'uuid-1',
+  id: 1,
+  topic: 'Review',
+  start_time: '2025-01-15T10:00:00Z',
+  duration: 30,
+};
+
+describe('parseChat', () => {
+  it('parses messages written under a header line', () => {
+    expect(parseChat(CHAT)).toEqual([
+      { timestamp: '00:00:07', sender: 'Jane Doe', text: 'Slides are at https://example.com/slides' },
+      { timestamp: '00:00:12', sender: 'Bob', text: 'First line\nSecond line' },
+    ]);
+  });
+
+  it('parses the older one-line format', () => {
+    const chat = '00:01:02\t From  Jane Doe : Hello: everyone\r\n0:01:05\t From Bob : Hi\r\n';
+
+    expect(parseChat(chat)).toEqual([
+      { timestamp: '00:01:02', sender: 'Jane Doe', text: 'Hello: everyone' },
+      { timestamp: '00:01:05', sender: 'Bob', text: 'Hi' },
+    ]);
+  });
+
+  it('shifts message times by an offset', () => {
+    expect(parseChat(CHAT, 3600000)[0].timestamp).toBe('01:00:07');
+  });
+
+  it('ignores empty messages and content without headers', () => {
+    expect(parseChat('00:00:01\t From  Jane  to  Everyone:\n\n')).toEqual([]);
+    expect(parseChat('not a chat file')).toEqual([]);
+  });
+});
+
+describe('formatChatMessages', () => {
+  it('formats messages like transcript entries', () => {
+    expect(formatChatMessages(parseChat(CHAT))).toBe(
+      '**00:00:07 - Jane Doe:**\nSlides are at https://example.com/slides\n\n**00:00:12 - Bob:**\nFirst line\nSecond line'
+    );
+  });
+});
+
+describe('interleaveChat', () => {
+  it('places messages among transcript entries by time', () => {
+    const merged = interleaveChat(parseVtt(VTT), parseChat(CHAT));
+
+    expect(merged.map(entry => `${entry.timestamp} ${entry.speaker}${entry.chat ? ' (chat)' : ''}`)).toEqual([
+      '00:00:05 Alice',
+      '00:00:07 Jane Doe (chat)',
+      '00:00:10 Alice',
+      '00:00:12 Bob (chat)',
+    ]);
+  });
+
+  it('adds messages after the last entry to the end', () => {
+    const merged = interleaveChat([], parseChat(CHAT));
+    expect(merged).toHaveLength(2);
+  });
+});
+
+describe('TranscriptWriter chat modes', () => {
+  it('adds a separate chat section', () => {
+    const writer = new TranscriptWriter(meeting, { chatMode: 'section' });
+
+    const note = writer.generateTranscript(VTT, ['Alice'], { chat: parseChat(CHAT) });
+
+    expect(note).toContain('<!-- zoom-sync:start chat -->\n## Chat\n\n**00:00:07 - Jane Doe:**');
+    expect(note.indexOf('## Transcript')).toBeLessThan(note.indexOf('## Chat'));
+  });
+
+  it('interleaves chat messages into the transcript as quotes', () => {
+    const writer = new TranscriptWriter(meeting, { chatMode: 'interleaved' });
+
+    const note = writer.generateTranscript(VTT, ['Alice'], { chat: parseChat(CHAT) });
+
+    expect(note).not.toContain('## Chat');
+    expect(note).toContain(
+      '**00:00:05 - Alice:**\nWelcome.\n\n> **00:00:07 - Jane Doe (chat):**\n> Slides are at https://example.com/slides\n\n**00:00:10 - Alice:**'
+    );
+    expect(note).toContain('> **00:00:12 - Bob (chat):**\n> First line\n> Second line');
+  });
+
+  it('leaves chat out when chat import is off', () => {
+    const note = new TranscriptWriter(meeting).generateTranscript(VTT, ['Alice'], { chat: parseChat(CHAT) });
+
+    expect(note).not.toContain('Jane Doe');
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for sync filters.
+ * Tests getFilterReason(), usesHostFilter(), usesAttendanceFilter() and isValidTopicFilter()
+ * from src/meeting-filters.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { getFilterReason, usesHostFilter, usesAttendanceFilter, isValidTopicFilter } from '../src/meeting-filters';
+import { SourceMeeting } from '../src/types';
+
+describe('sync filters', () => {
+  const noFilters = {
+    filterTopicInclude: '',
+    filterTopicExclude: '',
+    filterHostAllow: '',
+    filterHostDeny: '',
+    filterMinDurationMinutes: 0,
+    filterMeetingTypes: '',
+    filterMinParticipants: 0,
+    filterAttendeeEmail: '',
+  };
+
+  const meeting: SourceMeeting = {
+    uuid: 'uuid-1',
+    id: 123456789,
+    topic: 'Project sync',
+    start_time: '2025-01-15T09:00:00Z',
+    duration: 30,
+    type: 8,
+  };
+
+  it('lets every meeting through without filters', () => {
+    expect(getFilterReason(noFilters, meeting, { host: null, attendees: [] })).toBeNull();
+  });
+
+  it('filters topics by include and exclude patterns, ignoring case', () => {
+    expect(getFilterReason({ ...noFilters, filterTopicInclude: '^project' }, meeting)).toBeNull();
+    expect(getFilterReason({ ...noFilters, filterTopicInclude: 'standup' }, meeting)).toBe('Topic does not match the include filter');
+    expect(getFilterReason({ ...noFilters, filterTopicExclude: 'HR|SYNC' }, meeting)).toBe('Topic matches the exclude filter');
+  });
+
+  it('ignores topic patterns that are not valid regular expressions', () => {
+    expect(isValidTopicFilter('(')).toBe(false);
+    expect(getFilterReason({ ...noFilters, filterTopicInclude: '(' }, meeting)).toBeNull();
+  });
+
+  it('filters short meetings and unwanted meeting types', () => {
+    expect(getFilterReason({ ...noFilters, filterMinDurationMinutes: 45 }, meeting)).toBe('Shorter than 45 minutes');
+    expect(getFilterReason({ ...noFilters, filterMinDurationMinutes: 30 }, meeting)).toBeNull();
+    expect(getFilterReason({ ...noFilters, filterMeetingTypes: '2, 8' }, meeting)).toBeNull();
+    expect(getFilterReason({ ...noFilters, filterMeetingTypes: '1,2' }, meeting)).toBe('Meeting type 8 is not included');
+  });
+
+  describe('host filters', () => {
+    const host = { name: 'Jane Doe', email: 'jane@example.com' };
+
+    it('are only checked once the host was looked up', () => {
+      const settings = { ...noFilters, filterHostAllow: 'bob@example.com' };
+
+      expect(usesHostFilter(settings)).toBe(true);
+      expect(usesHostFilter(noFilters)).toBe(false);
+      expect(getFilterReason(settings, meeting)).toBeNull();
+      expect(getFilterReason(settings, meeting, { host })).toBe('Host is not in the allow list');
+    });
+
+    it('match the host by name or email', () => {
+      expect(getFilterReason({ ...noFilters, filterHostAllow: 'bob@example.com, JANE@example.com' }, meeting, { host })).toBeNull();
+      expect(getFilterReason({ ...noFilters, filterHostDeny: 'Jane Doe' }, meeting, { host })).toBe('Host is in the deny list');
+    });
+
+    it('filter out unknown hosts only with an allow list', () => {
+      expect(getFilterReason({ ...noFilters, filterHostAllow: 'Jane Doe' }, meeting, { host: null }))
+        .toBe('Host unknown, so not in the allow list');
+      expect(getFilterReason({ ...noFilters, filterHostDeny: 'Jane Doe' }, meeting, { host: null })).toBeNull();
+    });
+  });
+
+  describe('participant filters', () => {
+    const attendees = [
+      { name: 'Jane Doe', email: 'jane@example.com' },
+      { name: 'Guest' },
+    ];
+
+    it('use the listing\'s participant count when there is one', () => {
+      const settings = { ...noFilters, filterMinParticipants: 3 };
+
+      expect(usesAttendanceFilter(settings, { ...meeting, participantCount: 2 })).toBe(false);
+      expect(getFilterReason(settings, { ...meeting, participantCount: 2 })).toBe('Fewer than 3 participants');
+      expect(getFilterReason(settings, { ...meeting, participantCount: 5 }, { attendees })).toBeNull();
+    });
+
+    it('count the attendees otherwise, letting meetings with no known attendees through', () => {
+      const settings = { ...noFilters, filterMinParticipants: 3 };
+
+      expect(usesAttendanceFilter(settings, meeting)).toBe(true);
+      expect(getFilterReason(settings, meeting, { attendees })).toBe('Fewer than 3 participants');
+      expect(getFilterReason(settings, meeting, { attendees: [] })).toBeNull();
+    });
+
+    it('only keep meetings the given email attended', () => {
+      const settings = { ...noFilters, filterAttendeeEmail: 'Jane@Example.com' };
+
+      expect(usesAttendanceFilter(settings, { ...meeting, participantCount: 2 })).toBe(true);
+      expect(getFilterReason(settings, meeting)).toBeNull();
+      expect(getFilterReason(settings, meeting, { attendees })).toBeNull();
+      expect(getFilterReason(settings, meeting, { attendees: [{ name: 'John Smith', email: 'john@example.com' }] }))
+        .toBe('Not attended by Jane@Example.com');
+    });
+
+    it('leave out meetings whose attendance is unknown', () => {
+      const settings = { ...noFilters, filterAttendeeEmail: 'jane@example.com' };
+      const reason = 'Attendance unknown';
+
+      expect(getFilterReason(settings, meeting, { attendees: [] })).toBe(reason);
+      expect(getFilterReason(settings, meeting, { attendees: [{ name: 'John Smith' }] })).toBe(reason);
+    });
+  });
+});
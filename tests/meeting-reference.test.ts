@@ -0,0 +1,56 @@
+/**
+ * Unit tests for parsing meeting IDs, UUIDs, and Zoom links.
+ * Tests parseMeetingReference() and normalizeRecordingUrl() from src/meeting-reference.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseMeetingReference, normalizeRecordingUrl } from '../src/meeting-reference';
+
+describe('parseMeetingReference', () => {
+  it('parses meeting IDs with or without separators', () => {
+    expect(parseMeetingReference('12345678901')).toEqual({ kind: 'id', meetingId: '12345678901' });
+    expect(parseMeetingReference(' 123 4567 8901 ')).toEqual({ kind: 'id', meetingId: '12345678901' });
+    expect(parseMeetingReference('123-456-789')).toEqual({ kind: 'id', meetingId: '123456789' });
+  });
+
+  it('parses occurrence UUIDs', () => {
+    expect(parseMeetingReference('4444AAAiAAAAAiAiAiiAii==')).toEqual({ kind: 'uuid', uuid: '4444AAAiAAAAAiAiAiiAii==' });
+    expect(parseMeetingReference('ab/cdef+ghijklmnopqrst==')).toEqual({ kind: 'uuid', uuid: 'ab/cdef+ghijklmnopqrst==' });
+  });
+
+  it('parses join links', () => {
+    expect(parseMeetingReference('https://us02web.zoom.us/j/12345678901?pwd=abc')).toEqual({
+      kind: 'id',
+      meetingId: '12345678901',
+    });
+    expect(parseMeetingReference('https://zoom.us/wc/join/123456789')).toEqual({ kind: 'id', meetingId: '123456789' });
+  });
+
+  it('parses web portal links with a meeting_id parameter', () => {
+    expect(
+      parseMeetingReference('https://zoom.us/recording/management/detail?meeting_id=4444AAAiAAAAAiAiAiiAii%3D%3D')
+    ).toEqual({ kind: 'uuid', uuid: '4444AAAiAAAAAiAiAiiAii==' });
+  });
+
+  it('keeps recording share and play links for lookup', () => {
+    const share = 'https://us02web.zoom.us/rec/share/abcDEF.123?startTime=1700000000000';
+    expect(parseMeetingReference(share)).toEqual({ kind: 'share', url: share });
+    expect(parseMeetingReference('https://zoom.us/rec/play/xyz')?.kind).toBe('share');
+  });
+
+  it('rejects other input', () => {
+    expect(parseMeetingReference('')).toBeNull();
+    expect(parseMeetingReference('weekly standup')).toBeNull();
+    expect(parseMeetingReference('1234')).toBeNull();
+    expect(parseMeetingReference('https://example.com/j/12345678901')).toBeNull();
+    expect(parseMeetingReference('https://zoom.us/profile')).toBeNull();
+  });
+});
+
+describe('normalizeRecordingUrl', () => {
+  it('ignores query strings, fragments, trailing slashes, and host case', () => {
+    expect(normalizeRecordingUrl('https://US02web.zoom.us/rec/share/abc/?startTime=1#x')).toBe(
+      normalizeRecordingUrl('https://us02web.zoom.us/rec/share/abc')
+    );
+  });
+});
@@ -1,6 +1,6 @@
 /**
  * Mock implementations of Obsidian APIs for testing.
- * Provides mock implementations of Vault, Plugin, Notice, TFile, TFolder, TAbstractFile.
+ * Provides mock implementations of Vault, Plugin, Notice, Modal, TFile, TFolder, TAbstractFile.
  */
 
 // Type definitions for mock Obsidian APIs
@@ -156,6 +156,27 @@ export class MockVault {
     return folder;
   }
 
+  /**
+   * Reads the content of a file.
+   * @param file - The file to read
+   * @returns The file content
+   */
+  async read(file: TFile): Promise<string> {
+    return this.adapter.read(file.path);
+  }
+
+  /**
+   * Replaces the content of an existing file.
+   * @param file - The file to modify
+   * @param content - New content for the file
+   */
+  async modify(file: TFile, content: string): Promise<void> {
+    if (!this.abstractFiles.has(file.path)) {
+      throw new Error(`File not found: ${file.path}`);
+    }
+    await this.adapter.write(file.path, content);
+  }
+
   /**
    * Gets an abstract file by path.
    * @param path - Path to the file or folder
@@ -165,6 +186,16 @@ export class MockVault {
     return this.abstractFiles.get(path) || null;
   }
 
+  /**
+   * Gets all markdown files in the vault.
+   * @returns Every TFile with the md extension
+   */
+  getMarkdownFiles(): TFile[] {
+    return Array.from(this.abstractFiles.values()).filter(
+      (file): file is TFile => file instanceof TFile && file.extension === 'md'
+    );
+  }
+
   // Test helper: add a file to the mock vault
   addFile(path: string, content: string = ''): TFile {
     const file = new TFile(path);
@@ -279,6 +310,25 @@ export class PluginSettingTab {
   }
 }
 
+/**
+ * Mock Modal class for testing.
+ */
+export class Modal {
+  app: unknown;
+
+  constructor(app: unknown) {
+    this.app = app;
+  }
+
+  open(): void {
+    // No-op for testing
+  }
+
+  close(): void {
+    // No-op for testing
+  }
+}
+
 /**
  * Mock Setting class for testing.
  */
@@ -0,0 +1,155 @@
+/**
+ * Unit tests for managed-region merging of transcript notes.
+ * Tests wrapManagedRegion(), extractManagedRegions() and mergeManagedNote()
+ * from src/note-merge.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { wrapManagedRegion, extractManagedRegions, mergeManagedNote, appendManagedRegion, getFrontmatterKeys } from '../src/note-merge';
+
+describe('wrapManagedRegion', () => {
+  it('surrounds content with start and end markers', () => {
+    expect(wrapManagedRegion('transcript', '## Transcript')).toBe(
+      '<!-- zoom-sync:start transcript -->\n## Transcript\n<!-- zoom-sync:end transcript -->'
+    );
+  });
+});
+
+describe('extractManagedRegions', () => {
+  it('finds every region by name', () => {
+    const content = [
+      wrapManagedRegion('header', '# Title'),
+      'User text',
+      wrapManagedRegion('transcript', '## Transcript\nLine'),
+    ].join('\n\n');
+
+    const regions = extractManagedRegions(content);
+
+    expect(Array.from(regions.keys())).toEqual(['header', 'transcript']);
+    expect(regions.get('transcript')).toContain('Line');
+  });
+
+  it('ignores unterminated regions', () => {
+    expect(extractManagedRegions('<!-- zoom-sync:start header -->\n# Title').size).toBe(0);
+  });
+});
+
+describe('mergeManagedNote', () => {
+  const generated = [
+    '---',
+    'meeting_name: "Standup"',
+    'attendees:',
+    '  - Alice',
+    '  - Bob',
+    'synced_at: 2025-01-16T08:00:00.000Z',
+    '---',
+    '',
+    wrapManagedRegion('header', '# Standup'),
+    '',
+    wrapManagedRegion('transcript', '## Transcript\n\nNew line'),
+  ].join('\n');
+
+  const existing = [
+    '---',
+    'meeting_name: "Standup"',
+    'tags:',
+    '  - project-x',
+    'attendees:',
+    '  - Alice',
+    'synced_at: 2025-01-15T08:00:00.000Z',
+    '---',
+    '',
+    wrapManagedRegion('header', '# Standup'),
+    '',
+    '> [!note] Decision: ship on Friday',
+    '',
+    wrapManagedRegion('transcript', '## Transcript\n\nOld line'),
+    '',
+    '## Follow-ups',
+    '- [[Project X]]',
+  ].join('\n');
+
+  it('replaces managed regions and preserves free text around them', () => {
+    const merged = mergeManagedNote(existing, generated)!;
+
+    expect(merged).toContain('New line');
+    expect(merged).not.toContain('Old line');
+    expect(merged).toContain('> [!note] Decision: ship on Friday');
+    expect(merged).toContain('## Follow-ups\n- [[Project X]]');
+  });
+
+  it('replaces plugin-owned frontmatter keys in place and keeps user keys', () => {
+    const merged = mergeManagedNote(existing, generated)!;
+
+    expect(merged.startsWith([
+      '---',
+      'meeting_name: "Standup"',
+      'tags:',
+      '  - project-x',
+      'attendees:',
+      '  - Alice',
+      '  - Bob',
+      'synced_at: 2025-01-16T08:00:00.000Z',
+      '---',
+    ].join('\n'))).toBe(true);
+  });
+
+  it('adds new plugin-owned keys and drops removed ones', () => {
+    const withFlag = existing.replace('synced_at:', 'transcript_changed_at: 2025-01-15T09:00:00.000Z\nsynced_at:');
+    const withHost = generated.replace('synced_at:', 'host: "Alice"\nsynced_at:');
+
+    const merged = mergeManagedNote(withFlag, withHost, ['transcript_changed_at'])!;
+
+    expect(merged).toContain('host: "Alice"');
+    expect(merged).not.toContain('transcript_changed_at');
+  });
+
+  it('does not restore regions the user deleted', () => {
+    const withoutHeader = existing.replace(wrapManagedRegion('header', '# Standup'), '# My own title');
+
+    const merged = mergeManagedNote(withoutHeader, generated)!;
+
+    expect(merged).toContain('# My own title');
+    expect(merged).not.toContain('zoom-sync:start header');
+  });
+
+  it('returns null for notes without managed regions', () => {
+    expect(mergeManagedNote('---\nmeeting_name: "x"\n---\n\n# Standup', generated)).toBeNull();
+  });
+});
+
+describe('getFrontmatterKeys', () => {
+  it('lists top-level keys, skipping list items and nested keys', () => {
+    expect(getFrontmatterKeys('---\nmeeting_name: "x"\nattendees:\n  - name: Alice\n    email: a@x.com\ntags:\n  - a\n---\n# Title'))
+      .toEqual(['meeting_name', 'attendees', 'tags']);
+  });
+
+  it('reads keys from a template, including conditional ones', () => {
+    expect(getFrontmatterKeys('---\ntopic: "{{topic}}"\n{{#if host}}\nhost: "{{host}}"\n{{/if}}\n---\n')).toEqual(['topic', 'host']);
+  });
+
+  it('returns nothing for notes without frontmatter', () => {
+    expect(getFrontmatterKeys('# Title\nkey: value')).toEqual([]);
+  });
+});
+
+describe('appendManagedRegion', () => {
+  const note = `# Standup\n\n${wrapManagedRegion('transcript', '## Transcript\n\nHello')}\n\nMy notes\n`;
+
+  it('adds a new region at the end of the note', () => {
+    const updated = appendManagedRegion(note, 'transcript-ai-companion', '## Transcript (AI Companion)\n\nHi');
+
+    expect(updated).toBe(
+      `${note.trimEnd()}\n\n${wrapManagedRegion('transcript-ai-companion', '## Transcript (AI Companion)\n\nHi')}\n`
+    );
+  });
+
+  it('replaces the region in place if the note already has it', () => {
+    const once = appendManagedRegion(note, 'transcript-ai-companion', 'First');
+    const twice = appendManagedRegion(`${once}\nMore notes\n`, 'transcript-ai-companion', 'Second');
+
+    expect(twice).toContain(wrapManagedRegion('transcript-ai-companion', 'Second'));
+    expect(twice).not.toContain('First');
+    expect(twice.endsWith('More notes\n')).toBe(true);
+  });
+});
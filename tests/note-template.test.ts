@@ -0,0 +1,207 @@
+/**
+ * Unit tests for note templates.
+ * Tests NoteTemplate from src/note-template.ts and templated notes from
+ * TranscriptWriter.generateTranscript() and readTemplate() in src/transcript-writer.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+// Mock the obsidian module before importing transcript-writer
+vi.mock('obsidian', async () => {
+  const mocks = await import('./mocks/obsidian');
+  return mocks;
+});
+
+import { NoteTemplate, TemplateSyntaxError } from '../src/note-template';
+import { TranscriptWriter } from '../src/transcript-writer';
+import { mergeManagedNote } from '../src/note-merge';
+import { SourceMeeting } from '../src/types';
+import { MockVault } from './mocks/obsidian';
+import { Vault } from 'obsidian';
+
+describe('NoteTemplate', () => {
+  it('fills in placeholders and escapes with filters', () => {
+    const template = new NoteTemplate('title: "{{topic | yaml}}"\n| {{topic | table}} |\n# {{topic}} ({{duration}} min)');
+
+    expect(template.render({ topic: 'A "B" | C', duration: 45 })).toBe(
+      'title: "A \\"B\\" | C"\n| A "B" \\| C |\n# A "B" | C (45 min)'
+    );
+  });
+
+  it('escapes line breaks and control characters for YAML', () => {
+    const template = new NoteTemplate('title: "{{topic | yaml}}"');
+
+    expect(template.render({ topic: 'Plan\r\nQ1\tdraft\u0007\u2028end' })).toBe(
+      'title: "Plan\\r\\nQ1\\tdraft\\u0007\\u2028end"'
+    );
+  });
+
+  it('leaves unknown placeholders and other plugins\' tokens alone', () => {
+    const template = new NoteTemplate('{{topic}} {{unknown}} {{date:YYYY-MM-DD}} <% tp.file.title %>');
+
+    expect(template.render({ topic: 'Standup' })).toBe('Standup {{unknown}} {{date:YYYY-MM-DD}} <% tp.file.title %>');
+  });
+
+  it('repeats each blocks with the item fields in scope', () => {
+    const template = new NoteTemplate('{{#each people}}{{name}} of {{team}}; {{/each}}');
+
+    expect(template.render({ team: 'Core', people: [{ name: 'Ann' }, { name: 'Bo' }] })).toBe('Ann of Core; Bo of Core; ');
+  });
+
+  it('renders if blocks for non-empty values, with an optional else', () => {
+    const template = new NoteTemplate('{{#if host}}Host: {{host}}{{else}}No host{{/if}}|{{#if list}}some{{/if}}');
+
+    expect(template.render({ host: 'Ann', list: [{}] })).toBe('Host: Ann|some');
+    expect(template.render({ host: '', list: [] })).toBe('No host|');
+  });
+
+  it('removes block tags that stand alone on their line', () => {
+    const template = new NoteTemplate('Attendees:\n{{#each people}}\n  - {{name}}\n{{/each}}\nEnd');
+
+    expect(template.render({ people: [{ name: 'Ann' }, { name: 'Bo' }] })).toBe('Attendees:\n  - Ann\n  - Bo\nEnd');
+    expect(template.render({ people: [] })).toBe('Attendees:\nEnd');
+  });
+
+  it('wraps region blocks in managed-region markers', () => {
+    const template = new NoteTemplate('{{#region summary}}\n## Summary\n{{text}}\n{{/region}}\n\nMy notes');
+
+    expect(template.render({ text: 'Done' })).toBe(
+      '<!-- zoom-sync:start summary -->\n## Summary\nDone\n<!-- zoom-sync:end summary -->\n\nMy notes'
+    );
+  });
+
+  it('reports malformed templates', () => {
+    expect(() => new NoteTemplate('{{#each people}}')).toThrow(TemplateSyntaxError);
+    expect(() => new NoteTemplate('{{#if a}}{{/each}}')).toThrow('Unexpected "{{/each}}"');
+    expect(() => new NoteTemplate('{{#loop a}}{{/loop}}')).toThrow('Unknown block');
+    expect(() => new NoteTemplate('{{else}}')).toThrow(TemplateSyntaxError);
+    expect(() => new NoteTemplate('{{topic | upper}}')).toThrow('Unknown filter "upper"');
+  });
+});
+
+describe('TranscriptWriter note templates', () => {
+  const meeting: SourceMeeting = {
+    uuid: 'uuid-1',
+    id: 123456789,
+    topic: 'Design Review',
+    start_time: '2025-01-15T09:00:00Z',
+    duration: 30,
+  };
+
+  const vtt = [
+    'WEBVTT',
+    '',
+    '1',
+    '00:00:16.239 --> 00:00:27.079',
+    'Jane Doe: Let us start.',
+    '',
+    '2',
+    '00:00:30.000 --> 00:00:32.000',
+    'John Smith: Sounds good.',
+  ].join('\n');
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-15T10:30:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('renders a custom template with meeting fields and loops', () => {
+    const template = [
+      '---',
+      'title: "{{topic | yaml}}"',
+      'tags: [meeting]',
+      '---',
+      '# {{topic}} on {{date}} at {{time}} {{timezone}}',
+      '',
+      '{{#each attendees}}',
+      '- [[{{name}}]] ({{minutes}} min)',
+      '{{/each}}',
+      '',
+      '## Decisions',
+      '',
+      '{{#region transcript}}',
+      '{{#each entries}}',
+      '> [{{timestamp}}] {{speaker}}: {{text}}',
+      '{{/each}}',
+      '{{/region}}',
+      '',
+      '```dataview',
+      'LIST FROM "zoom-transcripts" WHERE zoom_meeting_id = "{{meeting_id}}"',
+      '```',
+      '',
+    ].join('\n');
+    const writer = new TranscriptWriter(meeting, { template, timeZone: 'Europe/Berlin' });
+
+    const result = writer.generateTranscript(vtt, [], {
+      attendance: [{ name: 'Jane Doe', durationMinutes: 30 }, { name: 'John Smith', durationMinutes: 12 }],
+    });
+
+    expect(result).toBe([
+      '---',
+      'title: "Design Review"',
+      'tags: [meeting]',
+      '---',
+      '# Design Review on January 15, 2025 at 10:00 Europe/Berlin',
+      '',
+      '- [[Jane Doe]] (30 min)',
+      '- [[John Smith]] (12 min)',
+      '',
+      '## Decisions',
+      '',
+      '<!-- zoom-sync:start transcript -->',
+      '> [00:00:16] Jane Doe: Let us start.',
+      '> [00:00:30] John Smith: Sounds good.',
+      '<!-- zoom-sync:end transcript -->',
+      '',
+      '```dataview',
+      'LIST FROM "zoom-transcripts" WHERE zoom_meeting_id = "123456789"',
+      '```',
+    ].join('\n'));
+  });
+
+  it('lists interleaved chat messages among the entries', () => {
+    const template = '{{#each entries}}\n{{#if is_chat}}chat {{/if}}{{timestamp}} {{speaker}}\n{{/each}}';
+    const writer = new TranscriptWriter(meeting, { template, chatMode: 'interleaved' });
+
+    const result = writer.generateTranscript(vtt, [], {
+      chat: [{ timestamp: '00:00:20', sender: 'Bob', text: 'Link' }],
+    });
+
+    expect(result).toBe('00:00:16 Jane Doe\nchat 00:00:20 Bob\n00:00:30 John Smith');
+  });
+
+  it('gives entries their cue end time', () => {
+    const writer = new TranscriptWriter(meeting, { template: '{{#each entries}}\n{{timestamp}}-{{end}} {{speaker}}\n{{/each}}' });
+
+    expect(writer.generateTranscript(vtt, [])).toBe('00:00:16-00:00:27 Jane Doe\n00:00:30-00:00:32 John Smith');
+  });
+
+  it('keeps user edits when a templated note is regenerated', () => {
+    const template = '---\ntopic: "{{topic}}"\n---\n## Notes\n\n{{#region transcript}}\n{{transcript}}\n{{/region}}\n';
+    const first = new TranscriptWriter(meeting, { template }).generateTranscript(vtt, []);
+    const edited = first.replace('## Notes\n', '## Notes\nAgreed to ship.\n');
+
+    const merged = mergeManagedNote(edited, new TranscriptWriter({ ...meeting, topic: 'Renamed' }, { template })
+      .generateTranscript('WEBVTT\n\n1\n00:00:01.000 --> 00:00:02.000\nJane Doe: New.', []));
+
+    expect(merged).toContain('topic: "Renamed"');
+    expect(merged).toContain('Agreed to ship.');
+    expect(merged).toContain('Jane Doe:**\nNew.');
+    expect(merged).not.toContain('Let us start.');
+  });
+
+  describe('readTemplate', () => {
+    it('reads the template note, with or without the .md extension', async () => {
+      const mockVault = new MockVault();
+      mockVault.addFile('Templates/Zoom.md', '# {{topic}}');
+
+      expect(await TranscriptWriter.readTemplate(mockVault as unknown as Vault, 'Templates/Zoom.md')).toBe('# {{topic}}');
+      expect(await TranscriptWriter.readTemplate(mockVault as unknown as Vault, 'Templates/Zoom')).toBe('# {{topic}}');
+      expect(await TranscriptWriter.readTemplate(mockVault as unknown as Vault, 'Templates/Missing')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,514 @@
+/**
+ * Integration tests for the sync loop in src/main.ts.
+ * Drives ZoomTranscriptSync.syncTranscripts() with a mock Vault and fake transcript
+ * sources standing in for the Zoom listings.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+// Mock the obsidian module before importing main
+vi.mock('obsidian', async () => {
+  const mocks = await import('./mocks/obsidian');
+  return mocks;
+});
+
+import ZoomTranscriptSync from '../src/main';
+import { TRANSCRIPT_SOURCES } from '../src/source-registry';
+import { RecordingTranscriptSource } from '../src/recording-source';
+import { ZoomApiClient } from '../src/zoom-api';
+import { SyncStateManager } from '../src/sync-state';
+import { TranscriptLookup, TranscriptSource } from '../src/transcript-source';
+import { SourceMeeting, TranscriptSourceKind, ZoomRecording } from '../src/types';
+import { MockVault, Notice } from './mocks/obsidian';
+import { Vault } from 'obsidian';
+
+const folder = 'zoom-transcripts';
+
+function vtt(text: string): string {
+  return `WEBVTT\n\n1\n00:00:01.000 --> 00:00:04.000\nJane Doe: ${text}\n`;
+}
+
+function meeting(id: number, overrides: Partial<SourceMeeting> = {}): SourceMeeting {
+  return {
+    uuid: `uuid-${id}`,
+    id,
+    topic: `Meeting ${id}`,
+    start_time: '2025-01-15T10:00:00Z',
+    duration: 30,
+    ...overrides,
+  };
+}
+
+/**
+ * A transcript lookup that downloads the given content. The remote file changes with
+ * the content, as it does on Zoom.
+ */
+function ready(content: string, kind: TranscriptSourceKind = 'recording'): Extract<TranscriptLookup, { status: 'ready' }> {
+  return {
+    status: 'ready',
+    transcript: {
+      remoteFile: { fileId: `file-${content.length}`, fileSize: content.length },
+      attendees: [],
+      kind: kind === 'recording' ? 'audio_transcript' : 'ai_companion',
+      download: vi.fn(async () => content),
+      downloadAttendance: async () => null,
+      resolveHost: async () => null,
+    },
+  };
+}
+
+/**
+ * A fake source listing the given meetings, with the transcript lookups set per meeting UUID.
+ * Meetings dropped from `meetings` can still be fetched for a retry.
+ */
+class FakeSource implements TranscriptSource {
+  readonly label: string;
+  meetings: SourceMeeting[] = [];
+  lookups = new Map<string, TranscriptLookup>();
+  private known = new Map<string, SourceMeeting>();
+  listMeetings = vi.fn(async () => [...this.meetings]);
+  getMeeting = vi.fn(async (uuid: string) => this.known.get(uuid) ?? null);
+
+  constructor(readonly kind: TranscriptSourceKind) {
+    this.label = `${kind} transcripts`;
+  }
+
+  add(listed: SourceMeeting, lookup: TranscriptLookup): this {
+    this.meetings.push(listed);
+    this.known.set(listed.uuid, listed);
+    this.lookups.set(listed.uuid, lookup);
+    return this;
+  }
+
+  async findMeeting(): Promise<SourceMeeting | null> {
+    return null;
+  }
+
+  async findTranscript(listed: SourceMeeting): Promise<TranscriptLookup> {
+    return this.lookups.get(listed.uuid) ?? { status: 'unavailable', reason: 'No transcript' };
+  }
+}
+
+describe('ZoomTranscriptSync sync loop', () => {
+  let plugin: ZoomTranscriptSync;
+  let vault: MockVault;
+  let recordings: FakeSource;
+  let aiCompanion: FakeSource;
+
+  const readState = async () => {
+    const stateManager = new SyncStateManager(vault as unknown as Vault, folder);
+    await stateManager.readState();
+    return stateManager;
+  };
+
+  const readNote = async (uuid: string) => {
+    const entry = (await readState()).getSyncedMeeting(uuid);
+    return entry ? vault.adapter.getFile(`${folder}/${entry.fileName}`) : undefined;
+  };
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    Notice.clear();
+
+    plugin = new ZoomTranscriptSync({} as never, {} as never);
+    await plugin.loadSettings();
+    plugin.settings.timezoneMode = 'zone';
+    plugin.settings.timezone = 'UTC';
+    vault = plugin.app.vault as unknown as MockVault;
+    vault.addFolder(folder);
+
+    recordings = new FakeSource('recording');
+    aiCompanion = new FakeSource('ai_companion');
+    const fakes = { recording: recordings, ai_companion: aiCompanion };
+    for (const registration of TRANSCRIPT_SOURCES) {
+      vi.spyOn(registration, 'create').mockImplementation(() => fakes[registration.kind]);
+    }
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('transcript updates', () => {
+    beforeEach(async () => {
+      recordings.add(meeting(1), ready(vtt('First version')));
+      await plugin.syncTranscripts();
+      recordings.lookups.set('uuid-1', ready(vtt('Second version, edited on Zoom')));
+    });
+
+    it('writes a note for a new meeting', async () => {
+      expect(await readNote('uuid-1')).toContain('First version');
+      expect((await readState()).getSyncedMeeting('uuid-1')?.frontmatterKeys).toContain('meeting_name');
+      expect(Notice.getAll()).toContain('Synced 1 new transcript(s)');
+    });
+
+    it('flags the note when the transcript changed on Zoom', async () => {
+      plugin.settings.transcriptUpdateMode = 'flag';
+
+      await plugin.syncTranscripts();
+
+      const note = await readNote('uuid-1');
+      expect(note).toContain('First version');
+      expect(note).toMatch(/^transcript_changed_at: /m);
+      expect(Notice.getLast()).toBe('1 transcript(s) changed on Zoom and were flagged');
+    });
+
+    it('regenerates the note in place in overwrite mode', async () => {
+      plugin.settings.transcriptUpdateMode = 'overwrite';
+      const fileName = (await readState()).getSyncedMeeting('uuid-1')?.fileName;
+
+      await plugin.syncTranscripts();
+
+      const note = await readNote('uuid-1');
+      expect((await readState()).getSyncedMeeting('uuid-1')?.fileName).toBe(fileName);
+      expect(note).toContain('Second version, edited on Zoom');
+      expect(note).not.toContain('First version');
+      expect(Notice.getLast()).toBe('Updated 1 transcript(s) that changed on Zoom');
+    });
+
+    it('keeps frontmatter properties the user added when regenerating the note', async () => {
+      plugin.settings.transcriptUpdateMode = 'overwrite';
+      const path = `${folder}/${(await readState()).getSyncedMeeting('uuid-1')?.fileName}`;
+      const note = vault.adapter.getFile(path) as string;
+      vault.adapter.setFile(path, note.replace(/^---\n/, '---\ntags:\n  - mine\nmy_prop: keep\n'));
+
+      await plugin.syncTranscripts();
+
+      const updated = await readNote('uuid-1');
+      expect(updated).toContain('Second version, edited on Zoom');
+      expect(updated).toContain('tags:\n  - mine');
+      expect(updated).toContain('my_prop: keep');
+    });
+
+    it('leaves the note alone when the transcript is unchanged', async () => {
+      recordings.lookups.set('uuid-1', ready(vtt('First version')));
+      const before = await readNote('uuid-1');
+      Notice.clear();
+
+      await plugin.syncTranscripts();
+
+      expect(await readNote('uuid-1')).toBe(before);
+      expect(Notice.getAll()).toEqual([]);
+    });
+  });
+
+  describe('dry runs', () => {
+    beforeEach(() => {
+      plugin.settings.fetchAICompanionTranscripts = true;
+    });
+
+    it('plans the sync without writing notes or state', async () => {
+      const lookup = ready(vtt('Hello'));
+      recordings.add(meeting(1), lookup).add(meeting(2), { status: 'unavailable', reason: 'No transcript file' });
+
+      const plan = await plugin.syncTranscripts({ dryRun: true });
+
+      expect(plan.map(item => [item.uuid, item.action, item.reason])).toEqual([
+        ['uuid-1', 'create', undefined],
+        ['uuid-2', 'filter', 'No transcript file'],
+      ]);
+      expect(plan[0].fileName).toBe('Meeting 1 - 2025-01-15 1000.md');
+      expect(vault.adapter.getAllPaths()).toEqual([]);
+      expect(lookup.transcript.download).not.toHaveBeenCalled();
+    });
+
+    it('shows one row per meeting, from the source that would handle it', async () => {
+      recordings.add(meeting(1), { status: 'unavailable', reason: 'No transcript file' });
+      aiCompanion.add(meeting(1), ready(vtt('Hello'), 'ai_companion'));
+      recordings.add(meeting(2), ready(vtt('Hi')));
+      aiCompanion.add(meeting(2), ready(vtt('Hi'), 'ai_companion'));
+
+      const plan = await plugin.syncTranscripts({ dryRun: true });
+
+      expect(plan.map(item => [item.uuid, item.source, item.action])).toEqual([
+        ['uuid-1', 'ai_companion', 'create'],
+        ['uuid-2', 'recording', 'create'],
+      ]);
+    });
+
+    it('imports only the meetings picked from the plan', async () => {
+      recordings.add(meeting(1), ready(vtt('Hello'))).add(meeting(2), ready(vtt('Hi')));
+
+      await plugin.syncTranscripts({ onlyUuids: new Set(['uuid-2']) });
+
+      const state = await readState();
+      expect(state.getSyncedMeeting('uuid-1')).toBeNull();
+      expect(await readNote('uuid-2')).toContain('Hi');
+      expect(plugin.settings.lastSyncTimestamp).toBeUndefined();
+    });
+  });
+
+  describe('retry queue', () => {
+    const minute = 60 * 1000;
+    let lookup: ReturnType<typeof ready>;
+    let download: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2025-01-16T09:00:00Z'));
+      lookup = ready(vtt('Hello'));
+      download = vi.fn(async () => {
+        throw new Error('Download failed');
+      });
+      lookup.transcript.download = download;
+      recordings.add(meeting(1), lookup);
+    });
+
+    it('retries a failed meeting once its retry is due, even after it left the listing', async () => {
+      await plugin.syncTranscripts();
+      expect(Notice.getLast()).toBe('Sync failed for 1 transcript(s)');
+      expect((await readState()).getFailedMeeting('uuid-1')?.error).toBe('Download failed');
+
+      recordings.meetings = [];
+      download.mockResolvedValue(vtt('Hello'));
+      await plugin.syncTranscripts();
+      expect(recordings.getMeeting).not.toHaveBeenCalled();
+      expect(download).toHaveBeenCalledTimes(1);
+
+      vi.setSystemTime(Date.now() + 16 * minute);
+      await plugin.syncTranscripts();
+
+      expect(recordings.getMeeting).toHaveBeenCalledWith('uuid-1', expect.objectContaining({ attempts: 1 }));
+      expect(await readNote('uuid-1')).toContain('Hello');
+      expect((await readState()).getFailedMeeting('uuid-1')).toBeNull();
+    });
+
+    it('gives up after the maximum attempts, lists the meeting and retries it on request', async () => {
+      plugin.settings.maxRetryAttempts = 2;
+
+      await plugin.syncTranscripts();
+      vi.setSystemTime(Date.now() + 16 * minute);
+      await plugin.syncTranscripts();
+
+      expect(Notice.getLast()).toContain('Zoom sync gave up on 1 meeting(s) after 2 failed attempts');
+      expect(await plugin.getAbandonedMeetings()).toEqual([
+        expect.objectContaining({ topic: 'Meeting 1', error: 'Download failed', attempts: 2, gaveUp: true }),
+      ]);
+
+      vi.setSystemTime(Date.now() + 7 * 24 * 60 * minute);
+      await plugin.syncTranscripts();
+      expect(download).toHaveBeenCalledTimes(2);
+
+      download.mockResolvedValue(vtt('Hello'));
+      await plugin.retryFailedMeetings();
+
+      expect(await readNote('uuid-1')).toContain('Hello');
+      expect(await plugin.getAbandonedMeetings()).toEqual([]);
+    });
+  });
+
+  describe('source priority', () => {
+    beforeEach(() => {
+      plugin.settings.fetchAICompanionTranscripts = true;
+    });
+
+    it('replaces the note\'s transcript when the preferred source turns one up', async () => {
+      plugin.settings.sourcePriority = 'ai_companion';
+      recordings.add(meeting(1), ready(vtt('From the recording')));
+      await plugin.syncTranscripts();
+
+      aiCompanion.add(meeting(1), ready(vtt('From AI Companion'), 'ai_companion'));
+      await plugin.syncTranscripts();
+
+      const note = await readNote('uuid-1');
+      expect(note).toContain('From AI Companion');
+      expect(note).not.toContain('From the recording');
+      expect((await readState()).getSyncedMeeting('uuid-1')?.sources).toEqual(['ai_companion']);
+      expect(Notice.getLast()).toBe('Replaced 1 transcript(s) with the preferred source');
+    });
+
+    it('keeps the note from the preferred source when another source lists the meeting too', async () => {
+      recordings.add(meeting(1), ready(vtt('From the recording')));
+      aiCompanion.add(meeting(1), ready(vtt('From AI Companion'), 'ai_companion'));
+
+      await plugin.syncTranscripts();
+      await plugin.syncTranscripts();
+
+      const note = await readNote('uuid-1');
+      expect(note).toContain('From the recording');
+      expect(note).not.toContain('From AI Companion');
+      expect((await readState()).getSyncedMeeting('uuid-1')?.sources).toEqual(['recording']);
+    });
+
+    it('adds the second source\'s transcript as its own section when both are kept', async () => {
+      plugin.settings.sourcePriority = 'both';
+      recordings.add(meeting(1), ready(vtt('From the recording')));
+      aiCompanion.add(meeting(1), ready(vtt('From AI Companion'), 'ai_companion'));
+
+      await plugin.syncTranscripts();
+
+      const note = await readNote('uuid-1');
+      expect(note).toContain('From the recording');
+      expect(note).toContain('From AI Companion');
+      expect((await readState()).getSyncedMeeting('uuid-1')?.sources).toEqual(['recording', 'ai_companion']);
+      expect(Notice.getAll()).toEqual([
+        'Synced 1 new transcript(s)',
+        'Added a second transcript to 1 Zoom note(s)',
+      ]);
+    });
+
+    it('keeps waiting for a processing recording when AI Companion syncs the meeting first', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2025-01-15T12:00:00Z'));
+      recordings.add(meeting(1), { status: 'pending' });
+      aiCompanion.add(meeting(1), ready(vtt('From AI Companion'), 'ai_companion'));
+
+      await plugin.syncTranscripts();
+      expect(await readNote('uuid-1')).toContain('From AI Companion');
+      expect((await readState()).getPendingRecordings().map(([uuid]) => uuid)).toEqual(['uuid-1']);
+
+      recordings.lookups.set('uuid-1', ready(vtt('From the recording')));
+      await plugin.syncTranscripts();
+
+      expect(await readNote('uuid-1')).toContain('From the recording');
+      expect((await readState()).getSyncedMeeting('uuid-1')?.sources).toEqual(['recording']);
+      expect((await readState()).getPendingRecordings()).toEqual([]);
+    });
+  });
+
+  describe('sync filters', () => {
+    beforeEach(() => {
+      plugin.settings.filterTopicExclude = '^HR';
+    });
+
+    it('lists the meetings left out with the filter that matched', async () => {
+      const filtered = ready(vtt('Private'));
+      recordings.add(meeting(1), ready(vtt('Hello'))).add(meeting(2, { topic: 'HR Sync' }), filtered);
+
+      await plugin.syncTranscripts();
+
+      expect(filtered.transcript.download).not.toHaveBeenCalled();
+      expect((await readState()).getSyncedMeeting('uuid-2')).toBeNull();
+      expect(Notice.getAll()).toEqual([
+        'Synced 1 new transcript(s)',
+        'Zoom sync filtered out 1 meeting(s):\n2025-01-15 HR Sync: Topic matches the exclude filter',
+      ]);
+    });
+
+    it('reports filtered meetings when nothing was synced, once per session', async () => {
+      recordings.add(meeting(1, { topic: 'HR Sync' }), ready(vtt('Private')));
+
+      await plugin.syncTranscripts();
+      await plugin.syncTranscripts();
+
+      expect(Notice.getAll()).toEqual([
+        'Zoom sync filtered out 1 meeting(s):\n2025-01-15 HR Sync: Topic matches the exclude filter',
+      ]);
+    });
+
+    it('counts the meetings it does not list by name', async () => {
+      for (let id = 1; id <= 12; id++) {
+        recordings.add(meeting(id, { topic: `HR ${id}` }), ready(vtt('Private')));
+      }
+
+      await plugin.syncTranscripts();
+
+      const lines = Notice.getLast()?.split('\n') ?? [];
+      expect(lines[0]).toBe('Zoom sync filtered out 12 meeting(s):');
+      expect(lines).toHaveLength(12);
+      expect(lines[11]).toBe('...and 2 more');
+    });
+
+    it('lists filtered meetings in the dry-run plan', async () => {
+      recordings.add(meeting(1, { topic: 'HR Sync' }), ready(vtt('Private')));
+
+      const plan = await plugin.syncTranscripts({ dryRun: true });
+
+      expect(plan).toEqual([expect.objectContaining({
+        uuid: 'uuid-1',
+        topic: 'HR Sync',
+        startTime: '2025-01-15T10:00:00Z',
+        action: 'filter',
+        reason: 'Topic matches the exclude filter',
+      })]);
+      expect(Notice.getAll()).toEqual([]);
+    });
+
+    it('checks the attendee filter against the participant report, leaving out unknown attendance', async () => {
+      plugin.settings.filterAttendeeEmail = 'jane@example.com';
+      const attended = ready(vtt('Hello'));
+      attended.transcript.downloadAttendance = async () => [{ name: 'Jane Doe', email: 'jane@example.com' }];
+      const missed = ready(vtt('Hi'));
+      missed.transcript.downloadAttendance = async () => [{ name: 'John Smith', email: 'john@example.com' }];
+      const unknown = ready(vtt('Hey'));
+      unknown.transcript.attendees = ['John Smith'];
+      recordings.add(meeting(1), attended).add(meeting(2), missed).add(meeting(3), unknown);
+
+      await plugin.syncTranscripts();
+
+      const state = await readState();
+      expect(state.getSyncedMeeting('uuid-1')).not.toBeNull();
+      expect(state.getSyncedMeeting('uuid-2')).toBeNull();
+      expect(state.getSyncedMeeting('uuid-3')).toBeNull();
+      expect(Notice.getLast()).toBe(
+        'Zoom sync filtered out 2 meeting(s):\n' +
+        '2025-01-15 Meeting 2: Not attended by jane@example.com\n' +
+        '2025-01-15 Meeting 3: Attendance unknown'
+      );
+    });
+
+    it('queues a meeting for retry when its host can\'t be looked up', async () => {
+      plugin.settings.filterTopicExclude = '';
+      plugin.settings.filterHostAllow = 'jane@example.com';
+      const lookup = ready(vtt('Hello'));
+      lookup.transcript.resolveHost = async () => {
+        throw new Error('Failed to get user: 500 - Server error');
+      };
+      recordings.add(meeting(1), lookup);
+
+      await plugin.syncTranscripts();
+
+      expect((await readState()).getFailedMeeting('uuid-1')?.error).toBe('Failed to get user: 500 - Server error');
+      expect(Notice.getAll()).toEqual(['Sync failed for 1 transcript(s)']);
+    });
+
+    it('counts and lists meetings a backfill leaves out', async () => {
+      const recording = { uuid: 'uuid-1', id: 1 } as ZoomRecording;
+      vi.spyOn(ZoomApiClient.prototype, 'listUserEmails').mockResolvedValue(['jane@example.com']);
+      vi.spyOn(ZoomApiClient.prototype, 'listRecordingsPage').mockResolvedValue({ meetings: [recording] } as never);
+      vi.spyOn(RecordingTranscriptSource.prototype, 'addRecording').mockReturnValue(meeting(1, { topic: 'HR Sync' }));
+      vi.spyOn(RecordingTranscriptSource.prototype, 'findTranscript').mockResolvedValue(ready(vtt('Private')));
+
+      await plugin.runBackfill({ from: '2025-01-01', to: '2025-01-31' });
+
+      expect(Notice.getAll()).toEqual([
+        'Zoom backfill complete: 0 imported, 0 already synced, 1 filtered out, 0 failed, ' +
+          '0 still processing, 0 without a transcript',
+        'Zoom backfill filtered out 1 meeting(s):\n2025-01-15 HR Sync: Topic matches the exclude filter',
+      ]);
+    });
+  });
+
+  describe('backfills', () => {
+    it('adds transcripts still processing to the pending list and counts recordings without one', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2025-01-16T10:00:00Z'));
+      const listed = [meeting(1), meeting(2, { start_time: '2025-01-02T10:00:00Z' }), meeting(3)];
+      const lookups: Record<string, TranscriptLookup> = {
+        'uuid-1': { status: 'pending' },
+        'uuid-2': { status: 'pending' },
+        'uuid-3': { status: 'unavailable', reason: 'No cloud recording' },
+      };
+      vi.spyOn(ZoomApiClient.prototype, 'listUserEmails').mockResolvedValue(['jane@example.com']);
+      vi.spyOn(ZoomApiClient.prototype, 'listRecordingsPage').mockResolvedValue({
+        meetings: listed.map(({ uuid, id }) => ({ uuid, id })),
+      } as never);
+      vi.spyOn(RecordingTranscriptSource.prototype, 'addRecording').mockImplementation(
+        (recording: ZoomRecording) => listed.find(item => item.uuid === recording.uuid) as SourceMeeting
+      );
+      vi.spyOn(RecordingTranscriptSource.prototype, 'findTranscript').mockImplementation(
+        async (listedMeeting: SourceMeeting) => lookups[listedMeeting.uuid]
+      );
+
+      await plugin.runBackfill({ from: '2025-01-01', to: '2025-01-31' });
+
+      // Meeting 2 ended longer ago than the pending transcript timeout
+      expect((await readState()).getPendingRecordings().map(([uuid]) => uuid)).toEqual(['uuid-1']);
+      expect(Notice.getAll()).toEqual([
+        'Zoom backfill complete: 0 imported, 0 already synced, 0 filtered out, 0 failed, ' +
+          '1 still processing, 2 without a transcript',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Unit tests for the sync state schema migration framework.
+ * Tests migrateState() and validateState() from src/state-migrations.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  migrateState,
+  validateState,
+  createEmptyState,
+  InvalidSyncStateError,
+  CURRENT_STATE_VERSION,
+  MigrationContext,
+} from '../src/state-migrations';
+
+/**
+ * Helper to create a migration context backed by an in-memory map of notes.
+ */
+function contextWithNotes(notes: Record<string, string> = {}): MigrationContext {
+  return {
+    readNote: async (fileName: string) => notes[fileName] ?? null,
+  };
+}
+
+describe('migrateState', () => {
+  it('returns current-version state unchanged', async () => {
+    const state = createEmptyState();
+    state.syncedMeetings['uuid-1'] = { meetingId: '1', syncedAt: 1000, fileName: 'One.md' };
+
+    const result = await migrateState(JSON.parse(JSON.stringify(state)), contextWithNotes());
+
+    expect(result).toEqual(state);
+  });
+
+  it('migrates version 1 to the current version', async () => {
+    const v1 = {
+      version: 1,
+      syncedMeetings: {
+        '42': { syncedAt: 1000, fileName: 'Review.md' },
+      },
+    };
+
+    const result = await migrateState(v1, contextWithNotes({
+      'Review.md': '---\nmeeting_time: 2025-01-08T09:00:00Z\n---',
+    }));
+
+    expect(result.version).toBe(CURRENT_STATE_VERSION);
+    expect(result.legacyMeetings['42']).toEqual({
+      syncedAt: 1000,
+      fileName: 'Review.md',
+      meetingTime: '2025-01-08T09:00:00Z',
+    });
+  });
+
+  it('leaves meetingTime unset when the note cannot be read', async () => {
+    const v1 = { version: 1, syncedMeetings: { '42': { syncedAt: 1000, fileName: 'Gone.md' } } };
+
+    const result = await migrateState(v1, contextWithNotes());
+
+    expect(result.legacyMeetings['42'].meetingTime).toBeUndefined();
+  });
+
+  it('starts an empty retry queue when migrating version 3', async () => {
+    const v3 = {
+      version: 3,
+      syncedMeetings: { 'uuid-1': { meetingId: '1', syncedAt: 1000, fileName: 'One.md' } },
+      legacyMeetings: {},
+    };
+
+    const result = await migrateState(v3, contextWithNotes());
+
+    expect(result.failedMeetings).toEqual({});
+    expect(result.syncedMeetings['uuid-1'].fileName).toBe('One.md');
+  });
+
+  it('starts an empty pending list when migrating version 4', async () => {
+    const v4 = { version: 4, syncedMeetings: {}, legacyMeetings: {}, failedMeetings: {} };
+
+    const result = await migrateState(v4, contextWithNotes());
+
+    expect(result.pendingRecordings).toEqual({});
+  });
+
+  it('starts with no backfill when migrating version 5', async () => {
+    const v5 = { version: 5, syncedMeetings: {}, legacyMeetings: {}, failedMeetings: {}, pendingRecordings: {} };
+
+    const result = await migrateState(v5, contextWithNotes());
+
+    expect(result.backfill).toBeNull();
+  });
+
+  it('infers each note\'s source from its remote fingerprint when migrating version 6', async () => {
+    const v6 = {
+      version: 6,
+      syncedMeetings: {
+        recording: { meetingId: '1', syncedAt: 1000, fileName: 'One.md', remoteFile: { fileId: 'f1', fileSize: 5000 } },
+        ai: { meetingId: '2', syncedAt: 1000, fileName: 'Two.md', remoteFile: { fileId: '2', createdAt: '2025-01-15T11:00:00Z' } },
+        untracked: { meetingId: '3', syncedAt: 1000, fileName: 'Three.md' },
+      },
+      legacyMeetings: {},
+      failedMeetings: {},
+      pendingRecordings: {},
+      backfill: null,
+    };
+
+    const result = await migrateState(v6, contextWithNotes());
+
+    expect(result.syncedMeetings.recording.sources).toEqual(['recording']);
+    expect(result.syncedMeetings.ai.sources).toEqual(['ai_companion']);
+    expect(result.syncedMeetings.untracked.sources).toBeUndefined();
+  });
+
+  it('rejects state without a version', async () => {
+    await expect(migrateState({ syncedMeetings: {} }, contextWithNotes())).rejects.toThrow(InvalidSyncStateError);
+  });
+
+  it('rejects state from a newer version', async () => {
+    await expect(
+      migrateState({ version: CURRENT_STATE_VERSION + 1 }, contextWithNotes())
+    ).rejects.toThrow('newer than supported');
+  });
+
+  it('rejects unknown old versions', async () => {
+    await expect(migrateState({ version: 0 }, contextWithNotes())).rejects.toThrow('No migration from state version 0');
+  });
+});
+
+describe('validateState', () => {
+  it('accepts an empty state', () => {
+    expect(validateState(createEmptyState())).toEqual(createEmptyState());
+  });
+
+  it('rejects entries with missing fields', () => {
+    const state = {
+      ...createEmptyState(),
+      syncedMeetings: { 'uuid-1': { syncedAt: 1000 } },
+    };
+
+    expect(() => validateState(state)).toThrow('Invalid synced meeting entry: uuid-1');
+  });
+
+  it('rejects synced meeting entries with an unknown source', () => {
+    const state = {
+      ...createEmptyState(),
+      syncedMeetings: { 'uuid-1': { meetingId: '1', syncedAt: 1000, fileName: 'One.md', sources: ['phone'] } },
+    };
+
+    expect(() => validateState(state)).toThrow('Invalid synced meeting entry: uuid-1');
+  });
+
+  it('rejects synced meeting entries with non-string frontmatter keys', () => {
+    const state = {
+      ...createEmptyState(),
+      syncedMeetings: { 'uuid-1': { meetingId: '1', syncedAt: 1000, fileName: 'One.md', frontmatterKeys: [1] } },
+    };
+
+    expect(() => validateState(state)).toThrow('Invalid synced meeting entry: uuid-1');
+  });
+
+  it('rejects failed meeting entries with an unknown source', () => {
+    const state = {
+      ...createEmptyState(),
+      failedMeetings: {
+        'uuid-1': {
+          meetingId: 1, topic: 'One', startTime: '2025-01-15T10:00:00Z', duration: 30, source: 'phone',
+          error: 'boom', attempts: 1, lastAttemptAt: 1000, nextRetryAt: 2000, gaveUp: false,
+        },
+      },
+    };
+
+    expect(() => validateState(state)).toThrow('Invalid failed meeting entry: uuid-1');
+  });
+
+  it('rejects a malformed backfill checkpoint', () => {
+    const state = { ...createEmptyState(), backfill: { from: '2023-01-01', userIndex: 0 } };
+
+    expect(() => validateState(state)).toThrow('Invalid backfill checkpoint');
+  });
+
+  it('rejects non-object collections', () => {
+    expect(() => validateState({ ...createEmptyState(), legacyMeetings: null })).toThrow(InvalidSyncStateError);
+  });
+});
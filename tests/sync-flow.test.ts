@@ -18,6 +18,7 @@ import { Vault } from 'obsidian';
 import { ZoomApiClient } from '../src/zoom-api';
 import { SyncStateManager } from '../src/sync-state';
 import { TranscriptWriter } from '../src/transcript-writer';
+import { toSourceMeeting } from '../src/recording-source';
 
 // Mock the obsidian module's requestUrl
 vi.mock('obsidian', async () => {
@@ -158,9 +159,7 @@ async function runSyncFlow(
   let failedCount = 0;
 
   for (const recording of recordings) {
-    const meetingId = String(recording.id);
-
-    if (stateManager.isSynced(meetingId)) {
+    if (stateManager.isSynced(recording)) {
       skippedCount++;
       continue;
     }
@@ -204,7 +203,7 @@ async function runSyncFlow(
         }
       }
 
-      const writer = new TranscriptWriter(recording);
+      const writer = new TranscriptWriter(toSourceMeeting(recording));
       let fileName = writer.generateFileName();
 
       if (TranscriptWriter.fileExists(vault as unknown as Vault, settings.transcriptFolder, fileName)) {
@@ -220,7 +219,7 @@ async function runSyncFlow(
         content
       );
 
-      stateManager.markSynced(meetingId, fileName);
+      stateManager.markSynced(recording, fileName);
       await stateManager.writeState();
 
       syncedCount++;
@@ -288,7 +287,7 @@ describe('Sync Flow Integration Tests', () => {
       await runSyncFlow(mockVault, testSettings);
 
       // Check file was created in correct folder
-      const filePath = 'zoom-transcripts/Team Standup.md';
+      const filePath = 'zoom-transcripts/Team Standup - 2025-01-15 1000.md';
       expect(mockVault.getAbstractFileByPath(filePath)).not.toBeNull();
     });
 
@@ -346,7 +345,7 @@ Jane Smith: Good morning, let's get started.`;
 
       await runSyncFlow(mockVault, testSettings);
 
-      const filePath = 'zoom-transcripts/Weekly Planning.md';
+      const filePath = 'zoom-transcripts/Weekly Planning - 2025-01-15 1400.md';
       const content = mockVault.adapter.getFile(filePath);
 
       expect(content).toBeDefined();
@@ -393,19 +392,20 @@ Jane Smith: Good morning, let's get started.`;
       expect(stateContent).toBeDefined();
 
       const state = JSON.parse(stateContent!);
-      expect(state.syncedMeetings['111']).toBeDefined();
-      expect(state.syncedMeetings['222']).toBeDefined();
-      expect(state.syncedMeetings['111'].fileName).toBe('Meeting One.md');
-      expect(state.syncedMeetings['222'].fileName).toBe('Meeting Two.md');
+      expect(state.syncedMeetings['uuid-111']).toBeDefined();
+      expect(state.syncedMeetings['uuid-222']).toBeDefined();
+      expect(state.syncedMeetings['uuid-111'].fileName).toBe('Meeting One - 2025-01-15 1000.md');
+      expect(state.syncedMeetings['uuid-222'].fileName).toBe('Meeting Two - 2025-01-15 1000.md');
     });
 
     it('skips already-synced meetings', async () => {
       // Pre-populate sync state
       const existingState = {
-        version: 1,
+        version: 2,
         syncedMeetings: {
-          '111': { syncedAt: 1705312200000, fileName: 'Existing Meeting.md' },
+          'uuid-111': { meetingId: '111', syncedAt: 1705312200000, fileName: 'Existing Meeting.md' },
         },
+        legacyMeetings: {},
       };
       mockVault.adapter.setFile(
         'zoom-transcripts/.zoom-sync-state.json',
@@ -431,12 +431,37 @@ Jane Smith: Good morning, let's get started.`;
       expect(result.skippedCount).toBe(1);
 
       // Only new meeting file should exist
-      expect(mockVault.getAbstractFileByPath('zoom-transcripts/New Meeting.md')).not.toBeNull();
+      expect(mockVault.getAbstractFileByPath('zoom-transcripts/New Meeting - 2025-01-15 1000.md')).not.toBeNull();
+    });
+
+    it('syncs each occurrence of a recurring meeting separately', async () => {
+      const monday = createMockRecording({ id: 444, uuid: 'occurrence-monday', topic: 'Standup', start_time: '2025-01-13T09:00:00Z' });
+      const tuesday = createMockRecording({ id: 444, uuid: 'occurrence-tuesday', topic: 'Standup', start_time: '2025-01-14T09:00:00Z' });
+
+      mockRequestUrl.setPatternResponse(
+        /api\.zoom\.us\/v2\/users\/[^/]+\/recordings/,
+        mockResponses.json(createMockListResponse([monday, tuesday]))
+      );
+      mockRequestUrl.setResponse(
+        'https://zoom.us/download/444/transcript.vtt',
+        mockResponses.text('WEBVTT\n\n1\n00:00:00.000 --> 00:00:05.000\nStandup notes')
+      );
+
+      const first = await runSyncFlow(mockVault, testSettings);
+      expect(first.syncedCount).toBe(2);
+
+      const state = JSON.parse(mockVault.adapter.getFile('zoom-transcripts/.zoom-sync-state.json')!);
+      expect(state.syncedMeetings['occurrence-monday'].meetingId).toBe('444');
+      expect(state.syncedMeetings['occurrence-tuesday'].meetingId).toBe('444');
+
+      const second = await runSyncFlow(mockVault, testSettings);
+      expect(second.syncedCount).toBe(0);
+      expect(second.skippedCount).toBe(2);
     });
 
     it('handles file collision by appending ID', async () => {
       // Create existing file with same name
-      mockVault.addFile('zoom-transcripts/Duplicate Meeting.md', 'existing content');
+      mockVault.addFile('zoom-transcripts/Duplicate Meeting - 2025-01-15 1000.md', 'existing content');
       mockVault.addFolder('zoom-transcripts');
 
       const recording = createMockRecording({ id: 999888777, topic: 'Duplicate Meeting' });
@@ -455,14 +480,34 @@ Jane Smith: Good morning, let's get started.`;
 
       // File should have ID appended
       const fileWithId = mockVault.getAbstractFileByPath(
-        'zoom-transcripts/Duplicate Meeting (999888777).md'
+        'zoom-transcripts/Duplicate Meeting - 2025-01-15 1000 (999888777).md'
       );
       expect(fileWithId).not.toBeNull();
 
       // Check content of new file
-      const content = mockVault.adapter.getFile('zoom-transcripts/Duplicate Meeting (999888777).md');
+      const content = mockVault.adapter.getFile('zoom-transcripts/Duplicate Meeting - 2025-01-15 1000 (999888777).md');
       expect(content).toContain('New transcript');
     });
+
+    it('writes routed notes into nested subfolders and checks collisions there', async () => {
+      mockVault.addFolder('zoom-transcripts');
+      const vault = mockVault as unknown as Vault;
+      const writer = new TranscriptWriter(
+        toSourceMeeting(createMockRecording({ id: 444555666, topic: 'Acme Sync' })),
+        { folder: 'Clients/{{date:YYYY}}' }
+      );
+      const fileName = writer.generateFileName();
+
+      expect(fileName).toBe('Clients/2025/Acme Sync - 2025-01-15 1000.md');
+      expect(TranscriptWriter.fileExists(vault, 'zoom-transcripts', fileName)).toBe(false);
+
+      await TranscriptWriter.writeToVault(vault, 'zoom-transcripts', fileName, 'First');
+
+      expect(mockVault.getAbstractFileByPath('zoom-transcripts/Clients')).not.toBeNull();
+      expect(mockVault.getAbstractFileByPath('zoom-transcripts/Clients/2025')).not.toBeNull();
+      expect(mockVault.adapter.getFile('zoom-transcripts/Clients/2025/Acme Sync - 2025-01-15 1000.md')).toBe('First');
+      expect(TranscriptWriter.fileExists(vault, 'zoom-transcripts', fileName)).toBe(true);
+    });
   });
 
   // ============================================================================
@@ -489,7 +534,7 @@ Jane Smith: Good morning, let's get started.`;
 
       expect(result.syncedCount).toBe(1);
 
-      const content = mockVault.adapter.getFile('zoom-transcripts/Small Meeting.md');
+      const content = mockVault.adapter.getFile('zoom-transcripts/Small Meeting - 2025-01-15 1000.md');
       expect(content).toBeDefined();
       expect(content).toContain('This is line number 1');
       expect(content).toContain('This is line number 5');
@@ -515,7 +560,7 @@ Jane Smith: Good morning, let's get started.`;
 
       expect(result.syncedCount).toBe(1);
 
-      const content = mockVault.adapter.getFile('zoom-transcripts/Medium Meeting.md');
+      const content = mockVault.adapter.getFile('zoom-transcripts/Medium Meeting - 2025-01-15 1000.md');
       expect(content).toBeDefined();
       expect(content).toContain('This is line number 1');
       expect(content).toContain('This is line number 100');
@@ -542,7 +587,7 @@ Jane Smith: Good morning, let's get started.`;
 
       expect(result.syncedCount).toBe(1);
 
-      const content = mockVault.adapter.getFile('zoom-transcripts/Large Meeting.md');
+      const content = mockVault.adapter.getFile('zoom-transcripts/Large Meeting - 2025-01-15 1000.md');
       expect(content).toBeDefined();
       expect(content).toContain('This is line number 1');
       expect(content).toContain('This is line number 500');
@@ -591,8 +636,8 @@ Jane Smith: Good morning, let's get started.`;
       expect(result.failedCount).toBe(1);
 
       // Verify successful files exist
-      expect(mockVault.getAbstractFileByPath('zoom-transcripts/Will Succeed.md')).not.toBeNull();
-      expect(mockVault.getAbstractFileByPath('zoom-transcripts/Also Succeeds.md')).not.toBeNull();
+      expect(mockVault.getAbstractFileByPath('zoom-transcripts/Will Succeed - 2025-01-15 1000.md')).not.toBeNull();
+      expect(mockVault.getAbstractFileByPath('zoom-transcripts/Also Succeeds - 2025-01-15 1000.md')).not.toBeNull();
     });
 
     it('returns partial success count', async () => {
@@ -666,7 +711,7 @@ Jane Smith: Good morning, let's get started.`;
       expect(result.syncedCount).toBe(0);
 
       // Second file should not have been created
-      expect(mockVault.getAbstractFileByPath('zoom-transcripts/Test Meeting 222.md')).toBeNull();
+      expect(mockVault.getAbstractFileByPath('zoom-transcripts/Test Meeting 222 - 2025-01-15 1000.md')).toBeNull();
     });
 
     it('auth error on listRecordings stops sync and disables auto-sync', async () => {
@@ -767,11 +812,11 @@ Jane Smith: Good morning, let's get started.`;
       const state = JSON.parse(stateContent!);
 
       // First and third should be synced
-      expect(state.syncedMeetings['111']).toBeDefined();
-      expect(state.syncedMeetings['333']).toBeDefined();
+      expect(state.syncedMeetings['uuid-111']).toBeDefined();
+      expect(state.syncedMeetings['uuid-333']).toBeDefined();
 
       // Second should not be in sync state
-      expect(state.syncedMeetings['222']).toBeUndefined();
+      expect(state.syncedMeetings['uuid-222']).toBeUndefined();
     });
   });
 });
@@ -3,10 +3,23 @@
  * Tests SyncStateManager class from src/sync-state.ts
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { SyncStateManager } from '../src/sync-state';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SyncStateManager, hashContent, isSameRemoteFile, getRetryDelayMs } from '../src/sync-state';
 import { MockVault } from './mocks/obsidian';
 import { Vault } from 'obsidian';
+import { MeetingOccurrence } from '../src/types';
+import { CURRENT_STATE_VERSION, createEmptyState } from '../src/state-migrations';
+
+/**
+ * Helper to create a meeting occurrence. Defaults the UUID from the ID.
+ */
+function occurrence(id: number, overrides: Partial<MeetingOccurrence> = {}): MeetingOccurrence {
+  return {
+    uuid: overrides.uuid ?? `uuid-${id}`,
+    id,
+    start_time: overrides.start_time ?? '2025-01-15T10:00:00Z',
+  };
+}
 
 describe('SyncStateManager', () => {
   let mockVault: MockVault;
@@ -35,17 +48,23 @@ describe('SyncStateManager', () => {
   describe('readState', () => {
     it('reads state from JSON file', async () => {
       const existingState = {
-        version: 1,
+        version: CURRENT_STATE_VERSION,
         syncedMeetings: {
-          '123456789': {
+          'uuid-a': {
+            meetingId: '123456789',
             syncedAt: 1705312200000,
             fileName: 'Team Meeting.md',
           },
-          '987654321': {
+          'uuid-b': {
+            meetingId: '987654321',
             syncedAt: 1705315800000,
             fileName: 'Planning Session.md',
           },
         },
+        legacyMeetings: {},
+        failedMeetings: {},
+        pendingRecordings: {},
+        backfill: null,
       };
 
       mockVault.adapter.setFile(
@@ -56,9 +75,9 @@ describe('SyncStateManager', () => {
       const state = await syncStateManager.readState();
 
       expect(state).toEqual(existingState);
-      expect(state.version).toBe(1);
-      expect(state.syncedMeetings['123456789'].fileName).toBe('Team Meeting.md');
-      expect(state.syncedMeetings['987654321'].fileName).toBe('Planning Session.md');
+      expect(state.version).toBe(CURRENT_STATE_VERSION);
+      expect(state.syncedMeetings['uuid-a'].fileName).toBe('Team Meeting.md');
+      expect(state.syncedMeetings['uuid-b'].fileName).toBe('Planning Session.md');
     });
 
     it('handles missing state file - returns default state', async () => {
@@ -66,10 +85,7 @@ describe('SyncStateManager', () => {
 
       const state = await syncStateManager.readState();
 
-      expect(state).toEqual({
-        version: 1,
-        syncedMeetings: {},
-      });
+      expect(state).toEqual(createEmptyState());
     });
 
     it('handles corrupted JSON - returns default state', async () => {
@@ -80,10 +96,78 @@ describe('SyncStateManager', () => {
 
       const state = await syncStateManager.readState();
 
-      expect(state).toEqual({
-        version: 1,
-        syncedMeetings: {},
+      expect(state).toEqual(createEmptyState());
+    });
+
+    it('backs up corrupted JSON instead of discarding it', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2025-01-15T10:00:00Z'));
+      mockVault.adapter.setFile('zoom-transcripts/.zoom-sync-state.json', '{ broken');
+
+      await syncStateManager.readState();
+
+      const backupPath = `zoom-transcripts/.zoom-sync-state.json.corrupt-${Date.now()}`;
+      expect(syncStateManager.quarantinedPath).toBe(backupPath);
+      expect(mockVault.adapter.getFile(backupPath)).toBe('{ broken');
+
+      vi.useRealTimers();
+    });
+
+    it('quarantines state that fails validation', async () => {
+      mockVault.adapter.setFile(
+        'zoom-transcripts/.zoom-sync-state.json',
+        JSON.stringify({ ...createEmptyState(), syncedMeetings: [] })
+      );
+
+      const state = await syncStateManager.readState();
+
+      expect(state.syncedMeetings).toEqual({});
+      expect(syncStateManager.quarantinedPath).not.toBeNull();
+    });
+
+    it('quarantines state written by a newer plugin version', async () => {
+      const newer = JSON.stringify({ version: 99, syncedMeetings: {} });
+      mockVault.adapter.setFile('zoom-transcripts/.zoom-sync-state.json', newer);
+
+      await syncStateManager.readState();
+
+      expect(mockVault.adapter.getFile(syncStateManager.quarantinedPath!)).toBe(newer);
+    });
+
+    it('rebuilds quarantined state from existing notes so they are not synced again', async () => {
+      mockVault.adapter.setFile('zoom-transcripts/.zoom-sync-state.json', '{ broken');
+      mockVault.addFile(
+        'zoom-transcripts/Planning.md',
+        '---\nmeeting_time: 2025-01-15T10:00:00Z\nzoom_meeting_id: "111"\nsynced_at: 2025-01-15T11:00:00Z\n---\n'
+      );
+      mockVault.addFile('zoom-transcripts/Clients/Standup 1.md', '---\nzoom_meeting_id: "222"\nsynced_at: 2025-01-13T10:00:00Z\n---\n');
+      mockVault.addFile('zoom-transcripts/Clients/Standup 2.md', '---\nzoom_meeting_id: "222"\nsynced_at: 2025-01-14T10:00:00Z\n---\n');
+      mockVault.addFile('zoom-transcripts/My notes.md', 'Not a meeting note');
+      mockVault.addFile('Elsewhere/Other.md', '---\nzoom_meeting_id: "333"\n---\n');
+
+      const state = await syncStateManager.readState();
+
+      expect(syncStateManager.rebuiltNoteCount).toBe(3);
+      expect(state.legacyMeetings).toEqual({
+        '111': { syncedAt: Date.parse('2025-01-15T11:00:00Z'), fileName: 'Planning.md', meetingTime: '2025-01-15T10:00:00Z' },
+        '222': { syncedAt: Date.parse('2025-01-14T10:00:00Z'), fileName: 'Clients/Standup 2.md' },
       });
+      expect(syncStateManager.isSynced(occurrence(111, { start_time: '2025-01-15T10:00:00Z' }))).toBe(true);
+      expect(syncStateManager.isSynced(occurrence(111, { start_time: '2025-01-22T10:00:00Z' }))).toBe(false);
+      expect(syncStateManager.isSynced(occurrence(222, { start_time: '2025-01-13T09:00:00Z' }))).toBe(true);
+      expect(syncStateManager.isSynced(occurrence(222, { start_time: '2025-01-15T09:00:00Z' }))).toBe(false);
+      expect(syncStateManager.isSynced(occurrence(333))).toBe(false);
+
+      // The rebuilt state replaces the unreadable file, which stays in the backup
+      const saved = JSON.parse(mockVault.adapter.getFile('zoom-transcripts/.zoom-sync-state.json')!);
+      expect(saved.legacyMeetings['111'].fileName).toBe('Planning.md');
+      expect(mockVault.adapter.getFile(syncStateManager.quarantinedPath!)).toBe('{ broken');
+    });
+
+    it('does not quarantine a valid state file', async () => {
+      await syncStateManager.readState();
+
+      expect(syncStateManager.quarantinedPath).toBeNull();
     });
 
     it('handles empty file - returns default state', async () => {
@@ -91,10 +175,59 @@ describe('SyncStateManager', () => {
 
       const state = await syncStateManager.readState();
 
-      expect(state).toEqual({
-        version: 1,
-        syncedMeetings: {},
-      });
+      expect(state).toEqual(createEmptyState());
+    });
+  });
+
+  describe('version 1 migration', () => {
+    const v1State = {
+      version: 1,
+      syncedMeetings: {
+        '555': { syncedAt: new Date('2025-01-10T12:00:00Z').getTime(), fileName: 'Standup - 2025-01-08 0900.md' },
+      },
+    };
+
+    beforeEach(() => {
+      mockVault.adapter.setFile('zoom-transcripts/.zoom-sync-state.json', JSON.stringify(v1State));
+    });
+
+    it('moves numeric-ID entries into legacyMeetings', async () => {
+      const state = await syncStateManager.readState();
+
+      expect(state.version).toBe(CURRENT_STATE_VERSION);
+      expect(state.syncedMeetings).toEqual({});
+      expect(state.legacyMeetings['555'].fileName).toBe('Standup - 2025-01-08 0900.md');
+    });
+
+    it('only treats the occurrence recorded in the note as synced', async () => {
+      mockVault.adapter.setFile(
+        'zoom-transcripts/Standup - 2025-01-08 0900.md',
+        '---\nmeeting_name: "Standup"\nmeeting_time: 2025-01-08T09:00:00Z\n---\n'
+      );
+
+      const state = await syncStateManager.readState();
+
+      expect(state.legacyMeetings['555'].meetingTime).toBe('2025-01-08T09:00:00Z');
+      expect(syncStateManager.isSynced(occurrence(555, { uuid: 'first', start_time: '2025-01-08T09:00:00Z' }))).toBe(true);
+      expect(syncStateManager.isSynced(occurrence(555, { uuid: 'second', start_time: '2025-01-09T09:00:00Z' }))).toBe(false);
+    });
+
+    it('falls back to the legacy sync time when the note is missing', async () => {
+      await syncStateManager.readState();
+
+      expect(syncStateManager.isSynced(occurrence(555, { uuid: 'before', start_time: '2025-01-09T09:00:00Z' }))).toBe(true);
+      expect(syncStateManager.isSynced(occurrence(555, { uuid: 'after', start_time: '2025-01-13T09:00:00Z' }))).toBe(false);
+    });
+
+    it('writes migrated state at the current version', async () => {
+      await syncStateManager.readState();
+      syncStateManager.markSynced(occurrence(555, { uuid: 'after' }), 'Standup - 2025-01-13 0900.md');
+      await syncStateManager.writeState();
+
+      const parsed = JSON.parse(mockVault.adapter.getFile('zoom-transcripts/.zoom-sync-state.json')!);
+      expect(parsed.version).toBe(CURRENT_STATE_VERSION);
+      expect(parsed.syncedMeetings['after'].meetingId).toBe('555');
+      expect(parsed.legacyMeetings['555']).toBeDefined();
     });
   });
 
@@ -110,7 +243,7 @@ describe('SyncStateManager', () => {
       await syncStateManager.readState();
 
       // Add a meeting
-      syncStateManager.markSynced('123456789', 'Test Meeting.md');
+      syncStateManager.markSynced(occurrence(123456789), 'Test Meeting.md');
 
       await syncStateManager.writeState();
 
@@ -119,14 +252,14 @@ describe('SyncStateManager', () => {
       expect(finalContent).toBeDefined();
 
       const parsedContent = JSON.parse(finalContent!);
-      expect(parsedContent.version).toBe(1);
-      expect(parsedContent.syncedMeetings['123456789']).toBeDefined();
-      expect(parsedContent.syncedMeetings['123456789'].fileName).toBe('Test Meeting.md');
+      expect(parsedContent.version).toBe(CURRENT_STATE_VERSION);
+      expect(parsedContent.syncedMeetings['uuid-123456789']).toBeDefined();
+      expect(parsedContent.syncedMeetings['uuid-123456789'].fileName).toBe('Test Meeting.md');
     });
 
     it('writes JSON with proper formatting (indentation)', async () => {
       await syncStateManager.readState();
-      syncStateManager.markSynced('123', 'Meeting.md');
+      syncStateManager.markSynced(occurrence(123), 'Meeting.md');
 
       await syncStateManager.writeState();
 
@@ -139,10 +272,14 @@ describe('SyncStateManager', () => {
 
     it('preserves existing entries when writing', async () => {
       const existingState = {
-        version: 1,
+        version: CURRENT_STATE_VERSION,
         syncedMeetings: {
-          '111': { syncedAt: 1000, fileName: 'Old Meeting.md' },
+          'uuid-111': { meetingId: '111', syncedAt: 1000, fileName: 'Old Meeting.md' },
         },
+        legacyMeetings: {},
+        failedMeetings: {},
+        pendingRecordings: {},
+        backfill: null,
       };
       mockVault.adapter.setFile(
         'zoom-transcripts/.zoom-sync-state.json',
@@ -150,32 +287,37 @@ describe('SyncStateManager', () => {
       );
 
       await syncStateManager.readState();
-      syncStateManager.markSynced('222', 'New Meeting.md');
+      syncStateManager.markSynced(occurrence(222), 'New Meeting.md');
       await syncStateManager.writeState();
 
       const content = mockVault.adapter.getFile('zoom-transcripts/.zoom-sync-state.json');
       const parsed = JSON.parse(content!);
 
-      expect(parsed.syncedMeetings['111']).toBeDefined();
-      expect(parsed.syncedMeetings['222']).toBeDefined();
+      expect(parsed.syncedMeetings['uuid-111']).toBeDefined();
+      expect(parsed.syncedMeetings['uuid-222']).toBeDefined();
     });
   });
 
   describe('isSynced', () => {
     it('returns false when state has not been read', () => {
       // State not initialized
-      expect(syncStateManager.isSynced('123456789')).toBe(false);
+      expect(syncStateManager.isSynced(occurrence(123456789))).toBe(false);
     });
 
-    it('correctly identifies synced meetings', async () => {
+    it('correctly identifies synced occurrences', async () => {
       const existingState = {
-        version: 1,
+        version: CURRENT_STATE_VERSION,
         syncedMeetings: {
-          '123456789': {
+          'uuid-123456789': {
+            meetingId: '123456789',
             syncedAt: 1705312200000,
             fileName: 'Team Meeting.md',
           },
         },
+        legacyMeetings: {},
+        failedMeetings: {},
+        pendingRecordings: {},
+        backfill: null,
       };
       mockVault.adapter.setFile(
         'zoom-transcripts/.zoom-sync-state.json',
@@ -184,33 +326,21 @@ describe('SyncStateManager', () => {
 
       await syncStateManager.readState();
 
-      expect(syncStateManager.isSynced('123456789')).toBe(true);
+      expect(syncStateManager.isSynced(occurrence(123456789))).toBe(true);
     });
 
-    it('correctly identifies unsynced meetings', async () => {
-      const existingState = {
-        version: 1,
-        syncedMeetings: {
-          '123456789': {
-            syncedAt: 1705312200000,
-            fileName: 'Team Meeting.md',
-          },
-        },
-      };
-      mockVault.adapter.setFile(
-        'zoom-transcripts/.zoom-sync-state.json',
-        JSON.stringify(existingState)
-      );
-
+    it('does not treat another occurrence of the same meeting ID as synced', async () => {
       await syncStateManager.readState();
+      syncStateManager.markSynced(occurrence(123456789, { uuid: 'monday' }), 'Standup.md');
 
-      expect(syncStateManager.isSynced('999999999')).toBe(false);
+      expect(syncStateManager.isSynced(occurrence(123456789, { uuid: 'monday' }))).toBe(true);
+      expect(syncStateManager.isSynced(occurrence(123456789, { uuid: 'tuesday' }))).toBe(false);
     });
 
     it('returns false for empty syncedMeetings', async () => {
       await syncStateManager.readState(); // Initializes with empty syncedMeetings
 
-      expect(syncStateManager.isSynced('123456789')).toBe(false);
+      expect(syncStateManager.isSynced(occurrence(123456789))).toBe(false);
     });
   });
 
@@ -219,39 +349,40 @@ describe('SyncStateManager', () => {
       await syncStateManager.readState();
 
       const beforeMark = Date.now();
-      syncStateManager.markSynced('123456789', 'New Meeting.md');
+      syncStateManager.markSynced(occurrence(123456789), 'New Meeting.md');
       const afterMark = Date.now();
 
-      expect(syncStateManager.isSynced('123456789')).toBe(true);
+      expect(syncStateManager.isSynced(occurrence(123456789))).toBe(true);
 
       // Verify the entry was created with correct structure
       await syncStateManager.writeState();
       const content = mockVault.adapter.getFile('zoom-transcripts/.zoom-sync-state.json');
       const parsed = JSON.parse(content!);
 
-      expect(parsed.syncedMeetings['123456789'].fileName).toBe('New Meeting.md');
-      expect(parsed.syncedMeetings['123456789'].syncedAt).toBeGreaterThanOrEqual(beforeMark);
-      expect(parsed.syncedMeetings['123456789'].syncedAt).toBeLessThanOrEqual(afterMark);
+      expect(parsed.syncedMeetings['uuid-123456789'].fileName).toBe('New Meeting.md');
+      expect(parsed.syncedMeetings['uuid-123456789'].meetingId).toBe('123456789');
+      expect(parsed.syncedMeetings['uuid-123456789'].syncedAt).toBeGreaterThanOrEqual(beforeMark);
+      expect(parsed.syncedMeetings['uuid-123456789'].syncedAt).toBeLessThanOrEqual(afterMark);
     });
 
     it('initializes state if called before readState', () => {
       // Call markSynced without calling readState first
-      syncStateManager.markSynced('123456789', 'Meeting.md');
+      syncStateManager.markSynced(occurrence(123456789), 'Meeting.md');
 
       // Should initialize state internally
-      expect(syncStateManager.isSynced('123456789')).toBe(true);
+      expect(syncStateManager.isSynced(occurrence(123456789))).toBe(true);
     });
 
     it('can add multiple meetings', async () => {
       await syncStateManager.readState();
 
-      syncStateManager.markSynced('111', 'First.md');
-      syncStateManager.markSynced('222', 'Second.md');
-      syncStateManager.markSynced('333', 'Third.md');
+      syncStateManager.markSynced(occurrence(111), 'First.md');
+      syncStateManager.markSynced(occurrence(222), 'Second.md');
+      syncStateManager.markSynced(occurrence(333), 'Third.md');
 
-      expect(syncStateManager.isSynced('111')).toBe(true);
-      expect(syncStateManager.isSynced('222')).toBe(true);
-      expect(syncStateManager.isSynced('333')).toBe(true);
+      expect(syncStateManager.isSynced(occurrence(111))).toBe(true);
+      expect(syncStateManager.isSynced(occurrence(222))).toBe(true);
+      expect(syncStateManager.isSynced(occurrence(333))).toBe(true);
     });
 
     it('updates existing entry if marked again', async () => {
@@ -260,39 +391,296 @@ describe('SyncStateManager', () => {
       vi.setSystemTime(firstTime);
 
       await syncStateManager.readState();
-      syncStateManager.markSynced('123', 'First Name.md');
+      syncStateManager.markSynced(occurrence(123), 'First Name.md');
 
       // Advance time
       const secondTime = new Date('2025-01-15T10:00:00Z').getTime();
       vi.setSystemTime(secondTime);
 
-      syncStateManager.markSynced('123', 'Updated Name.md');
+      syncStateManager.markSynced(occurrence(123), 'Updated Name.md');
 
       await syncStateManager.writeState();
       const content = mockVault.adapter.getFile('zoom-transcripts/.zoom-sync-state.json');
       const parsed = JSON.parse(content!);
 
-      expect(parsed.syncedMeetings['123'].fileName).toBe('Updated Name.md');
-      expect(parsed.syncedMeetings['123'].syncedAt).toBe(secondTime);
+      expect(parsed.syncedMeetings['uuid-123'].fileName).toBe('Updated Name.md');
+      expect(parsed.syncedMeetings['uuid-123'].syncedAt).toBe(secondTime);
 
       vi.useRealTimers();
     });
 
-    it('uses string meeting IDs consistently', async () => {
+    it('keys entries by occurrence UUID and stores the meeting ID as a string', async () => {
       await syncStateManager.readState();
 
-      // Mark with string ID
-      syncStateManager.markSynced('123456789', 'Meeting.md');
-
-      // Check with same string ID
-      expect(syncStateManager.isSynced('123456789')).toBe(true);
+      syncStateManager.markSynced(occurrence(123456789, { uuid: 'abc/def==' }), 'Meeting.md');
 
       await syncStateManager.writeState();
       const content = mockVault.adapter.getFile('zoom-transcripts/.zoom-sync-state.json');
       const parsed = JSON.parse(content!);
 
-      // Key should be string in JSON
-      expect(Object.keys(parsed.syncedMeetings)).toContain('123456789');
+      expect(Object.keys(parsed.syncedMeetings)).toContain('abc/def==');
+      expect(parsed.syncedMeetings['abc/def=='].meetingId).toBe('123456789');
+    });
+  });
+
+  describe('transcript change tracking', () => {
+    const remoteFile = { fileId: 'file-1', fileSize: 5000, createdAt: '2025-01-15T11:00:00Z' };
+
+    it('stores remote metadata and content hash when marking synced', async () => {
+      await syncStateManager.readState();
+      syncStateManager.markSynced(occurrence(1), 'One.md', remoteFile, hashContent('WEBVTT'));
+
+      const entry = syncStateManager.getSyncedMeeting('uuid-1');
+      expect(entry?.remoteFile).toEqual(remoteFile);
+      expect(entry?.contentHash).toBe(hashContent('WEBVTT'));
+    });
+
+    it('records a baseline for entries synced before change tracking', async () => {
+      await syncStateManager.readState();
+      syncStateManager.markSynced(occurrence(1), 'One.md');
+
+      syncStateManager.setRemoteFile('uuid-1', remoteFile);
+
+      expect(syncStateManager.getSyncedMeeting('uuid-1')?.remoteFile).toEqual(remoteFile);
+      expect(syncStateManager.getSyncedMeeting('uuid-1')?.contentHash).toBeUndefined();
+    });
+
+    it('records the source a note was written from', async () => {
+      await syncStateManager.readState();
+      syncStateManager.markSynced(occurrence(1), 'One.md', remoteFile, 'aaa', 'ai_companion');
+      expect(syncStateManager.getSyncedMeeting('uuid-1')?.sources).toEqual(['ai_companion']);
+
+      syncStateManager.setNoteSources('uuid-1', ['ai_companion', 'recording']);
+      expect(syncStateManager.getSyncedMeeting('uuid-1')?.sources).toEqual(['ai_companion', 'recording']);
+    });
+
+    it('markUpdated replaces file name and fingerprint and keeps syncedAt', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2025-01-01T10:00:00Z'));
+      await syncStateManager.readState();
+      syncStateManager.markSynced(occurrence(1), 'One.md', remoteFile, 'aaa');
+
+      vi.setSystemTime(new Date('2025-01-02T10:00:00Z'));
+      const changed = { ...remoteFile, fileSize: 6000 };
+      syncStateManager.markUpdated('uuid-1', 'One (v2).md', changed, 'bbb');
+
+      const entry = syncStateManager.getSyncedMeeting('uuid-1');
+      expect(entry).toMatchObject({
+        fileName: 'One (v2).md',
+        remoteFile: changed,
+        contentHash: 'bbb',
+        syncedAt: new Date('2025-01-01T10:00:00Z').getTime(),
+        updatedAt: new Date('2025-01-02T10:00:00Z').getTime(),
+      });
+      vi.useRealTimers();
+    });
+
+    it('hashContent is stable and content sensitive', () => {
+      expect(hashContent('hello')).toBe(hashContent('hello'));
+      expect(hashContent('hello')).not.toBe(hashContent('hello!'));
+    });
+
+    it('isSameRemoteFile compares every recorded field', () => {
+      expect(isSameRemoteFile(remoteFile, { ...remoteFile })).toBe(true);
+      expect(isSameRemoteFile(remoteFile, { ...remoteFile, fileSize: 1 })).toBe(false);
+      expect(isSameRemoteFile(remoteFile, { ...remoteFile, createdAt: undefined })).toBe(false);
+    });
+  });
+
+  describe('retry queue', () => {
+    const failing = { ...occurrence(1), topic: 'Flaky Meeting', duration: 30 };
+    const start = new Date('2025-01-15T12:00:00Z').getTime();
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(start);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('records the error and schedules a retry with backoff', async () => {
+      await syncStateManager.readState();
+
+      const first = syncStateManager.recordFailure(failing, 'recording', 'Download failed: 500', 5);
+      expect(first).toMatchObject({
+        meetingId: 1,
+        topic: 'Flaky Meeting',
+        source: 'recording',
+        error: 'Download failed: 500',
+        attempts: 1,
+        nextRetryAt: start + getRetryDelayMs(1),
+        gaveUp: false,
+      });
+
+      const second = syncStateManager.recordFailure(failing, 'recording', 'Download failed: 502', 5);
+      expect(second.attempts).toBe(2);
+      expect(second.error).toBe('Download failed: 502');
+      expect(second.nextRetryAt - start).toBe(2 * getRetryDelayMs(1));
+    });
+
+    it('caps the backoff at one day', () => {
+      expect(getRetryDelayMs(1)).toBe(15 * 60 * 1000);
+      expect(getRetryDelayMs(20)).toBe(24 * 60 * 60 * 1000);
+    });
+
+    it('only returns retries that are due', async () => {
+      await syncStateManager.readState();
+      syncStateManager.recordFailure(failing, 'ai_companion', 'boom', 5);
+
+      expect(syncStateManager.isAwaitingRetry('uuid-1')).toBe(true);
+      expect(syncStateManager.getDueRetries('ai_companion')).toHaveLength(0);
+
+      vi.setSystemTime(start + getRetryDelayMs(1));
+
+      expect(syncStateManager.isAwaitingRetry('uuid-1')).toBe(false);
+      expect(syncStateManager.getDueRetries('ai_companion').map(([uuid]) => uuid)).toEqual(['uuid-1']);
+      expect(syncStateManager.getDueRetries('recording')).toHaveLength(0);
+    });
+
+    it('gives up after the attempt limit', async () => {
+      await syncStateManager.readState();
+      for (let i = 0; i < 3; i++) {
+        syncStateManager.recordFailure(failing, 'recording', 'boom', 3);
+      }
+
+      vi.setSystemTime(start + 7 * 24 * 60 * 60 * 1000);
+
+      expect(syncStateManager.getFailedMeeting('uuid-1')?.gaveUp).toBe(true);
+      expect(syncStateManager.isAwaitingRetry('uuid-1')).toBe(true);
+      expect(syncStateManager.getDueRetries('recording')).toHaveLength(0);
+      expect(syncStateManager.getAbandonedMeetings().map(([uuid]) => uuid)).toEqual(['uuid-1']);
+    });
+
+    it('requeues abandoned meetings with fresh attempts', async () => {
+      await syncStateManager.readState();
+      syncStateManager.recordFailure(failing, 'recording', 'boom', 1);
+
+      expect(syncStateManager.requeueAbandoned()).toBe(1);
+
+      expect(syncStateManager.getFailedMeeting('uuid-1')).toMatchObject({ attempts: 0, gaveUp: false });
+      expect(syncStateManager.getDueRetries('recording')).toHaveLength(1);
+    });
+
+    it('drops the meeting from the queue once it syncs', async () => {
+      await syncStateManager.readState();
+      syncStateManager.recordFailure(failing, 'recording', 'boom', 5);
+
+      syncStateManager.markSynced(failing, 'Flaky Meeting.md');
+
+      expect(syncStateManager.getFailedMeeting('uuid-1')).toBeNull();
+    });
+
+    it('persists the queue across reads', async () => {
+      await syncStateManager.readState();
+      syncStateManager.recordFailure(failing, 'recording', 'boom', 5);
+      await syncStateManager.writeState();
+
+      const reloaded = new SyncStateManager(mockVault as unknown as Vault, transcriptFolder);
+      await reloaded.readState();
+
+      expect(reloaded.getFailedMeeting('uuid-1')?.attempts).toBe(1);
+      expect(reloaded.quarantinedPath).toBeNull();
+    });
+  });
+
+  describe('pending recordings', () => {
+    const hour = 60 * 60 * 1000;
+    const recording = { ...occurrence(1, { start_time: '2025-01-15T10:00:00Z' }), topic: 'Standup', duration: 60 };
+    const meetingEnd = new Date('2025-01-15T11:00:00Z').getTime();
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('waits until the timeout after the meeting ends', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(meetingEnd + hour);
+      await syncStateManager.readState();
+
+      expect(syncStateManager.markPending(recording, 72 * hour)).toBe(true);
+      expect(syncStateManager.getPendingRecordings()).toEqual([
+        ['uuid-1', {
+          meetingId: 1,
+          topic: 'Standup',
+          startTime: '2025-01-15T10:00:00Z',
+          firstSeenAt: meetingEnd + hour,
+          expiresAt: meetingEnd + 72 * hour,
+        }],
+      ]);
+
+      vi.setSystemTime(meetingEnd + 72 * hour);
+
+      expect(syncStateManager.markPending(recording, 72 * hour)).toBe(false);
+      expect(syncStateManager.getPendingRecordings()).toHaveLength(0);
+    });
+
+    it('keeps the first-seen time when re-checked', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(meetingEnd + hour);
+      await syncStateManager.readState();
+      syncStateManager.markPending(recording, 72 * hour);
+
+      vi.setSystemTime(meetingEnd + 5 * hour);
+      syncStateManager.markPending(recording, 72 * hour);
+
+      expect(syncStateManager.getPendingRecordings()[0][1].firstSeenAt).toBe(meetingEnd + hour);
+    });
+
+    it('drops the recording once it syncs', async () => {
+      await syncStateManager.readState();
+      syncStateManager.markPending({ ...recording, start_time: new Date().toISOString() }, 72 * hour);
+
+      syncStateManager.markSynced(recording, 'Standup.md', undefined, undefined, 'recording');
+
+      expect(syncStateManager.getPendingRecordings()).toHaveLength(0);
+    });
+
+    it('keeps the recording pending when another source syncs the meeting', async () => {
+      await syncStateManager.readState();
+      syncStateManager.markPending({ ...recording, start_time: new Date().toISOString() }, 72 * hour);
+
+      syncStateManager.markSynced(recording, 'Standup.md', undefined, undefined, 'ai_companion');
+
+      expect(syncStateManager.getPendingRecordings()).toHaveLength(1);
+    });
+  });
+
+  describe('backfill checkpoint', () => {
+    it('persists progress so a backfill can resume', async () => {
+      await syncStateManager.readState();
+      syncStateManager.setBackfill({
+        from: '2023-01-01',
+        to: '2023-12-31',
+        userEmails: ['a@example.com', 'b@example.com'],
+        userIndex: 1,
+        windowStart: '2023-06-01',
+        pageToken: 'token-2',
+        startedAt: 1000,
+        syncedCount: 12,
+        skippedCount: 3,
+        failedCount: 1,
+      });
+      await syncStateManager.writeState();
+
+      const reloaded = new SyncStateManager(mockVault as unknown as Vault, transcriptFolder);
+      await reloaded.readState();
+
+      expect(reloaded.getBackfill()).toMatchObject({ userIndex: 1, windowStart: '2023-06-01', pageToken: 'token-2' });
+    });
+
+    it('clears the checkpoint when the backfill finishes', async () => {
+      await syncStateManager.readState();
+      expect(syncStateManager.getBackfill()).toBeNull();
+
+      syncStateManager.setBackfill({
+        from: '2023-01-01', to: '2023-01-31', userEmails: ['a@example.com'], userIndex: 0,
+        windowStart: '2023-01-01', startedAt: 1000, syncedCount: 0, skippedCount: 0, failedCount: 0,
+      });
+      syncStateManager.setBackfill(null);
+
+      expect(syncStateManager.getBackfill()).toBeNull();
     });
   });
 });
@@ -0,0 +1,58 @@
+/**
+ * Unit tests for timezone conversion.
+ * Tests isValidTimezone(), getZonedParts(), formatLocalIso() and formatZonedParts() from src/timezone.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { isValidTimezone, getZonedParts, formatLocalIso, formatZonedParts } from '../src/timezone';
+
+describe('isValidTimezone', () => {
+  it('accepts IANA timezone names', () => {
+    expect(isValidTimezone('America/Los_Angeles')).toBe(true);
+    expect(isValidTimezone('UTC')).toBe(true);
+  });
+
+  it('rejects empty and unknown names', () => {
+    expect(isValidTimezone('')).toBe(false);
+    expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
+
+describe('getZonedParts', () => {
+  it('gives the date and time in the timezone', () => {
+    expect(getZonedParts(new Date('2025-01-15T03:30:45Z'), 'America/New_York')).toEqual({
+      year: 2025, month: 1, day: 14, hour: 22, minute: 30, second: 45,
+    });
+  });
+
+  it('writes midnight as hour 0', () => {
+    expect(getZonedParts(new Date('2025-01-15T00:00:00Z'), 'UTC').hour).toBe(0);
+  });
+});
+
+describe('formatLocalIso', () => {
+  it('includes the UTC offset', () => {
+    expect(formatLocalIso(new Date('2025-01-15T17:00:00Z'), 'America/Los_Angeles')).toBe('2025-01-15T09:00:00-08:00');
+    expect(formatLocalIso(new Date('2025-07-15T17:00:00Z'), 'America/Los_Angeles')).toBe('2025-07-15T10:00:00-07:00');
+  });
+
+  it('handles zones ahead of UTC and partial-hour offsets', () => {
+    expect(formatLocalIso(new Date('2025-01-15T20:00:00Z'), 'Asia/Kolkata')).toBe('2025-01-16T01:30:00+05:30');
+    expect(formatLocalIso(new Date('2025-01-15T20:00:00Z'), 'UTC')).toBe('2025-01-15T20:00:00+00:00');
+  });
+});
+
+describe('formatZonedParts', () => {
+  const parts = { year: 2025, month: 3, day: 5, hour: 9, minute: 7, second: 30 };
+
+  it('replaces Moment-style tokens', () => {
+    expect(formatZonedParts(parts, 'YYYY-MM-DD HHmm')).toBe('2025-03-05 0907');
+    expect(formatZonedParts(parts, 'MMMM D, YYYY')).toBe('March 5, 2025');
+    expect(formatZonedParts(parts, 'D MMM YY H:mm:ss')).toBe('5 Mar 25 9:07:30');
+  });
+
+  it('copies bracketed text as is', () => {
+    expect(formatZonedParts(parts, '[Week of] MMM D')).toBe('Week of Mar 5');
+  });
+});
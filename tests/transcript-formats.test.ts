@@ -0,0 +1,169 @@
+/**
+ * Unit tests for plain-text and JSON transcripts.
+ * Tests detectTranscriptFormat(), getRawTranscriptText(), parsePlainTextTranscript() and
+ * parseJsonTranscript() from src/transcript-formats.ts, and parseTranscript() and the raw
+ * text fallback of TranscriptWriter from src/transcript-writer.ts
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock the obsidian module before importing transcript-writer
+vi.mock('obsidian', async () => {
+  const mocks = await import('./mocks/obsidian');
+  return mocks;
+});
+
+import {
+  detectTranscriptFormat,
+  getRawTranscriptText,
+  parsePlainTextTranscript,
+  parseJsonTranscript,
+} from '../src/transcript-formats';
+import { TranscriptWriter, parseTranscript } from '../src/transcript-writer';
+import { stitchTranscripts } from '../src/transcript-stitch';
+
+describe('detectTranscriptFormat', () => {
+  it('detects WebVTT by its cue timings', () => {
+    expect(detectTranscriptFormat('WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nHello')).toBe('vtt');
+    expect(detectTranscriptFormat('01:02.000 --> 01:04.000\nHello')).toBe('vtt');
+  });
+
+  it('detects JSON objects and arrays', () => {
+    expect(detectTranscriptFormat('\uFEFF{"transcripts": []}')).toBe('json');
+    expect(detectTranscriptFormat('  [{"text": "Hello"}]\n')).toBe('json');
+  });
+
+  it('treats everything else as plain text', () => {
+    expect(detectTranscriptFormat('[Jane Doe] 10:15:04\nHello')).toBe('text');
+    expect(detectTranscriptFormat('Jane Doe: Hello')).toBe('text');
+  });
+});
+
+describe('getRawTranscriptText', () => {
+  it('drops the WEBVTT header and segment markers', () => {
+    expect(getRawTranscriptText('\uFEFFWEBVTT\n\nNOTE Segment 1\n\nSome notes\r\nMore notes\n')).toBe('Some notes\nMore notes');
+  });
+
+  it('returns empty string when there is no text', () => {
+    expect(getRawTranscriptText('WEBVTT\n\n')).toBe('');
+  });
+});
+
+describe('parsePlainTextTranscript', () => {
+  it('parses a header line per speaker turn', () => {
+    const text = [
+      '[Jane Doe] 10:15:04',
+      'Welcome, everyone.',
+      'Let us get started.',
+      '',
+      '[John Smith] 10:15:20',
+      'Thanks.',
+    ].join('\n');
+
+    expect(parsePlainTextTranscript(text)).toEqual([
+      { timestamp: '10:15:04', speaker: 'Jane Doe', text: 'Welcome, everyone. Let us get started.', startMs: 36904000 },
+      { timestamp: '10:15:20', speaker: 'John Smith', text: 'Thanks.', startMs: 36920000 },
+    ]);
+  });
+
+  it('parses timed lines with and without a speaker', () => {
+    expect(parsePlainTextTranscript('[00:01:02] Jane Doe: Hello\n01:05 Welcome back')).toEqual([
+      { timestamp: '00:01:02', speaker: 'Jane Doe', text: 'Hello', startMs: 62000 },
+      { timestamp: '00:01:05', speaker: '', text: 'Welcome back', startMs: 65000 },
+    ]);
+  });
+
+  it('parses speaker lines without times and keeps wrapped lines with their turn', () => {
+    expect(parsePlainTextTranscript('Jane Doe: See https://example.com\nfor details.\nJohn Smith: Got it.')).toEqual([
+      { timestamp: '', speaker: 'Jane Doe', text: 'See https://example.com for details.' },
+      { timestamp: '', speaker: 'John Smith', text: 'Got it.' },
+    ]);
+  });
+
+  it('returns nothing for text without speakers or times', () => {
+    expect(parsePlainTextTranscript('Just some notes.\nNothing more.')).toEqual([]);
+  });
+});
+
+describe('parseJsonTranscript', () => {
+  it('reads turns from an object holding a list', () => {
+    const json = JSON.stringify({
+      transcripts: [
+        { speaker: 'Jane Doe', start_time: '00:01:02', end_time: '00:01:04.500', text: 'Hello' },
+        { speaker: { name: 'John Smith' }, start_time: '00:01:05', text: '  Hi   there ' },
+        { speaker: 'Nobody', start_time: '00:01:06', text: '' },
+      ],
+    });
+
+    expect(parseJsonTranscript(json)).toEqual([
+      { timestamp: '00:01:02', speaker: 'Jane Doe', text: 'Hello', startMs: 62000, endMs: 64500 },
+      { timestamp: '00:01:05', speaker: 'John Smith', text: 'Hi there', startMs: 65000 },
+    ]);
+  });
+
+  it('reads timelines with users and times in seconds or milliseconds', () => {
+    const json = JSON.stringify({
+      timeline: [
+        { text: 'Hello', ts: 62.5, users: [{ username: 'Jane Doe' }] },
+        { content: 'Hi', start_ms: 65000, end_ms: 66000 },
+      ],
+    });
+
+    expect(parseJsonTranscript(json)).toEqual([
+      { timestamp: '00:01:02', speaker: 'Jane Doe', text: 'Hello', startMs: 62500 },
+      { timestamp: '00:01:05', speaker: '', text: 'Hi', startMs: 65000, endMs: 66000 },
+    ]);
+  });
+
+  it('reads a bare array of turns', () => {
+    expect(parseJsonTranscript('[{"name": "Jane Doe", "text": "Hello"}]')).toEqual([
+      { timestamp: '', speaker: 'Jane Doe', text: 'Hello' },
+    ]);
+  });
+
+  it('returns nothing for invalid JSON or JSON without turns', () => {
+    expect(parseJsonTranscript('{"transcripts": ')).toEqual([]);
+    expect(parseJsonTranscript('{"meeting": "Planning"}')).toEqual([]);
+  });
+});
+
+describe('parseTranscript', () => {
+  it('parses each stitched segment in its own format', () => {
+    const stitched = stitchTranscripts([
+      { content: '[Jane Doe] 00:00:05\nHello' },
+      { content: '[{"speaker": "John Smith", "start_time": "00:00:07", "text": "Hi"}]' },
+    ]);
+
+    expect(parseTranscript(stitched)).toEqual([
+      { timestamp: '', speaker: '', text: '', segment: 1 },
+      { timestamp: '00:00:05', speaker: 'Jane Doe', text: 'Hello', startMs: 5000 },
+      { timestamp: '', speaker: '', text: '', segment: 2 },
+      { timestamp: '00:00:07', speaker: 'John Smith', text: 'Hi', startMs: 7000 },
+    ]);
+  });
+
+  it('returns nothing when only segment markers are left', () => {
+    expect(parseTranscript('WEBVTT\n\nNOTE Segment 1\n\nNOTE Segment 2\n')).toEqual([]);
+  });
+});
+
+describe('TranscriptWriter transcript formats', () => {
+  const meeting = { uuid: 'uuid-1', id: 1, topic: 'Planning', start_time: '2025-01-15T09:00:00Z', duration: 30 };
+  const writer = new TranscriptWriter(meeting, { template: '{{transcript}}' });
+
+  it('formats plain-text turns like VTT cues', () => {
+    expect(writer.generateTranscript('[Jane Doe] 00:01:02\nHello\n\nJohn Smith: Hi', [])).toBe(
+      '**00:01:02 - Jane Doe:**\nHello\n\n**John Smith:**\nHi'
+    );
+  });
+
+  it('keeps a transcript it cannot parse as raw text', () => {
+    expect(writer.generateTranscript('Summary of the meeting.\nNext steps to follow.', [])).toBe(
+      'Summary of the meeting.\nNext steps to follow.'
+    );
+  });
+
+  it('leaves an empty transcript empty', () => {
+    expect(writer.generateTranscript('WEBVTT\n\n', [])).toBe('');
+  });
+});
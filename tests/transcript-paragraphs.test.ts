@@ -0,0 +1,120 @@
+/**
+ * Unit tests for the paragraph transcript layout.
+ * Tests mergeParagraphs() and the paragraphs option of TranscriptWriter from src/transcript-writer.ts
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock the obsidian module before importing transcript-writer
+vi.mock('obsidian', async () => {
+  const mocks = await import('./mocks/obsidian');
+  return mocks;
+});
+
+import { TranscriptWriter, mergeParagraphs, parseVtt, formatVttEntries, VttEntry } from '../src/transcript-writer';
+
+function cue(startSeconds: number, speaker: string, text: string, lengthSeconds = 3): VttEntry {
+  const startMs = startSeconds * 1000;
+  const seconds = startSeconds % 60;
+  return {
+    timestamp: `00:${String(Math.floor(startSeconds / 60)).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`,
+    speaker,
+    text,
+    startMs,
+    endMs: startMs + lengthSeconds * 1000,
+  };
+}
+
+const limits = { maxGapMs: 5000, maxLength: 1000 };
+
+describe('mergeParagraphs', () => {
+  it('merges consecutive cues from the same speaker and reflows sentences across them', () => {
+    const merged = mergeParagraphs([
+      cue(62, 'Alice', 'So the plan'),
+      cue(65, 'Alice', 'is to ship on Friday.  We still'),
+      cue(68, 'Alice', 'need sign-off.'),
+      cue(71, 'Bob', 'Sounds good.'),
+    ], limits);
+
+    expect(merged).toEqual([
+      { timestamp: '00:01:02', speaker: 'Alice', text: 'So the plan is to ship on Friday. We still need sign-off.', startMs: 62000, endMs: 71000 },
+      { timestamp: '00:01:11', speaker: 'Bob', text: 'Sounds good.', startMs: 71000, endMs: 74000 },
+    ]);
+  });
+
+  it('starts a new paragraph after a long pause', () => {
+    const merged = mergeParagraphs([cue(0, 'Alice', 'First.'), cue(3, 'Alice', 'Second.'), cue(20, 'Alice', 'Later.')], limits);
+
+    expect(merged.map(entry => [entry.timestamp, entry.text])).toEqual([
+      ['00:00:00', 'First. Second.'],
+      ['00:00:20', 'Later.'],
+    ]);
+  });
+
+  it('breaks long paragraphs between sentences, timed from the cue each one starts in', () => {
+    const merged = mergeParagraphs([
+      cue(0, 'Alice', 'One two three. Four five'),
+      cue(3, 'Alice', 'six. Seven eight nine.'),
+    ], { maxGapMs: 5000, maxLength: 30 });
+
+    expect(merged.map(entry => [entry.timestamp, entry.text])).toEqual([
+      ['00:00:00', 'One two three. Four five six.'],
+      ['00:00:03', 'Seven eight nine.'],
+    ]);
+  });
+
+  it('splits sentences longer than the limit where their cues start', () => {
+    const merged = mergeParagraphs([
+      cue(0, 'Alice', 'and then we talked about'),
+      cue(3, 'Alice', 'the budget for next year'),
+      cue(6, 'Alice', 'and nobody agreed'),
+    ], { maxGapMs: 5000, maxLength: 50 });
+
+    expect(merged.map(entry => [entry.timestamp, entry.text])).toEqual([
+      ['00:00:00', 'and then we talked about the budget for next year'],
+      ['00:00:06', 'and nobody agreed'],
+    ]);
+  });
+
+  it('keeps segment markers and chat messages, which end a paragraph', () => {
+    const chat: VttEntry = { timestamp: '00:00:04', speaker: 'Bob', text: 'Link', chat: true };
+    const marker: VttEntry = { timestamp: '00:00:10', speaker: '', text: '', segment: 2 };
+
+    const merged = mergeParagraphs([cue(0, 'Alice', 'Hi.'), chat, cue(5, 'Alice', 'Here.'), marker, cue(10, 'Alice', 'Back.')], limits);
+
+    expect(merged.map(entry => entry.text)).toEqual(['Hi.', 'Link', 'Here.', '', 'Back.']);
+  });
+});
+
+describe('TranscriptWriter paragraph layout', () => {
+  const meeting = { uuid: 'uuid-1', id: 1, topic: 'Planning', start_time: '2025-01-15T09:00:00Z', duration: 30 };
+  const vtt = [
+    'WEBVTT',
+    '',
+    '1',
+    '00:01:02.000 --> 00:01:04.500',
+    'Alice: So the plan is',
+    '',
+    '2',
+    '00:01:04.600 --> 00:01:07.000',
+    'Alice: to ship on Friday.',
+    '',
+    '3',
+    '00:01:08.000 --> 00:01:09.000',
+    'Bob: Great.',
+  ].join('\n');
+
+  it('writes one block per speaker paragraph', () => {
+    const writer = new TranscriptWriter(meeting, { paragraphs: limits, template: '{{transcript}}' });
+
+    expect(writer.generateTranscript(vtt, [])).toBe(
+      '**00:01:02 - Alice:**\nSo the plan is to ship on Friday.\n\n**00:01:08 - Bob:**\nGreat.'
+    );
+  });
+
+  it('keeps one block per cue without the option', () => {
+    const writer = new TranscriptWriter(meeting, { template: '{{transcript}}' });
+
+    expect(writer.generateTranscript(vtt, [])).toBe(formatVttEntries(parseVtt(vtt)));
+  });
+});
@@ -0,0 +1,519 @@
+/**
+ * Unit tests for the transcript sources the sync loop reads from.
+ * Tests RecordingTranscriptSource, AICompanionTranscriptSource, and the source registry
+ * from src/recording-source.ts, src/ai-companion-source.ts, and src/source-registry.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Mock the obsidian module before importing the sources
+vi.mock('obsidian', async () => {
+  const mocks = await import('./mocks/obsidian');
+  return mocks;
+});
+
+import { Vault } from 'obsidian';
+import { MockVault } from './mocks/obsidian';
+import { ZoomApiClient } from '../src/zoom-api';
+import { SyncStateManager } from '../src/sync-state';
+import { RecordingTranscriptSource, toSourceMeeting } from '../src/recording-source';
+import { AICompanionTranscriptSource } from '../src/ai-companion-source';
+import { createEnabledSources, getNoteSourceAction, getSourcesByPriority } from '../src/source-registry';
+import { SourceContext, TranscriptUnavailableError } from '../src/transcript-source';
+import { FailedMeeting, ZoomRecording, ZoomRecordingFile, ZoomSyncSettings } from '../src/types';
+
+/**
+ * Helper to create a recording with a transcript file in the given state.
+ */
+function createRecording(id: number, transcriptStatus: string | null = 'completed'): ZoomRecording {
+  const files: ZoomRecordingFile[] = [
+    {
+      id: `video-${id}`,
+      meeting_id: String(id),
+      recording_start: '2025-01-15T10:00:00Z',
+      recording_end: '2025-01-15T11:00:00Z',
+      file_type: 'MP4',
+      file_extension: 'mp4',
+      file_size: 500000,
+      play_url: `https://zoom.us/rec/play/${id}`,
+      download_url: `https://zoom.us/download/${id}/video.mp4`,
+      status: 'completed',
+      recording_type: 'shared_screen_with_speaker_view',
+    },
+  ];
+  if (transcriptStatus) {
+    files.push({
+      id: `transcript-${id}`,
+      meeting_id: String(id),
+      recording_start: '2025-01-15T10:00:00Z',
+      recording_end: '2025-01-15T11:00:00Z',
+      file_type: 'TRANSCRIPT',
+      file_extension: 'VTT',
+      file_size: 5000,
+      play_url: '',
+      download_url: `https://zoom.us/download/${id}/transcript.vtt`,
+      status: transcriptStatus,
+      recording_type: 'audio_transcript',
+    });
+  }
+  return {
+    uuid: `uuid-${id}`,
+    id,
+    account_id: 'account',
+    host_id: 'host',
+    topic: `Meeting ${id}`,
+    type: 2,
+    start_time: '2025-01-15T10:00:00Z',
+    duration: 60,
+    total_size: 505000,
+    recording_count: files.length,
+    recording_files: files,
+    participant_audio_files: [{ id: 'a', file_name: "Ada Lovelace's audio.m4a" }],
+  } as ZoomRecording;
+}
+
+const PENDING_TIMEOUT_MS = 72 * 60 * 60 * 1000;
+
+/**
+ * Helper to create a meeting that just ended, so it is still within the pending timeout.
+ */
+function recentMeeting(id: number) {
+  return { ...toSourceMeeting(createRecording(id)), start_time: new Date().toISOString() };
+}
+
+function failure(overrides: Partial<FailedMeeting> = {}): FailedMeeting {
+  return {
+    meetingId: 42,
+    topic: 'Queued meeting',
+    startTime: '2025-01-10T09:00:00Z',
+    duration: 30,
+    source: 'ai_companion',
+    error: 'boom',
+    attempts: 1,
+    lastAttemptAt: 0,
+    nextRetryAt: 0,
+    gaveUp: false,
+    ...overrides,
+  };
+}
+
+describe('Transcript sources', () => {
+  let api: Record<string, ReturnType<typeof vi.fn>>;
+  let stateManager: SyncStateManager;
+  let context: SourceContext;
+
+  beforeEach(async () => {
+    api = {
+      listRecordings: vi.fn().mockResolvedValue([]),
+      getMeetingRecording: vi.fn().mockResolvedValue(null),
+      findRecordingByShareUrl: vi.fn().mockResolvedValue(null),
+      downloadTranscript: vi.fn().mockResolvedValue('WEBVTT'),
+      listPastMeetings: vi.fn().mockResolvedValue([]),
+      getPastMeeting: vi.fn().mockResolvedValue(null),
+      getMeetingTranscript: vi.fn().mockResolvedValue(null),
+      downloadTranscriptDirect: vi.fn().mockResolvedValue('transcript text'),
+      resolveHost: vi.fn().mockResolvedValue(null),
+    };
+    stateManager = new SyncStateManager(new MockVault() as unknown as Vault, 'zoom-transcripts');
+    await stateManager.readState();
+    context = {
+      apiClient: api as unknown as ZoomApiClient,
+      settings: {
+        fetchRecordingTranscripts: true,
+        fetchAICompanionTranscripts: false,
+        recordingTranscriptOrder: 'audio_first',
+      } as ZoomSyncSettings,
+      stateManager,
+      dryRun: false,
+      log: () => {},
+    };
+  });
+
+  describe('RecordingTranscriptSource', () => {
+    it('normalizes recordings into source meetings', () => {
+      expect(toSourceMeeting(createRecording(1))).toEqual({
+        uuid: 'uuid-1',
+        id: 1,
+        topic: 'Meeting 1',
+        start_time: '2025-01-15T10:00:00Z',
+        duration: 60,
+        recordingUrl: 'https://zoom.us/rec/play/1',
+        type: 2,
+      });
+    });
+
+    it('finds a ready transcript with attendees and a download', async () => {
+      api.listRecordings.mockResolvedValue([createRecording(1)]);
+      const source = new RecordingTranscriptSource(context);
+
+      const [meeting] = await source.listMeetings(undefined);
+      const lookup = await source.findTranscript(meeting);
+
+      expect(api.listRecordings).toHaveBeenCalledWith(undefined, { includePending: true });
+      expect(lookup.status).toBe('ready');
+      if (lookup.status !== 'ready') return;
+      expect(lookup.transcript.remoteFile).toEqual({
+        fileId: 'transcript-1',
+        fileSize: 5000,
+        createdAt: '2025-01-15T11:00:00Z',
+      });
+      expect(lookup.transcript.attendees).toEqual(['Ada Lovelace']);
+      expect(lookup.transcript.kind).toBe('audio_transcript');
+      expect(await lookup.transcript.download()).toBe('WEBVTT');
+      await lookup.transcript.resolveHost();
+      expect(api.resolveHost).toHaveBeenCalledWith('host');
+      expect(api.downloadTranscript).toHaveBeenCalledWith('https://zoom.us/download/1/transcript.vtt');
+    });
+
+    it('stitches the transcripts of a meeting recorded in several segments', async () => {
+      const recording = createRecording(1);
+      const [, first] = recording.recording_files;
+      // Listed out of order; the second segment starts 30 minutes into the meeting
+      recording.recording_files.push({
+        ...first,
+        id: 'transcript-1b',
+        recording_start: '2025-01-15T10:30:00Z',
+        recording_end: '2025-01-15T11:15:00Z',
+        file_size: 3000,
+        download_url: 'https://zoom.us/download/1/transcript-b.vtt',
+      });
+      recording.recording_files.reverse();
+      api.listRecordings.mockResolvedValue([recording]);
+      api.downloadTranscript.mockImplementation(async (url: string) =>
+        url.endsWith('transcript-b.vtt')
+          ? 'WEBVTT\n\n1\n00:00:01.000 --> 00:00:02.000\nBob: Second.'
+          : 'WEBVTT\n\n1\n00:00:01.000 --> 00:00:02.000\nAlice: First.'
+      );
+      const source = new RecordingTranscriptSource(context);
+
+      const [meeting] = await source.listMeetings(undefined);
+      const lookup = await source.findTranscript(meeting);
+
+      if (lookup.status !== 'ready') throw new Error('expected a transcript');
+      expect(lookup.transcript.remoteFile).toEqual({
+        fileId: 'transcript-1,transcript-1b',
+        fileSize: 8000,
+        createdAt: '2025-01-15T11:15:00Z',
+      });
+      const content = await lookup.transcript.download();
+      expect(content.indexOf('Alice: First.')).toBeLessThan(content.indexOf('Bob: Second.'));
+      expect(content).toContain('NOTE Segment 2 starts at 00:30:00');
+      expect(content).toContain('00:30:01.000 --> 00:30:02.000');
+    });
+
+    it('downloads and parses the chat saved with the recording', async () => {
+      const recording = createRecording(1);
+      recording.recording_files.push({
+        ...recording.recording_files[1],
+        id: 'chat-1',
+        file_type: 'CHAT',
+        file_extension: 'TXT',
+        recording_type: 'chat_file',
+        download_url: 'https://zoom.us/download/1/chat.txt',
+      });
+      api.listRecordings.mockResolvedValue([recording, createRecording(2)]);
+      api.downloadTranscript.mockResolvedValue('00:00:07\t From  Jane Doe  to  Everyone:\n\tHello');
+      const source = new RecordingTranscriptSource(context);
+
+      const meetings = await source.listMeetings(undefined);
+      const withChat = await source.findTranscript(meetings[0]);
+      const withoutChat = await source.findTranscript(meetings[1]);
+
+      if (withChat.status !== 'ready' || withoutChat.status !== 'ready') throw new Error('expected transcripts');
+      expect(await withChat.transcript.downloadChat?.()).toEqual([
+        { timestamp: '00:00:07', sender: 'Jane Doe', text: 'Hello' },
+      ]);
+      expect(api.downloadTranscript).toHaveBeenCalledWith('https://zoom.us/download/1/chat.txt');
+      expect(await withoutChat.transcript.downloadChat?.()).toEqual([]);
+    });
+
+    it('falls back to closed captions when there is no audio transcript', async () => {
+      const recording = createRecording(1, null);
+      recording.recording_files.push({
+        ...createRecording(1).recording_files[1],
+        id: 'cc-1',
+        file_type: 'CC',
+        recording_type: 'closed_caption',
+        download_url: 'https://zoom.us/download/1/cc.vtt',
+      });
+      api.listRecordings.mockResolvedValue([recording]);
+      const source = new RecordingTranscriptSource(context);
+
+      const [meeting] = await source.listMeetings(undefined);
+      const lookup = await source.findTranscript(meeting);
+
+      if (lookup.status !== 'ready') throw new Error('expected a transcript');
+      expect(lookup.transcript.kind).toBe('closed_caption');
+      expect(lookup.transcript.remoteFile.fileId).toBe('cc-1');
+      await lookup.transcript.download();
+      expect(api.downloadTranscript).toHaveBeenCalledWith('https://zoom.us/download/1/cc.vtt');
+    });
+
+    it('follows the recording transcript order setting', async () => {
+      const recording = createRecording(1);
+      recording.recording_files.push({ ...recording.recording_files[1], id: 'cc-1', file_type: 'CC', recording_type: 'closed_caption' });
+      const captionsOnly = createRecording(2, null);
+      captionsOnly.recording_files.push({ ...recording.recording_files[2], id: 'cc-2' });
+      api.listRecordings.mockResolvedValue([recording, captionsOnly]);
+
+      context.settings.recordingTranscriptOrder = 'captions_first';
+      const captionsFirst = new RecordingTranscriptSource(context);
+      const [meeting] = await captionsFirst.listMeetings(undefined);
+      const lookup = await captionsFirst.findTranscript(meeting);
+      expect(lookup.status === 'ready' && lookup.transcript.kind).toBe('closed_caption');
+
+      context.settings.recordingTranscriptOrder = 'audio_only';
+      const audioOnly = new RecordingTranscriptSource(context);
+      const meetings = await audioOnly.listMeetings(undefined);
+      expect((await audioOnly.findTranscript(meetings[0])).status).toBe('ready');
+      expect(await audioOnly.findTranscript(meetings[1])).toEqual({ status: 'pending' });
+    });
+
+    it('waits until every segment transcript is ready', async () => {
+      const recording = createRecording(1);
+      recording.recording_files.push({ ...recording.recording_files[1], id: 'transcript-1b', status: 'processing' });
+      api.listRecordings.mockResolvedValue([recording]);
+      const source = new RecordingTranscriptSource(context);
+
+      const [meeting] = await source.listMeetings(undefined);
+
+      expect(await source.findTranscript(meeting)).toEqual({ status: 'pending' });
+    });
+
+    it('reports recordings whose transcript is still processing as pending', async () => {
+      api.listRecordings.mockResolvedValue([createRecording(1, 'processing'), createRecording(2, null)]);
+      const source = new RecordingTranscriptSource(context);
+
+      const meetings = await source.listMeetings(undefined);
+
+      expect(await source.findTranscript(meetings[0])).toEqual({ status: 'pending' });
+      expect(await source.findTranscript(meetings[1])).toEqual({ status: 'pending' });
+    });
+
+    it('re-checks pending recordings that dropped out of the listing', async () => {
+      stateManager.markPending(recentMeeting(1), PENDING_TIMEOUT_MS);
+      stateManager.markPending(recentMeeting(2), PENDING_TIMEOUT_MS);
+      api.getMeetingRecording.mockImplementation(async (uuid: string) =>
+        uuid === 'uuid-1' ? createRecording(1) : null
+      );
+      const source = new RecordingTranscriptSource(context);
+
+      const meetings = await source.listMeetings(undefined);
+
+      expect(meetings.map(m => m.uuid)).toEqual(['uuid-1']);
+      expect((await source.findTranscript(meetings[0])).status).toBe('ready');
+      // The deleted recording stops being tracked
+      expect(stateManager.getPendingRecordings().map(([uuid]) => uuid)).toEqual(['uuid-1']);
+    });
+
+    it('leaves pending recordings alone in a dry run', async () => {
+      stateManager.markPending(recentMeeting(2), PENDING_TIMEOUT_MS);
+      const source = new RecordingTranscriptSource({ ...context, dryRun: true });
+
+      await source.listMeetings(undefined);
+
+      expect(stateManager.getPendingRecordings().map(([uuid]) => uuid)).toEqual(['uuid-2']);
+    });
+
+    it('returns queued meetings only while the recording still has a transcript', async () => {
+      const source = new RecordingTranscriptSource(context);
+      api.getMeetingRecording.mockResolvedValueOnce(createRecording(1));
+      api.getMeetingRecording.mockResolvedValueOnce(createRecording(2, null));
+
+      expect((await source.getMeeting('uuid-1', failure()))?.uuid).toBe('uuid-1');
+      expect(await source.getMeeting('uuid-2', failure())).toBeNull();
+    });
+
+    it('finds meetings by share link or ID', async () => {
+      api.findRecordingByShareUrl.mockResolvedValue(createRecording(1));
+      api.getMeetingRecording.mockResolvedValue(createRecording(2));
+      const source = new RecordingTranscriptSource(context);
+
+      const shared = await source.findMeeting({ kind: 'share', url: 'https://zoom.us/rec/share/abc' });
+      const byId = await source.findMeeting({ kind: 'id', meetingId: '123456789' });
+
+      expect(shared?.uuid).toBe('uuid-1');
+      expect(byId?.uuid).toBe('uuid-2');
+      expect(api.getMeetingRecording).toHaveBeenCalledWith('123456789');
+      expect((await source.findTranscript(byId!)).status).toBe('ready');
+    });
+
+    it('has no transcript for meetings it did not list', async () => {
+      const source = new RecordingTranscriptSource(context);
+      const lookup = await source.findTranscript(toSourceMeeting(createRecording(3)));
+      expect(lookup.status).toBe('unavailable');
+    });
+  });
+
+  describe('AICompanionTranscriptSource', () => {
+    const meeting = { uuid: 'uuid-9', id: 9, topic: '', start_time: '2025-01-15T10:00:00Z', duration: 30 };
+    const transcript = {
+      meeting_id: 'mid-9',
+      account_id: 'account',
+      meeting_topic: 'Planning',
+      host_id: 'host',
+      transcript_created_time: '2025-01-15T11:00:00Z',
+      can_download: true,
+      auto_delete: false,
+      download_url: 'https://zoom.us/ai/transcript/9',
+    };
+
+    it('finds a downloadable transcript and fills in a missing topic', async () => {
+      api.getMeetingTranscript.mockResolvedValue([{ ...transcript, can_download: false }, transcript]);
+      const source = new AICompanionTranscriptSource(context);
+      const target = { ...meeting };
+
+      const lookup = await source.findTranscript(target);
+
+      expect(lookup.status).toBe('ready');
+      if (lookup.status !== 'ready') return;
+      expect(lookup.transcript.remoteFile).toEqual({ fileId: 'mid-9', createdAt: '2025-01-15T11:00:00Z' });
+      expect(target.topic).toBe('Planning');
+      expect(lookup.transcript.kind).toBe('ai_companion');
+      expect(await lookup.transcript.download()).toBe('transcript text');
+    });
+
+    it('stitches several transcripts in the order they were created', async () => {
+      const later = { ...transcript, transcript_created_time: '2025-01-15T11:30:00Z', download_url: 'https://zoom.us/ai/transcript/9b' };
+      api.getMeetingTranscript.mockResolvedValue([later, transcript]);
+      api.downloadTranscriptDirect.mockImplementation(async (url: string) =>
+        url.endsWith('9b') ? 'WEBVTT\n\nsecond' : 'WEBVTT\n\nfirst'
+      );
+      const source = new AICompanionTranscriptSource(context);
+
+      const lookup = await source.findTranscript({ ...meeting });
+
+      if (lookup.status !== 'ready') throw new Error('expected a transcript');
+      expect(lookup.transcript.remoteFile).toEqual({
+        fileId: 'mid-9',
+        createdAt: '2025-01-15T11:00:00Z,2025-01-15T11:30:00Z',
+      });
+      expect(await lookup.transcript.download()).toBe(
+        'WEBVTT\n\nNOTE Segment 1\n\nfirst\n\nNOTE Segment 2\n\nsecond\n'
+      );
+    });
+
+    it('names the host from the meeting listing', async () => {
+      api.listPastMeetings.mockResolvedValue([{ ...meeting, user_name: 'Jane Doe', user_email: 'jane@example.com' }]);
+      api.getMeetingTranscript.mockResolvedValue([{ ...transcript, host_id: 'host-9' }]);
+      const source = new AICompanionTranscriptSource(context);
+
+      const [listed] = await source.listMeetings(undefined);
+      const lookup = await source.findTranscript(listed);
+      const queued = await source.findTranscript({ ...meeting, uuid: 'uuid-queued' });
+
+      if (lookup.status !== 'ready' || queued.status !== 'ready') throw new Error('expected transcripts');
+      expect(await lookup.transcript.resolveHost()).toEqual({ name: 'Jane Doe', email: 'jane@example.com' });
+      await queued.transcript.resolveHost();
+      expect(api.resolveHost).toHaveBeenCalledWith('host-9');
+    });
+
+    it("adds the host's timezone from the users API when notes use it", async () => {
+      context.settings.timezoneMode = 'host';
+      api.listPastMeetings.mockResolvedValue([{ ...meeting, user_name: 'Jane Doe', user_email: 'jane@example.com' }]);
+      api.getMeetingTranscript.mockResolvedValue([{ ...transcript, host_id: 'host-9' }]);
+      api.resolveHost.mockResolvedValue({ name: 'Jane D.', email: 'jane@example.com', timezone: 'Europe/Berlin' });
+      const source = new AICompanionTranscriptSource(context);
+
+      const [listed] = await source.listMeetings(undefined);
+      const lookup = await source.findTranscript(listed);
+
+      if (lookup.status !== 'ready') throw new Error('expected a transcript');
+      expect(await lookup.transcript.resolveHost()).toEqual({
+        name: 'Jane Doe',
+        email: 'jane@example.com',
+        timezone: 'Europe/Berlin',
+      });
+    });
+
+    it('reports why a meeting has no transcript', async () => {
+      const source = new AICompanionTranscriptSource(context);
+
+      expect(await source.findTranscript(meeting)).toEqual({ status: 'unavailable', reason: 'No AI Companion transcript' });
+
+      api.getMeetingTranscript.mockResolvedValue([{ ...transcript, can_download: false }]);
+      expect(await source.findTranscript(meeting)).toEqual({ status: 'unavailable', reason: 'Transcript not downloadable' });
+
+      api.getMeetingTranscript.mockRejectedValue(new Error('Failed to get meeting transcript: 403 - No scope'));
+      expect(await source.findTranscript(meeting)).toEqual({ status: 'unavailable', reason: 'Transcript not accessible' });
+    });
+
+    it('rethrows other transcript lookup errors', async () => {
+      api.getMeetingTranscript.mockRejectedValue(new Error('Failed to get meeting transcript: 500 - Oops'));
+      const source = new AICompanionTranscriptSource(context);
+
+      await expect(source.findTranscript(meeting)).rejects.toThrow('500');
+    });
+
+    it('turns download access errors into TranscriptUnavailableError', async () => {
+      api.getMeetingTranscript.mockResolvedValue([transcript]);
+      api.downloadTranscriptDirect.mockRejectedValue(new Error('Download failed: 401'));
+      const source = new AICompanionTranscriptSource(context);
+
+      const lookup = await source.findTranscript(meeting);
+      if (lookup.status !== 'ready') throw new Error('expected a transcript');
+
+      await expect(lookup.transcript.download()).rejects.toBeInstanceOf(TranscriptUnavailableError);
+    });
+
+    it('rebuilds queued meetings from the retry queue', async () => {
+      const source = new AICompanionTranscriptSource(context);
+
+      expect(await source.getMeeting('uuid-42', failure())).toEqual({
+        uuid: 'uuid-42',
+        id: 42,
+        topic: 'Queued meeting',
+        start_time: '2025-01-10T09:00:00Z',
+        duration: 30,
+      });
+    });
+
+    it('cannot resolve recording links', async () => {
+      const source = new AICompanionTranscriptSource(context);
+
+      expect(await source.findMeeting({ kind: 'share', url: 'https://zoom.us/rec/share/abc' })).toBeNull();
+      expect(api.getPastMeeting).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createEnabledSources', () => {
+    it('creates the enabled sources in priority order', () => {
+      expect(createEnabledSources(context).map(s => s.kind)).toEqual(['recording']);
+
+      context.settings = { fetchRecordingTranscripts: true, fetchAICompanionTranscripts: true } as ZoomSyncSettings;
+      expect(createEnabledSources(context).map(s => s.kind)).toEqual(['recording', 'ai_companion']);
+
+      context.settings = { fetchRecordingTranscripts: false, fetchAICompanionTranscripts: true } as ZoomSyncSettings;
+      expect(createEnabledSources(context).map(s => s.kind)).toEqual(['ai_companion']);
+    });
+
+    it('puts the preferred source first', () => {
+      context.settings = {
+        fetchRecordingTranscripts: true,
+        fetchAICompanionTranscripts: true,
+        sourcePriority: 'ai_companion',
+      } as ZoomSyncSettings;
+
+      expect(createEnabledSources(context).map(s => s.kind)).toEqual(['ai_companion', 'recording']);
+      expect(getSourcesByPriority('both').map(s => s.kind)).toEqual(['recording', 'ai_companion']);
+    });
+  });
+
+  describe('getNoteSourceAction', () => {
+    it('checks the note\'s own source for changes', () => {
+      expect(getNoteSourceAction(['recording'], 'recording', 'ai_companion')).toBe('update');
+      // Notes synced before sources were tracked are claimed by the first source to list them
+      expect(getNoteSourceAction([], 'ai_companion', 'recording')).toBe('update');
+    });
+
+    it('replaces a transcript from a less preferred source', () => {
+      expect(getNoteSourceAction(['ai_companion'], 'recording', 'recording')).toBe('replace');
+      expect(getNoteSourceAction(['recording'], 'ai_companion', 'recording')).toBe('skip');
+    });
+
+    it('adds the other source\'s transcript once when keeping both', () => {
+      expect(getNoteSourceAction(['ai_companion'], 'recording', 'both')).toBe('append');
+      expect(getNoteSourceAction(['ai_companion', 'recording'], 'recording', 'both')).toBe('skip');
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for joining multi-segment transcripts.
+ * Tests shiftVttTimestamps() and stitchTranscripts() from src/transcript-stitch.ts
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock the obsidian module before importing transcript-writer
+vi.mock('obsidian', async () => {
+  const mocks = await import('./mocks/obsidian');
+  return mocks;
+});
+
+import { shiftVttTimestamps, stitchTranscripts } from '../src/transcript-stitch';
+import { parseVtt, formatVttEntries } from '../src/transcript-writer';
+
+const SEGMENT_ONE = `WEBVTT
+
+1
+00:00:05.000 --> 00:00:10.000
+Alice: Let's start.`;
+
+const SEGMENT_TWO = `WEBVTT
+
+1
+00:00:02.500 --> 00:00:04.000
+Bob: We're back.`;
+
+describe('shiftVttTimestamps', () => {
+  it('shifts cue timings and leaves other lines alone', () => {
+    const shifted = shiftVttTimestamps(SEGMENT_TWO, 3600000 + 61000);
+
+    expect(shifted).toBe(`WEBVTT
+
+1
+01:01:03.500 --> 01:01:05.000
+Bob: We're back.`);
+  });
+
+  it('keeps cue settings after the timing', () => {
+    const shifted = shiftVttTimestamps('00:00:01.000 --> 00:00:02.000 align:start', 1000);
+    expect(shifted).toBe('00:00:02.000 --> 00:00:03.000 align:start');
+  });
+
+  it('shifts short timestamps without hours', () => {
+    const shifted = shiftVttTimestamps('00:59.500 --> 01:02.000', 60000);
+    expect(shifted).toBe('00:01:59.500 --> 00:02:02.000');
+  });
+
+  it('does not shift timestamps below zero', () => {
+    const shifted = shiftVttTimestamps('00:00:01.000 --> 00:00:02.000', -1500);
+    expect(shifted).toBe('00:00:00.000 --> 00:00:00.500');
+  });
+
+  it('returns content unchanged for a zero offset', () => {
+    expect(shiftVttTimestamps('plain text', 0)).toBe('plain text');
+  });
+});
+
+describe('stitchTranscripts', () => {
+  it('leaves out the start time of segments with no known offset', () => {
+    const stitched = stitchTranscripts([{ content: SEGMENT_ONE }, { content: SEGMENT_TWO }]);
+
+    expect(stitched).toContain('NOTE Segment 2\n\n1\n00:00:02.500 --> 00:00:04.000');
+    expect(formatVttEntries(parseVtt(stitched))).toContain('### Segment 2\n\n**00:00:02 - Bob:**');
+  });
+
+  it('returns a single segment unchanged', () => {
+    expect(stitchTranscripts([{ content: SEGMENT_ONE, offsetMs: 0 }])).toBe(SEGMENT_ONE);
+  });
+
+  it('joins segments with a marker before each one', () => {
+    const stitched = stitchTranscripts([
+      { content: SEGMENT_ONE, offsetMs: 0 },
+      { content: SEGMENT_TWO, offsetMs: 42 * 60000 + 10000 },
+    ]);
+
+    expect(stitched).toBe(`WEBVTT
+
+NOTE Segment 1 starts at 00:00:00
+
+1
+00:00:05.000 --> 00:00:10.000
+Alice: Let's start.
+
+NOTE Segment 2 starts at 00:42:10
+
+1
+00:42:12.500 --> 00:42:14.000
+Bob: We're back.
+`);
+  });
+
+  it('produces a transcript that renders as one continuous section', () => {
+    const stitched = stitchTranscripts([
+      { content: SEGMENT_ONE, offsetMs: 0 },
+      { content: SEGMENT_TWO, offsetMs: 600000 },
+    ]);
+
+    expect(formatVttEntries(parseVtt(stitched))).toBe(`### Segment 1 (00:00:00)
+
+**00:00:05 - Alice:**
+Let's start.
+
+### Segment 2 (00:10:00)
+
+**00:10:02 - Bob:**
+We're back.`);
+  });
+});
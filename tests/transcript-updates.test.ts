@@ -0,0 +1,179 @@
+/**
+ * Unit tests for updating existing transcript notes after a remote change.
+ * Tests TranscriptWriter.mergeIntoVault(), nextVersionFileName() and
+ * flagTranscriptChanged() from src/transcript-writer.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Mock the obsidian module before importing transcript-writer
+vi.mock('obsidian', async () => {
+  const mocks = await import('./mocks/obsidian');
+  return mocks;
+});
+
+import { TranscriptWriter } from '../src/transcript-writer';
+import { MockVault } from './mocks/obsidian';
+import { Vault } from 'obsidian';
+
+describe('TranscriptWriter transcript updates', () => {
+  let mockVault: MockVault;
+  const folder = 'zoom-transcripts';
+
+  beforeEach(() => {
+    mockVault = new MockVault();
+    mockVault.addFolder(folder);
+  });
+
+  describe('mergeIntoVault', () => {
+    const generated = [
+      '---',
+      'meeting_name: "Standup"',
+      '---',
+      '',
+      '<!-- zoom-sync:start transcript -->',
+      '## Transcript',
+      'New text',
+      '<!-- zoom-sync:end transcript -->',
+    ].join('\n');
+
+    it('replaces managed regions and keeps user notes', async () => {
+      mockVault.addFile(`${folder}/Standup.md`, [
+        '---',
+        'meeting_name: "Old"',
+        'transcript_changed_at: 2025-01-16T08:00:00.000Z',
+        'status: reviewed',
+        '---',
+        '',
+        '<!-- zoom-sync:start transcript -->',
+        '## Transcript',
+        'Old text',
+        '<!-- zoom-sync:end transcript -->',
+        '',
+        '## My notes',
+      ].join('\n'));
+
+      const result = await TranscriptWriter.mergeIntoVault(mockVault as unknown as Vault, folder, 'Standup.md', generated);
+
+      expect(result).toBe(`${folder}/Standup.md`);
+      const content = mockVault.adapter.getFile(`${folder}/Standup.md`);
+      expect(content).toContain('New text');
+      expect(content).not.toContain('Old text');
+      expect(content).toContain('status: reviewed');
+      expect(content).toContain('## My notes');
+      expect(content).not.toContain('transcript_changed_at');
+    });
+
+    it('drops plugin-owned keys the new content no longer has', async () => {
+      mockVault.addFile(`${folder}/Standup.md`, [
+        '---',
+        'meeting_name: "Old"',
+        'meeting_time_local: 2025-01-15T09:00:00-08:00',
+        'host: "Alice"',
+        'status: reviewed',
+        '---',
+        '',
+        '<!-- zoom-sync:start transcript -->',
+        'Old text',
+        '<!-- zoom-sync:end transcript -->',
+      ].join('\n'));
+
+      await TranscriptWriter.mergeIntoVault(
+        mockVault as unknown as Vault, folder, 'Standup.md', generated, ['meeting_name', 'meeting_time_local']
+      );
+
+      const content = mockVault.adapter.getFile(`${folder}/Standup.md`)!;
+      expect(content).not.toContain('meeting_time_local');
+      // Keys the plugin didn't write last time are the user's
+      expect(content).toContain('host: "Alice"');
+      expect(content).toContain('status: reviewed');
+    });
+
+    it('drops no keys if none were recorded', async () => {
+      mockVault.addFile(`${folder}/Standup.md`, [
+        '---',
+        'meeting_name: "Old"',
+        'host: "Alice"',
+        'status: reviewed',
+        '---',
+        '',
+        '<!-- zoom-sync:start transcript -->',
+        'Old text',
+        '<!-- zoom-sync:end transcript -->',
+      ].join('\n'));
+
+      await TranscriptWriter.mergeIntoVault(mockVault as unknown as Vault, folder, 'Standup.md', generated);
+
+      const content = mockVault.adapter.getFile(`${folder}/Standup.md`)!;
+      expect(content).toContain('meeting_name: "Standup"');
+      expect(content).toContain('host: "Alice"');
+      expect(content).toContain('status: reviewed');
+    });
+
+    it('leaves notes without managed regions untouched', async () => {
+      mockVault.addFile(`${folder}/Standup.md`, '## Transcript\nOld text');
+
+      const result = await TranscriptWriter.mergeIntoVault(mockVault as unknown as Vault, folder, 'Standup.md', generated);
+
+      expect(result).toBeNull();
+      expect(mockVault.adapter.getFile(`${folder}/Standup.md`)).toBe('## Transcript\nOld text');
+    });
+
+    it('creates the note if it was deleted', async () => {
+      await TranscriptWriter.mergeIntoVault(mockVault as unknown as Vault, folder, 'Standup.md', generated);
+
+      expect(mockVault.adapter.getFile(`${folder}/Standup.md`)).toBe(generated);
+    });
+  });
+
+  describe('nextVersionFileName', () => {
+    it('appends (v2) to the original name', () => {
+      const name = TranscriptWriter.nextVersionFileName(mockVault as unknown as Vault, folder, 'Standup - 2025-01-15 1000.md');
+
+      expect(name).toBe('Standup - 2025-01-15 1000 (v2).md');
+    });
+
+    it('skips versions that already exist and does not nest suffixes', () => {
+      mockVault.addFile(`${folder}/Standup (v2).md`);
+
+      const name = TranscriptWriter.nextVersionFileName(mockVault as unknown as Vault, folder, 'Standup (v2).md');
+
+      expect(name).toBe('Standup (v3).md');
+    });
+  });
+
+  describe('flagTranscriptChanged', () => {
+    it('adds transcript_changed_at to the frontmatter and keeps the body', async () => {
+      mockVault.addFile(`${folder}/Standup.md`, '---\nmeeting_name: "Standup"\n---\n\n# Standup\n\nMy notes');
+
+      const flagged = await TranscriptWriter.flagTranscriptChanged(
+        mockVault as unknown as Vault, folder, 'Standup.md', '2025-01-16T08:00:00.000Z'
+      );
+
+      expect(flagged).toBe(true);
+      expect(mockVault.adapter.getFile(`${folder}/Standup.md`)).toBe(
+        '---\nmeeting_name: "Standup"\ntranscript_changed_at: 2025-01-16T08:00:00.000Z\n---\n\n# Standup\n\nMy notes'
+      );
+    });
+
+    it('replaces an existing flag', async () => {
+      mockVault.addFile(`${folder}/Standup.md`, '---\ntranscript_changed_at: 2025-01-01T00:00:00.000Z\n---\nBody');
+
+      await TranscriptWriter.flagTranscriptChanged(
+        mockVault as unknown as Vault, folder, 'Standup.md', '2025-01-16T08:00:00.000Z'
+      );
+
+      expect(mockVault.adapter.getFile(`${folder}/Standup.md`)).toBe(
+        '---\ntranscript_changed_at: 2025-01-16T08:00:00.000Z\n---\nBody'
+      );
+    });
+
+    it('returns false when the note no longer exists', async () => {
+      const flagged = await TranscriptWriter.flagTranscriptChanged(
+        mockVault as unknown as Vault, folder, 'Missing.md', '2025-01-16T08:00:00.000Z'
+      );
+
+      expect(flagged).toBe(false);
+    });
+  });
+});
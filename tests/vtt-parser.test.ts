@@ -29,6 +29,9 @@ John Smith: Hello everyone, welcome to the meeting.`;
         timestamp: '00:00:16',
         speaker: 'John Smith',
         text: 'Hello everyone, welcome to the meeting.',
+        startMs: 16239,
+        endMs: 27079,
+        id: '1',
       });
     });
 
@@ -104,6 +107,9 @@ Another line of text without speaker.`;
         timestamp: '00:00:05',
         speaker: '',
         text: 'This is some dialogue without a speaker.',
+        startMs: 5000,
+        endMs: 10000,
+        id: '1',
       });
       expect(entries[1].speaker).toBe('');
     });
@@ -273,6 +279,107 @@ Another Speaker: Entry number one hundred.`;
       expect(entries[1].text).toBe('Entry number one hundred.');
     });
   });
+
+  describe('WebVTT features', () => {
+    it('reads short timestamps, long hours and cue settings', () => {
+      const vttContent = `WEBVTT
+
+00:05.250 --> 01:10.000 align:start line:90%
+Speaker: Short form.
+
+123:00:00.000 --> 123:00:02.500
+Speaker: Long meeting.`;
+
+      const entries = parseVtt(vttContent);
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({ timestamp: '00:00:05', startMs: 5250, endMs: 70000, text: 'Short form.' });
+      expect(entries[0].id).toBeUndefined();
+      expect(entries[1]).toMatchObject({ timestamp: '123:00:00', startMs: 442800000, endMs: 442802500 });
+    });
+
+    it('takes the speaker from voice tags and drops other markup', () => {
+      const vttContent = `WEBVTT
+
+intro
+00:00:01.000 --> 00:00:04.000
+<v.loud Jane Doe><i>Tom &amp; Ann</i> said &lt;no&gt;
+right away</v>`;
+
+      const entries = parseVtt(vttContent);
+
+      expect(entries).toEqual([{
+        timestamp: '00:00:01',
+        speaker: 'Jane Doe',
+        text: 'Tom & Ann said <no> right away',
+        startMs: 1000,
+        endMs: 4000,
+        id: 'intro',
+        voices: [{ speaker: 'Jane Doe', text: 'Tom & Ann said <no> right away' }],
+      }]);
+    });
+
+    it('names each voice in a cue with several speakers', () => {
+      const vttContent = `WEBVTT
+
+00:00:01.000 --> 00:00:04.000
+<v Jane>Ready?</v> <v Bob>Yes.`;
+
+      const [entry] = parseVtt(vttContent);
+
+      expect(entry.speaker).toBe('');
+      expect(entry.text).toBe('Jane: Ready? Bob: Yes.');
+      expect(entry.voices).toEqual([{ speaker: 'Jane', text: 'Ready?' }, { speaker: 'Bob', text: 'Yes.' }]);
+    });
+
+    it('skips header text, NOTE, STYLE and REGION blocks', () => {
+      const vttContent = `\uFEFFWEBVTT - Zoom transcript
+Kind: captions
+
+STYLE
+::cue { color: yellow }
+
+REGION
+id:fred width:40%
+
+NOTE This transcript was checked
+by Jane
+
+2
+not a timing line
+Not a cue.
+
+1
+00:00:03.000 --> 00:00:04.000
+Speaker: Only cue.`;
+
+      const entries = parseVtt(vttContent);
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ id: '1', speaker: 'Speaker', text: 'Only cue.' });
+    });
+
+    it('starts a new cue at a timing line without a blank line before it', () => {
+      const vttContent = `WEBVTT
+
+00:00:01.000 --> 00:00:02.000
+A: First.
+00:00:03.000 --> 00:00:04.000
+B: Second.`;
+
+      const entries = parseVtt(vttContent);
+
+      expect(entries.map(e => e.text)).toEqual(['First.', 'Second.']);
+    });
+
+    it('keeps formatted output the same as for plain Zoom cues', () => {
+      const voiced = 'WEBVTT\n\n00:16.239 --> 00:27.079\n<v John Smith>Hello everyone.</v>';
+      const plain = 'WEBVTT\n\n1\n00:00:16.239 --> 00:00:27.079\nJohn Smith: Hello everyone.';
+
+      expect(formatVttEntries(parseVtt(voiced))).toBe(formatVttEntries(parseVtt(plain)));
+      expect(formatVttEntries(parseVtt(plain))).toBe('**00:00:16 - John Smith:**\nHello everyone.');
+    });
+  });
 });
 
 describe('formatVttEntries', () => {
@@ -8,8 +8,8 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { ZoomApiClient, RateLimitError } from '../src/zoom-api';
-import { ZoomSyncSettings, ZoomRecording, ZoomListRecordingsResponse } from '../src/types';
+import { ZoomApiClient, RateLimitError, SyncCancelledError, hasCompletedTranscript } from '../src/zoom-api';
+import { ZoomSyncSettings, ZoomRecording, ZoomListRecordingsResponse, SyncProgress } from '../src/types';
 import { mockRequestUrl, mockResponses, MockResponse } from './mocks/requestUrl';
 
 // Mock the obsidian module's requestUrl
@@ -191,6 +191,43 @@ describe('ZoomApiClient Integration Tests', () => {
         expect(recordings[0].topic).toBe('With Transcript');
       });
 
+      it('keeps recordings that only have closed captions', async () => {
+        const captioned = createMockRecording({ id: 111111111, topic: 'Captioned' });
+        captioned.recording_files[1] = {
+          ...captioned.recording_files[1],
+          file_type: 'CC',
+          file_extension: 'VTT',
+          recording_type: 'closed_caption',
+        };
+
+        mockRequestUrl.setPatternResponse(
+          /api\.zoom\.us\/v2\/users\/[^/]+\/recordings/,
+          mockResponses.json(createMockListResponse([captioned]))
+        );
+
+        const recordings = await client.listRecordings(recentFromDate);
+
+        expect(recordings.map(r => r.topic)).toEqual(['Captioned']);
+      });
+
+      it('treats transcripts that are still processing as pending', async () => {
+        const ready = createMockRecording({ id: 111111111, topic: 'Ready' });
+        const processing = createMockRecording({ id: 222222222, topic: 'Processing' });
+        processing.recording_files[1].status = 'processing';
+
+        mockRequestUrl.setPatternResponse(
+          /api\.zoom\.us\/v2\/users\/[^/]+\/recordings/,
+          mockResponses.json(createMockListResponse([ready, processing]))
+        );
+
+        const recordings = await client.listRecordings(recentFromDate);
+        const withPending = await client.listRecordings(recentFromDate, { includePending: true });
+
+        expect(recordings.map(r => r.topic)).toEqual(['Ready']);
+        expect(withPending.map(r => r.topic)).toEqual(['Ready', 'Processing']);
+        expect(hasCompletedTranscript(processing)).toBe(false);
+      });
+
       it('uses from parameter correctly', async () => {
         mockRequestUrl.setPatternResponse(
           /api\.zoom\.us\/v2\/users\/[^/]+\/recordings/,
@@ -246,6 +283,195 @@ Speaker Two: Thanks for having me.`;
     });
   });
 
+  describe('getMeetingRecording', () => {
+    it('fetches a single occurrence by double-encoded UUID', async () => {
+      const recording = createMockRecording({ id: 333333333, uuid: 'abc/def==' });
+      mockRequestUrl.setPatternResponse(
+        /api\.zoom\.us\/v2\/meetings\/[^/]+\/recordings/,
+        mockResponses.json(recording)
+      );
+
+      const result = await client.getMeetingRecording('abc/def==');
+
+      expect(result?.id).toBe(333333333);
+      expect(mockRequestUrl.getLastCall()?.url).toContain('/meetings/abc%252Fdef%253D%253D/recordings');
+    });
+
+    it('returns null when the recording no longer exists', async () => {
+      mockRequestUrl.setPatternResponse(
+        /api\.zoom\.us\/v2\/meetings\/[^/]+\/recordings/,
+        mockResponses.json({ message: 'Not found' }, 404)
+      );
+
+      expect(await client.getMeetingRecording('gone')).toBeNull();
+    });
+  });
+
+  describe('listRecordingsPage', () => {
+    it('fetches a single page for one user and date range', async () => {
+      mockRequestUrl.setPatternResponse(
+        /api\.zoom\.us\/v2\/users\/[^/]+\/recordings/,
+        mockResponses.json(createMockListResponse([createMockRecording({ id: 111111111 })], 'next-token'))
+      );
+
+      const page = await client.listRecordingsPage(
+        'old@example.com',
+        new Date('2022-03-01'),
+        new Date('2022-04-01'),
+        'prev-token'
+      );
+
+      expect(page.meetings).toHaveLength(1);
+      expect(page.next_page_token).toBe('next-token');
+      expect(mockRequestUrl.getLastCall()?.url).toBe(
+        'https://api.zoom.us/v2/users/old%40example.com/recordings?from=2022-03-01&to=2022-04-01&next_page_token=prev-token'
+      );
+    });
+  });
+
+  describe('listUserEmails', () => {
+    it('falls back to configured emails when users cannot be listed', async () => {
+      mockRequestUrl.setPatternResponse(/api\.zoom\.us\/v2\/users\?/, mockResponses.json({ message: 'No scope' }, 403));
+      const multiUser = new ZoomApiClient({ ...testSettings, userEmails: 'a@example.com, b@example.com' });
+
+      expect(await multiUser.listUserEmails()).toEqual(['a@example.com', 'b@example.com']);
+    });
+  });
+
+  describe('resolveHost', () => {
+    it('names hosts from the user listing without another request', async () => {
+      mockRequestUrl.setPatternResponse(
+        /api\.zoom\.us\/v2\/users\?/,
+        mockResponses.json({ users: [{ id: 'host-1', email: 'jane@example.com', first_name: 'Jane', last_name: 'Doe' }] })
+      );
+
+      await client.listUserEmails();
+      const host = await client.resolveHost('host-1');
+
+      expect(host).toEqual({ name: 'Jane Doe', email: 'jane@example.com' });
+      expect(mockRequestUrl.getCallsMatching(/users\/host-1/)).toHaveLength(0);
+    });
+
+    it('looks up other hosts once per client', async () => {
+      mockRequestUrl.setPatternResponse(
+        /api\.zoom\.us\/v2\/users\/host-2/,
+        mockResponses.json({ id: 'host-2', email: 'bob@example.com', display_name: 'Bobby' })
+      );
+
+      expect(await client.resolveHost('host-2')).toEqual({ name: 'Bobby', email: 'bob@example.com' });
+      expect(await client.resolveHost('host-2')).toEqual({ name: 'Bobby', email: 'bob@example.com' });
+      expect(mockRequestUrl.getCallsMatching(/users\/host-2/)).toHaveLength(1);
+    });
+
+    it('returns null when the user cannot be read', async () => {
+      mockRequestUrl.setPatternResponse(/api\.zoom\.us\/v2\/users\/host-3/, mockResponses.json({ message: 'No scope' }, 403));
+
+      expect(await client.resolveHost('host-3')).toBeNull();
+      expect(await client.resolveHost('host-3')).toBeNull();
+      expect(mockRequestUrl.getCallsMatching(/users\/host-3/)).toHaveLength(1);
+    });
+
+    it('throws transient errors without caching them', async () => {
+      let calls = 0;
+      mockRequestUrl.setPatternResponse(/api\.zoom\.us\/v2\/users\/host-5/, () => ++calls === 1
+        ? mockResponses.json({ message: 'Server error' }, 500)
+        : mockResponses.json({ id: 'host-5', email: 'lee@example.com', display_name: 'Lee' }));
+
+      await expect(client.resolveHost('host-5')).rejects.toThrow('Failed to get user: 500');
+      expect(await client.resolveHost('host-5')).toEqual({ name: 'Lee', email: 'lee@example.com' });
+    });
+
+    it('throws rate limits', async () => {
+      mockRequestUrl.setPatternResponse(/api\.zoom\.us\/v2\/users\/host-6/, mockResponses.json({ message: 'Too many requests' }, 429));
+
+      await expect(client.resolveHost('host-6')).rejects.toThrow(RateLimitError);
+    });
+
+    it("keeps the host's timezone", async () => {
+      mockRequestUrl.setPatternResponse(
+        /api\.zoom\.us\/v2\/users\/host-4/,
+        mockResponses.json({ id: 'host-4', email: 'ana@example.com', display_name: 'Ana', timezone: 'America/Chicago' })
+      );
+
+      expect(await client.resolveHost('host-4')).toEqual({ name: 'Ana', email: 'ana@example.com', timezone: 'America/Chicago' });
+    });
+  });
+
+  describe('findRecordingByShareUrl', () => {
+    it('matches the share link regardless of query string', async () => {
+      const other = createMockRecording({ id: 111111111 });
+      const target = { ...createMockRecording({ id: 222222222 }), share_url: 'https://zoom.us/rec/share/abc123' };
+      mockRequestUrl.setPatternResponse(
+        /api\.zoom\.us\/v2\/users\/[^/]+\/recordings/,
+        mockResponses.json(createMockListResponse([other, target]))
+      );
+
+      const result = await client.findRecordingByShareUrl('https://zoom.us/rec/share/abc123?startTime=1', recentFromDate);
+
+      expect(result?.id).toBe(222222222);
+    });
+
+    it('returns null when no listed recording matches', async () => {
+      mockRequestUrl.setPatternResponse(
+        /api\.zoom\.us\/v2\/users\/[^/]+\/recordings/,
+        mockResponses.json(createMockListResponse([createMockRecording({ id: 111111111 })]))
+      );
+
+      expect(await client.findRecordingByShareUrl('https://zoom.us/rec/share/missing', recentFromDate)).toBeNull();
+    });
+  });
+
+  describe('getPastMeeting', () => {
+    it('returns the meeting details', async () => {
+      mockRequestUrl.setPatternResponse(
+        /api\.zoom\.us\/v2\/past_meetings\//,
+        mockResponses.json({ uuid: 'occ-uuid==', id: 123456789, topic: 'Retro', start_time: '2024-03-01T09:00:00Z' })
+      );
+
+      const meeting = await client.getPastMeeting('123456789');
+
+      expect(meeting?.uuid).toBe('occ-uuid==');
+      expect(mockRequestUrl.getLastCall()?.url).toBe('https://api.zoom.us/v2/past_meetings/123456789');
+    });
+
+    it('returns null for unknown meetings', async () => {
+      mockRequestUrl.setPatternResponse(
+        /api\.zoom\.us\/v2\/past_meetings\//,
+        mockResponses.json({ message: 'Meeting not found' }, 404)
+      );
+
+      expect(await client.getPastMeeting('999999999')).toBeNull();
+    });
+  });
+
+  describe('getMeetingParticipants', () => {
+    it('collects every page of participant sessions', async () => {
+      mockRequestUrl.setPatternResponse(/report\/meetings\/[^/]+\/participants/, (params) =>
+        params.url.includes('next_page_token=page-2')
+          ? mockResponses.json({ participants: [{ name: 'Bob', join_time: '', leave_time: '', duration: 60 }] })
+          : mockResponses.json({
+            next_page_token: 'page-2',
+            participants: [{ name: 'Alice', join_time: '', leave_time: '', duration: 120 }],
+          })
+      );
+
+      const participants = await client.getMeetingParticipants('abc/def==');
+
+      expect(participants?.map(p => p.name)).toEqual(['Alice', 'Bob']);
+      expect(mockRequestUrl.getCallsMatching('participants')[0].url).toBe(
+        'https://api.zoom.us/v2/report/meetings/abc%252Fdef%253D%253D/participants?page_size=300'
+      );
+    });
+
+    it('returns null when there is no report and throws when the scope is missing', async () => {
+      mockRequestUrl.setPatternResponse(/report\/meetings\/missing\//, mockResponses.json({ message: 'Not found' }, 404));
+      mockRequestUrl.setPatternResponse(/report\/meetings\/noscope\//, mockResponses.json({ message: 'Invalid access token, does not contain scopes' }, 400));
+
+      expect(await client.getMeetingParticipants('missing')).toBeNull();
+      await expect(client.getMeetingParticipants('noscope')).rejects.toThrow('400');
+    });
+  });
+
   // ============================================================================
   // 21.4 - Pagination with many recordings
   // ============================================================================
@@ -660,4 +886,58 @@ Speaker Two: Thanks for having me.`;
       });
     });
   });
+
+  // ============================================================================
+  // Cancellation and progress
+  // ============================================================================
+  describe('Cancellation and progress', () => {
+    it('makes no requests once the signal has aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const cancelledClient = new ZoomApiClient(testSettings, { signal: controller.signal });
+
+      await expect(cancelledClient.listRecordings(recentFromDate)).rejects.toBeInstanceOf(SyncCancelledError);
+      expect(mockRequestUrl.getCallHistory()).toHaveLength(0);
+    });
+
+    it('stops during a retry backoff when aborted', async () => {
+      const controller = new AbortController();
+      const cancelledClient = new ZoomApiClient(testSettings, { signal: controller.signal });
+      let callCount = 0;
+      const downloadUrl = 'https://zoom.us/download/cancel/transcript.vtt';
+
+      mockRequestUrl.setResponse(downloadUrl, () => {
+        callCount++;
+        throw new Error('Network error: ECONNRESET');
+      });
+
+      const contentPromise = cancelledClient.downloadTranscript(downloadUrl);
+      const assertion = expect(contentPromise).rejects.toBeInstanceOf(SyncCancelledError);
+
+      // Abort while the first backoff delay is pending
+      await vi.advanceTimersByTimeAsync(500);
+      controller.abort();
+      await assertion;
+
+      expect(callCount).toBe(1);
+    });
+
+    it('reports listing progress for each month', async () => {
+      const events: SyncProgress[] = [];
+      const progressClient = new ZoomApiClient(testSettings, { onProgress: (p) => events.push(p) });
+
+      mockRequestUrl.setPatternResponse(
+        /api\.zoom\.us\/v2\/users\/[^/]+\/recordings/,
+        mockResponses.json(createMockListResponse([]))
+      );
+
+      await progressClient.listRecordings(new Date('2024-12-01'));
+
+      expect(events).toEqual([
+        { phase: 'listing-users' },
+        { phase: 'listing', source: 'recording', userIndex: 1, userCount: 1, month: 1, monthCount: 2 },
+        { phase: 'listing', source: 'recording', userIndex: 1, userCount: 1, month: 2, monthCount: 2 },
+      ]);
+    });
+  });
 });